@@ -1,46 +1,624 @@
-import React, { useState, useCallback } from 'react';
-import { Search, Info, GitBranch, History, ExternalLink, Loader2, AlertCircle, MessageSquareText } from 'lucide-react';
-import { fetchCompanyData } from './services/geminiService';
-import { CompanyData } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Search, Info, GitBranch, History, ExternalLink, Loader2, AlertCircle, MessageSquareText, FolderClock, Building2, Columns2, ListChecks, Plus, DatabaseZap, RefreshCw, Gauge } from 'lucide-react';
+import { AnalysisInterruptedError } from './services/geminiService';
+import { describeError } from './services/llmErrors';
+import { logger } from './services/logger';
+import { fetchCompanyDataCached, CachedAnalysis } from './services/analysisCache';
+import { getProvider } from './services/providers';
+import { listAnalyses, getAnalysis, saveAnalysis, renameAnalysis, deleteAnalysis, createAnalysisId } from './services/analysisStore';
+import { graftDrillDown } from './services/drillDown';
+import { checkForUpdates, applyRefresh, summarizeRefresh } from './services/updateCheck';
+import { createHistory, currentVersion, pushVersion, undo, redo, createVersionId, diffCompanyData, summarizeDiff } from './services/versionHistory';
+import { parseImportFile, mergeCompanyData, importedToCompanyData } from './services/importers';
+import { TimelineFilter, readTimelineFilter, writeTimelineFilter } from './services/timelineFilter';
+import { AppView, AppRoute, OrgChartView, DEFAULT_ORG_VIEW, readRoute, writeRoute, decodeSnapshot, readSnapshotHash } from './services/permalink';
+import { normalizeEntityName, ComparedCompany } from './services/comparison';
+import { BatchRun, BatchRow } from './services/batchRunner';
+import { adoptTranscript } from './services/conversationStore';
+import { UsageRecord, UsageBudgets, currentUsageSession, startUsageSession, listUsage, subscribeUsage, clearUsage, readBudgets, saveBudgets, totalUsage, checkBudgets } from './services/usageTracker';
+import { OrgPath, getNodeAtPath, updateNodeAtPath, addChildAtPath, removeNodeAtPath, moveNode } from './services/orgTree';
+import { replayChatTools } from './services/chatTools';
+import { CompanyData, SavedAnalysis, VersionHistory, VersionSource, PendingUpdate, ChatToolOp, UpdateStatus, TimelineEvent, OrgNode, PartialCompanyData, RefreshProposal } from './types';
 import HistoryChart from './components/HistoryChart';
 import OrgChart from './components/OrgChart';
 import ChatWindow from './components/ChatWindow';
+import RecentAnalyses from './components/RecentAnalyses';
+import UpdateReview from './components/UpdateReview';
+import RefreshReview from './components/RefreshReview';
+import UpdateCheckMenu from './components/UpdateCheckMenu';
+import VersionPanel from './components/VersionPanel';
+import ComparisonView from './components/ComparisonView';
+import BatchView from './components/BatchView';
+import StreamingPreview from './components/StreamingPreview';
+import ExportMenu from './components/ExportMenu';
+import ShareMenu from './components/ShareMenu';
+import ImportButton from './components/ImportButton';
+import EventEditor from './components/EventEditor';
+import NodeEditor from './components/NodeEditor';
+import EventDetailPanel from './components/EventDetailPanel';
+import AnalysisBreadcrumbs from './components/AnalysisBreadcrumbs';
+import UsagePanel, { formatCost, describeWarning } from './components/UsagePanel';
+
+// "just now", "5 min ago", "3 h ago"
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+interface AppError {
+  title?: string;
+  message: string;
+  retry?: () => void;
+}
+
+// Model failures get a title and guidance; retry is dropped where repeating cannot help
+const toAppError = (err: unknown, fallback: string, retry?: () => void): AppError => {
+  if (err instanceof AnalysisInterruptedError) {
+    return { title: err.cancelled ? undefined : describeError(err.cause).title, message: err.message, retry: err.cancelled ? undefined : retry };
+  }
+  const guidance = describeError(err, fallback);
+  return {
+    title: guidance.title,
+    message: guidance.message,
+    retry: guidance.kind === 'auth' || guidance.kind === 'safety' ? undefined : retry
+  };
+};
+
+// A cache hit returns data that was already saved when it was fetched; that record is
+// reopened (with any edits since) instead of saving another copy
+const findSavedFetch = async (result: Pick<CachedAnalysis, 'data' | 'fetchedAt'>): Promise<SavedAnalysis | undefined> => {
+  const company = normalizeEntityName(result.data.companyName);
+  try {
+    return (await listAnalyses()).find((r) => normalizeEntityName(r.companyName) === company && r.createdAt >= result.fetchedAt);
+  } catch {
+    return undefined;
+  }
+};
 
 const App: React.FC = () => {
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const [data, setData] = useState<CompanyData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'timeline' | 'structure'>('timeline');
+  const [partial, setPartial] = useState<PartialCompanyData | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [history, setHistory] = useState<VersionHistory | null>(null);
+  const [pendingUpdates, setPendingUpdates] = useState<PendingUpdate[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  // `event` is undefined while adding a new one
+  const [editingEvent, setEditingEvent] = useState<{ event?: TimelineEvent } | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | null>(null);
+  const [chatDraft, setChatDraft] = useState<string | null>(null);
+  const [editingNodePath, setEditingNodePath] = useState<OrgPath | null>(null);
+  const [drillingNode, setDrillingNode] = useState<string | null>(null); // Name of the node being analyzed
+  const [refreshProposal, setRefreshProposal] = useState<RefreshProposal | null>(null);
+  const [isCheckingUpdates, setIsCheckingUpdates] = useState(false);
+  // Set when the active analysis was served from the response cache
+  const [cacheHit, setCacheHit] = useState<{ recordId: string; fetchedAt: number } | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
+  const [activeTab, setActiveTab] = useState<AppView>(() => readRoute(new URLSearchParams(window.location.search)).view);
+  const [orgView, setOrgView] = useState<OrgChartView>(() => readRoute(new URLSearchParams(window.location.search)).org);
+  const [orgChartKey, setOrgChartKey] = useState(0); // Bumped to remount the chart on a restored org view
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [mode, setMode] = useState<'single' | 'compare' | 'batch'>('single');
+  const [comparedCompanies, setComparedCompanies] = useState<ComparedCompany[]>([]);
+  const batchRunRef = useRef<BatchRun | null>(null);
+  const [batchRows, setBatchRows] = useState<BatchRow[]>([]);
+  // Batch results already opened, so opening one again reuses its saved analysis
+  const batchRecordsRef = useRef(new WeakMap<CompanyData, string>());
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(() => listUsage());
+  const [providerLabel, setProviderLabel] = useState(() => getProvider().displayName);
+  const [usageBudgets, setUsageBudgets] = useState<UsageBudgets>(() => readBudgets());
+  const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([]);
+  // The stored record backing the current view; null when the analysis is not persisted
+  const activeRecordRef = useRef<SavedAnalysis | null>(null);
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const [activeAnalysisId, setActiveAnalysisId] = useState<string | null>(null);
+  const [timelineFilter, setTimelineFilter] = useState<TimelineFilter>(
+    () => readTimelineFilter(new URLSearchParams(window.location.search))
+  );
 
-  const handleSearch = useCallback(async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!query.trim()) return;
+  const data: CompanyData | null = history ? currentVersion(history).data : null;
+  // Undo/redo or a chat update can replace the selected event; close the panel then
+  const detailEvent = selectedEvent && data?.timeline.includes(selectedEvent) ? selectedEvent : null;
+
+  // Saved analyses live in browser storage; a failed read or write is shown, not just logged
+  const reportStorageError = useCallback((err: unknown) => {
+    logger.error("Saved analyses storage failed", err);
+    setError({ title: 'Storage error', message: `Saved analyses could not be read or updated: ${err instanceof Error ? err.message : String(err)}` });
+  }, []);
+
+  const refreshSavedAnalyses = useCallback(async () => {
+    try {
+      const records = await listAnalyses();
+      records.forEach((record) => adoptTranscript(record.companyName, record.id, record.transcript, record.createdAt));
+      setSavedAnalyses(records);
+    } catch (err) {
+      reportStorageError(err);
+    }
+  }, [reportStorageError]);
+
+  useEffect(() => {
+    refreshSavedAnalyses();
+  }, [refreshSavedAnalyses]);
+
+  useEffect(() => subscribeUsage(setUsageRecords), []);
+
+  // Behind the proxy the server names the model
+  useEffect(() => {
+    const provider = getProvider();
+    provider.resolveModel?.().then(() => setProviderLabel(provider.displayName));
+  }, []);
+
+  const handleBudgetsChange = (budgets: UsageBudgets) => {
+    setUsageBudgets(budgets);
+    saveBudgets(budgets);
+  };
+
+  const activateRecord = (record: SavedAnalysis | null) => {
+    activeRecordRef.current = record;
+    setActiveAnalysisId(record ? record.id : null);
+    setOrgView(DEFAULT_ORG_VIEW);
+  };
+
+  // Persist accepted updates and undo/redo to the active record; chats are kept per company
+  useEffect(() => {
+    const record = activeRecordRef.current;
+    if (!record || !history || record.history === history) return;
+
+    const next = { ...record, data: currentVersion(history).data, history };
+    activeRecordRef.current = next;
+    saveAnalysis(next)
+      .then(refreshSavedAnalyses)
+      .catch(reportStorageError);
+  }, [history, refreshSavedAnalyses, reportStorageError]);
+
+  const resetEditingState = () => {
+    setPendingUpdates([]);
+    setSelectedVersionId(null);
+    setEditingEvent(null);
+    setSelectedEvent(null);
+    setEditingNodePath(null);
+    setRefreshProposal(null);
+  };
+
+  // Creates and persists a fresh record for newly obtained data
+  const startAnalysis = useCallback((result: CompanyData, label?: string) => {
+    const now = Date.now();
+    const initialHistory = createHistory(result, label);
+    const record: SavedAnalysis = {
+      id: createAnalysisId(),
+      title: result.companyName,
+      companyName: result.companyName,
+      data: result,
+      history: initialHistory,
+      createdAt: now,
+      updatedAt: now
+    };
+    activateRecord(record);
+    setHistory(initialHistory);
+    saveAnalysis(record)
+      .then(refreshSavedAnalyses)
+      .catch(reportStorageError);
+    return record;
+  }, [refreshSavedAnalyses, reportStorageError]);
+
+  const handleOpenSaved = useCallback((record: SavedAnalysis) => {
+    const restoredHistory = record.history || createHistory(record.data);
+    activateRecord({ ...record, history: restoredHistory });
+    adoptTranscript(record.companyName, record.id, record.transcript, record.createdAt);
+    setHistory(restoredHistory);
+    resetEditingState();
+    setQuery(record.companyName);
+    setError(null);
+    setIsHistoryOpen(false);
+  }, []);
+
+  const runSearch = useCallback(async (name: string, bypassCache = false) => {
+    if (!name.trim()) return;
 
     setLoading(true);
     setError(null);
-    setData(null);
+    setHistory(null);
+    resetEditingState();
     setIsChatOpen(false); 
+    activateRecord(null);
+
+    setPartial(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const result = await fetchCompanyData(query);
-      setData(result);
+      const result = await fetchCompanyDataCached(name, { signal: controller.signal, onProgress: setPartial, bypassCache });
+      const saved = result.fromCache ? await findSavedFetch(result) : undefined;
+      if (saved) handleOpenSaved(saved);
+      const record = saved || startAnalysis(result.data);
+      setCacheHit(result.fromCache ? { recordId: record.id, fetchedAt: result.fetchedAt } : null);
     } catch (err: any) {
-      setError(err.message || "Failed to fetch company data. Please try again.");
+      // An interrupted stream still yields an editable analysis from what arrived
+      if (err instanceof AnalysisInterruptedError && err.partial) {
+        startAnalysis(err.partial, 'Partial analysis (interrupted)');
+      }
+      setError(toAppError(err, "Failed to fetch company data. Please try again.", () => runSearch(name)));
     } finally {
+      abortControllerRef.current = null;
+      setPartial(null);
       setLoading(false);
     }
-  }, [query]);
+  }, [startAnalysis, handleOpenSaved]);
+
+  const handleSearch = useCallback((e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    runSearch(query);
+  }, [query, runSearch]);
+
+  // Seeds a new saved analysis from an imported file instead of a search
+  const handleSeedImport = useCallback((text: string, fileName: string) => {
+    try {
+      const seeded = importedToCompanyData(parseImportFile(text, fileName), fileName);
+      resetEditingState();
+      setError(null);
+      setQuery(seeded.companyName);
+      startAnalysis(seeded, `Imported from ${fileName}`);
+    } catch (err: any) {
+      setError({ message: err.message || "Could not import that file." });
+    }
+  }, [startAnalysis]);
+
+  const handleRenameSaved = useCallback(async (id: string, title: string) => {
+    try {
+      const renamed = await renameAnalysis(id, title);
+      if (renamed && activeRecordRef.current?.id === id) {
+        activeRecordRef.current = { ...activeRecordRef.current, title: renamed.title };
+      }
+    } catch (err) {
+      reportStorageError(err);
+    }
+    refreshSavedAnalyses();
+  }, [refreshSavedAnalyses, reportStorageError]);
 
-  // Handler for updates coming from the Chat AI
-  const handleDataUpdate = useCallback((updates: Partial<CompanyData>) => {
-    setData((prev) => {
-      if (!prev) return null;
-      return { ...prev, ...updates };
+  const handleDeleteSaved = useCallback(async (id: string) => {
+    try {
+      await deleteAnalysis(id);
+      if (activeRecordRef.current?.id === id) activateRecord(null);
+    } catch (err) {
+      reportStorageError(err);
+    }
+    refreshSavedAnalyses();
+  }, [refreshSavedAnalyses, reportStorageError]);
+
+  // Restores a shared link: the embedded snapshot, else the saved analysis (by id, then by
+  // company name), else a fresh search; then the view on top of it
+  const applyRoute = useCallback(async (route: AppRoute, params: URLSearchParams, snapshot: string | null) => {
+    setMode('single');
+    if (snapshot) {
+      try {
+        const shared = await decodeSnapshot(snapshot);
+        resetEditingState();
+        setError(null);
+        setQuery(shared.companyName);
+        startAnalysis(shared, 'Opened from a shared snapshot');
+      } catch (err: any) {
+        setError({ message: err.message || "Could not open that snapshot link." });
+      }
+    } else if (route.analysisId && route.analysisId === activeRecordRef.current?.id) {
+      // Same analysis; only the view differs
+    } else if (!route.analysisId && !route.company) {
+      // Back to the start page
+      setHistory(null);
+      activateRecord(null);
+    } else {
+      const company = route.company && normalizeEntityName(route.company);
+      const record = (route.analysisId && await getAnalysis(route.analysisId)) ||
+        (company ? (await listAnalyses()).find((r) => normalizeEntityName(r.companyName) === company) : undefined);
+      if (record) {
+        handleOpenSaved(record);
+      } else if (route.company) {
+        setQuery(route.company);
+        await runSearch(route.company);
+      }
+    }
+    setActiveTab(route.view);
+    setOrgView(route.org);
+    setOrgChartKey((key) => key + 1);
+    setTimelineFilter(readTimelineFilter(params));
+    setIsChatOpen(route.chat);
+  }, [startAnalysis, handleOpenSaved, runSearch]);
+
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+  const routeStartedRef = useRef(false);
+  const [routeApplied, setRouteApplied] = useState(false);
+
+  useEffect(() => {
+    const restore = () => {
+      const params = new URLSearchParams(window.location.search);
+      const snapshot = readSnapshotHash(window.location.hash);
+      if (snapshot) {
+        // The data lives on as a local analysis; keep the address bar short
+        window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}`);
+      }
+      return applyRouteRef.current(readRoute(params), params, snapshot);
+    };
+    // Guarded so StrictMode's second run does not search twice
+    if (!routeStartedRef.current) {
+      routeStartedRef.current = true;
+      restore().finally(() => setRouteApplied(true));
+    }
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  // Mirror what is on screen into the URL so any view can be linked. Switching analyses adds a
+  // history entry; view changes within one replace it.
+  const lastRouteRef = useRef<AppRoute | null>(null);
+  useEffect(() => {
+    if (!routeApplied || mode !== 'single' || loading) return;
+    const route: AppRoute = {
+      company: data?.companyName,
+      analysisId: activeAnalysisId || undefined,
+      view: activeTab,
+      chat: isChatOpen,
+      org: orgView
+    };
+    const params = writeTimelineFilter(writeRoute(new URLSearchParams(window.location.search), route), timelineFilter);
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    const previous = lastRouteRef.current;
+    lastRouteRef.current = route;
+    if (url === `${window.location.pathname}${window.location.search}${window.location.hash}`) return;
+    const switched = !!previous && (previous.company !== route.company || previous.analysisId !== route.analysisId);
+    if (switched) window.history.pushState(null, '', url);
+    else window.history.replaceState(window.history.state, '', url);
+  }, [routeApplied, mode, loading, data?.companyName, activeAnalysisId, activeTab, isChatOpen, orgView, timelineFilter]);
+
+  // Updates coming from the Chat AI are queued for review instead of applied directly
+  const handleDataUpdate = useCallback((ops: ChatToolOp[]) => {
+    const id = createVersionId();
+    setPendingUpdates((prev) => [...prev, { id, ops, createdAt: Date.now() }]);
+    return id;
+  }, []);
+
+  // The proposal is replayed on the current version, so edits made while it waited survive
+  const handleAcceptUpdate = useCallback((pending: PendingUpdate) => {
+    setPendingUpdates((prev) => prev.filter((p) => p.id !== pending.id));
+    if (!history) return;
+    const before = currentVersion(history).data;
+    const { data: after, skipped } = replayChatTools(before, pending.ops);
+    if (skipped.length > 0) {
+      setError({
+        title: 'Part of the update was skipped',
+        message: `${skipped.length} of the assistant's changes no longer fit the current data: ${skipped.join(' ')}`
+      });
+    }
+    if (after === before) return;
+    setHistory(pushVersion(history, after, {
+      id: pending.id,
+      source: 'chat',
+      label: `Assistant: ${summarizeDiff(diffCompanyData(before, after))}`
+    }));
+  }, [history]);
+
+  const handleRejectUpdate = useCallback((pending: PendingUpdate) => {
+    setPendingUpdates((prev) => prev.filter((p) => p.id !== pending.id));
+  }, []);
+
+  // Manual edits and imports become versions just like accepted chat updates
+  const commitEdit = useCallback((source: VersionSource, label: string, transform: (data: CompanyData) => CompanyData) => {
+    if (!history) return;
+    try {
+      setHistory(pushVersion(history, transform(currentVersion(history).data), { source, label }));
+    } catch (err: any) {
+      setError({ message: err.message || "That edit could not be applied." });
+    }
+  }, [history]);
+
+  const handleSaveEvent = useCallback((original: TimelineEvent | undefined, event: TimelineEvent) => {
+    commitEdit('manual', original ? `Edited "${event.title}"` : `Added "${event.title}"`, (current) => ({
+      ...current,
+      timeline: original
+        ? current.timeline.map((e) => (e === original ? event : e))
+        : [...current.timeline, event]
+    }));
+    setEditingEvent(null);
+    // Keep the detail panel on the edited event
+    setSelectedEvent((selected) => (original && selected === original ? event : selected));
+  }, [commitEdit]);
+
+  const handleDeleteEvent = useCallback((original: TimelineEvent) => {
+    commitEdit('manual', `Deleted "${original.title}"`, (current) => ({
+      ...current,
+      timeline: current.timeline.filter((e) => e !== original)
+    }));
+    setEditingEvent(null);
+  }, [commitEdit]);
+
+  const handleNodeClick = useCallback((path: OrgPath) => setEditingNodePath(path), []);
+
+  const handleSaveNode = useCallback((path: OrgPath, node: OrgNode) => {
+    commitEdit('manual', `Edited ${node.name}`, (current) => ({
+      ...current,
+      structure: updateNodeAtPath(current.structure, path, () => node)
+    }));
+    setEditingNodePath(null);
+  }, [commitEdit]);
+
+  const handleAddChildNode = useCallback((path: OrgPath, child: OrgNode) => {
+    commitEdit('manual', `Added ${child.name}`, (current) => ({
+      ...current,
+      structure: addChildAtPath(current.structure, path, child)
+    }));
+    setEditingNodePath(null);
+  }, [commitEdit]);
+
+  const handleDeleteNode = useCallback((path: OrgPath) => {
+    commitEdit('manual', `Removed ${getNodeAtPath(data.structure, path)?.name || 'node'}`, (current) => ({
+      ...current,
+      structure: removeNodeAtPath(current.structure, path)
+    }));
+    setEditingNodePath(null);
+  }, [commitEdit, data]);
+
+  const handleReparent = useCallback((fromPath: OrgPath, toParentPath: OrgPath) => {
+    commitEdit('manual', `Moved ${getNodeAtPath(data.structure, fromPath)?.name || 'node'}`, (current) => ({
+      ...current,
+      structure: moveNode(current.structure, fromPath, toParentPath)
+    }));
+  }, [commitEdit, data]);
+
+  // Analyzes a node as its own company: the result is saved as a child analysis and
+  // its structure is grafted under the node in the current one
+  const handleDrillDown = useCallback(async (path: OrgPath) => {
+    const node = data && getNodeAtPath(data.structure, path);
+    const parentRecord = activeRecordRef.current;
+    if (!node || drillingNode) return;
+
+    setDrillingNode(node.name);
+    setEditingNodePath(null);
+    setError(null);
+    try {
+      const result = await fetchCompanyDataCached(node.name);
+      const drilled = result.data;
+      const now = Date.now();
+      const existing = result.fromCache ? await findSavedFetch(result) : undefined;
+      const child: SavedAnalysis = existing || {
+        id: createAnalysisId(),
+        title: drilled.companyName,
+        companyName: drilled.companyName,
+        data: drilled,
+        history: createHistory(drilled),
+        parent: parentRecord ? { id: parentRecord.id, nodeName: node.name } : undefined,
+        createdAt: now,
+        updatedAt: now
+      };
+      if (!existing) await saveAnalysis(child);
+
+      const provenance = { analysisId: child.id, companyName: drilled.companyName, fetchedAt: now };
+      const graft = (prev: VersionHistory) => {
+        const current = currentVersion(prev).data;
+        if (getNodeAtPath(current.structure, path)?.name !== node.name) {
+          throw new Error(`"${node.name}" was moved or renamed while it was being analyzed.`);
+        }
+        return pushVersion(prev, graftDrillDown(current, path, drilled, provenance), {
+          source: 'drilldown',
+          label: `Drilled into ${node.name}`
+        });
+      };
+
+      if (activeRecordRef.current?.id === parentRecord?.id) {
+        setHistory((prev) => {
+          if (!prev) return prev;
+          try {
+            return graft(prev);
+          } catch (err: any) {
+            setError({ message: err.message });
+            return prev;
+          }
+        });
+      } else if (parentRecord) {
+        // The user opened another analysis meanwhile; graft into the stored parent instead
+        const stored = await getAnalysis(parentRecord.id);
+        if (stored) {
+          const nextHistory = graft(stored.history || createHistory(stored.data));
+          await saveAnalysis({ ...stored, history: nextHistory, data: currentVersion(nextHistory).data });
+        }
+      }
+      refreshSavedAnalyses();
+    } catch (err: any) {
+      setError(toAppError(err, `Failed to analyze ${node.name}.`, () => handleDrillDown(path)));
+    } finally {
+      setDrillingNode(null);
+    }
+  }, [data, drillingNode, refreshSavedAnalyses]);
+
+  const handleStartBatch = useCallback((companyNames: string[], concurrency: number) => {
+    batchRunRef.current?.cancel();
+    const run = new BatchRun(companyNames, {
+      concurrency,
+      onChange: (rows) => {
+        if (batchRunRef.current === run) setBatchRows(rows);
+      }
     });
+    batchRunRef.current = run;
+    setBatchRows(run.rows);
+    run.start();
   }, []);
 
+  const handleOpenBatchRow = useCallback(async (row: BatchRow) => {
+    if (!row.data) return;
+    const savedId = batchRecordsRef.current.get(row.data);
+    const saved = savedId
+      ? await getAnalysis(savedId)
+      : row.fromCache && row.fetchedAt ? await findSavedFetch({ data: row.data, fetchedAt: row.fetchedAt }) : undefined;
+    setMode('single');
+    if (saved) {
+      handleOpenSaved(saved);
+      return;
+    }
+    resetEditingState();
+    setError(null);
+    setQuery(row.data.companyName);
+    batchRecordsRef.current.set(row.data, startAnalysis(row.data, 'Batch analysis').id);
+  }, [handleOpenSaved, startAnalysis]);
+
+  const handleOpenAnalysisById = useCallback(async (id: string) => {
+    const record = savedAnalyses.find((r) => r.id === id) || await getAnalysis(id);
+    if (record) handleOpenSaved(record);
+    else setError({ message: "That analysis is no longer saved." });
+  }, [savedAnalyses, handleOpenSaved]);
+
+  // Re-runs the analysis and queues the differences for review; nothing changes until applied
+  const handleCheckUpdates = useCallback(async (since?: string) => {
+    if (!history) return;
+    const recordId = activeRecordRef.current?.id;
+    setIsCheckingUpdates(true);
+    setError(null);
+    try {
+      const proposal = await checkForUpdates(currentVersion(history).data, history, since);
+      if (activeRecordRef.current?.id === recordId) setRefreshProposal(proposal);
+    } catch (err: any) {
+      setError(toAppError(err, "The update check failed. Please try again.", () => handleCheckUpdates(since)));
+    } finally {
+      setIsCheckingUpdates(false);
+    }
+  }, [history]);
+
+  const handleApplyRefresh = useCallback((selected: Set<string>) => {
+    if (!refreshProposal) return;
+    setHistory((prev) => prev && pushVersion(prev, applyRefresh(currentVersion(prev).data, refreshProposal, selected), {
+      source: 'refresh',
+      label: `Update check: ${summarizeRefresh(refreshProposal, selected)}`
+    }));
+    setRefreshProposal(null);
+  }, [refreshProposal]);
+
+  const handleMergeImport = useCallback((text: string, fileName: string) => {
+    try {
+      const imported = parseImportFile(text, fileName);
+      setError(null);
+      commitEdit('import', `Merged ${fileName}`, (current) => mergeCompanyData(current, imported));
+    } catch (err: any) {
+      setError({ message: err.message || "Could not import that file." });
+    }
+  }, [commitEdit]);
+
+  const getUpdateStatus = useCallback((id: string): UpdateStatus => {
+    if (pendingUpdates.some((p) => p.id === id)) return 'pending';
+    if (history?.versions.some((v) => v.id === id)) return 'applied';
+    return 'discarded';
+  }, [pendingUpdates, history]);
+
+  const activePending = pendingUpdates[0];
+  const lastChecked = history?.versions.reduce<number | undefined>(
+    (latest, v) => (v.source === 'refresh' ? Math.max(latest || 0, v.createdAt) : latest),
+    undefined
+  );
+  const canChat = mode === 'compare' ? comparedCompanies.length > 1 : mode === 'single' && !!data;
+  const sessionUsage = totalUsage(usageRecords.filter((r) => r.sessionId === currentUsageSession()));
+  const budgetWarnings = checkBudgets(usageRecords, usageBudgets);
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-950 text-slate-100 relative overflow-hidden">
       {/* Header */}
@@ -55,10 +633,33 @@ const App: React.FC = () => {
             </h1>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+              className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium ${
+                isHistoryOpen
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              <FolderClock className="w-4 h-4" />
+              <span className="hidden sm:inline">Recent</span>
+            </button>
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              title={budgetWarnings.length > 0 ? budgetWarnings.map(describeWarning).join('\n') : 'Token usage and estimated cost'}
+              className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium ${
+                budgetWarnings.length > 0
+                  ? 'bg-amber-500/15 text-amber-300 border border-amber-500/40 hover:bg-amber-500/25'
+                  : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              <Gauge className="w-4 h-4" />
+              <span className="hidden sm:inline tabular-nums">{formatCost(sessionUsage.estimatedCost)}</span>
+            </button>
              <div className="text-xs text-slate-500 hidden sm:block">
-              Powered by Google Gemini 2.5
+              Powered by {providerLabel}
             </div>
-            {data && (
+            {canChat && (
               <button
                 onClick={() => setIsChatOpen(!isChatOpen)}
                 className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium ${
@@ -77,148 +678,364 @@ const App: React.FC = () => {
 
       <main className={`flex-1 flex flex-col max-w-7xl mx-auto w-full px-4 py-8 transition-all duration-300 ${isChatOpen ? 'pr-0 sm:pr-4' : ''}`}>
         
-        {/* Search Section */}
-        <div className={`transition-all duration-500 ease-in-out flex flex-col items-center justify-center ${data ? 'min-h-[100px]' : 'min-h-[60vh]'}`}>
-          {!data && !loading && (
-             <div className="text-center mb-8 animate-fade-in">
-               <h2 className="text-4xl md:text-5xl font-extrabold text-white mb-4 tracking-tight">
-                 Uncover the Story.
-               </h2>
-               <p className="text-slate-400 text-lg max-w-xl mx-auto">
-                 Explore the history, milestones, and organizational structure of any company in seconds.
-               </p>
-             </div>
-          )}
-
-          <form onSubmit={handleSearch} className="w-full max-w-xl relative">
-            <div className="relative group">
-              <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                <Search className={`w-5 h-5 ${loading ? 'text-blue-400' : 'text-slate-400 group-focus-within:text-blue-400'}`} />
-              </div>
-              <input
-                type="text"
-                className="w-full pl-12 pr-4 py-4 bg-slate-900 border border-slate-700 rounded-2xl text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all shadow-xl shadow-black/20"
-                placeholder="Enter a company name (e.g., Nintendo, Alphabet, SpaceX)..."
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                disabled={loading}
-              />
-              <button 
-                type="submit" 
-                disabled={loading || !query.trim()}
-                className="absolute right-2 top-2 bottom-2 px-4 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white font-medium rounded-xl transition-colors"
-              >
-                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Analyze"}
-              </button>
-            </div>
-          </form>
-
-          {/* Error Message */}
-          {error && (
-            <div className="mt-6 p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-200 flex items-center gap-3 animate-fade-in">
-              <AlertCircle className="w-5 h-5 flex-shrink-0" />
-              <p>{error}</p>
-            </div>
-          )}
+        {/* Mode Toggle */}
+        <div className="flex justify-center mb-6">
+          <div className="inline-flex p-1 bg-slate-900 border border-slate-800 rounded-xl">
+            <button
+              onClick={() => setMode('single')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                mode === 'single' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <Building2 className="w-4 h-4" />
+              Single Company
+            </button>
+            <button
+              onClick={() => setMode('compare')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                mode === 'compare' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <Columns2 className="w-4 h-4" />
+              Compare
+            </button>
+            <button
+              onClick={() => setMode('batch')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                mode === 'batch' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <ListChecks className="w-4 h-4" />
+              Batch
+            </button>
+          </div>
         </div>
 
-        {/* Content Section */}
-        {loading && !data && (
-           <div className="flex-1 flex flex-col items-center justify-center space-y-4 animate-pulse">
-             <div className="w-16 h-16 rounded-full bg-slate-800/50 flex items-center justify-center">
-                <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
-             </div>
-             <p className="text-slate-400">Gathering intelligence from the web...</p>
-           </div>
-        )}
+        {mode === 'compare' ? (
+          <ComparisonView companies={comparedCompanies} onCompaniesChange={setComparedCompanies} />
+        ) : mode === 'batch' ? (
+          <BatchView
+            rows={batchRows}
+            onStart={handleStartBatch}
+            onCancel={() => batchRunRef.current?.cancel()}
+            onRetryFailed={() => batchRunRef.current?.retryFailed()}
+            onOpen={handleOpenBatchRow}
+          />
+        ) : (
+          <>
+            {/* Search Section */}
+            <div className={`transition-all duration-500 ease-in-out flex flex-col items-center justify-center ${data ? 'min-h-[100px]' : 'min-h-[60vh]'}`}>
+              {!data && !loading && (
+                 <div className="text-center mb-8 animate-fade-in">
+                   <h2 className="text-4xl md:text-5xl font-extrabold text-white mb-4 tracking-tight">
+                     Uncover the Story.
+                   </h2>
+                   <p className="text-slate-400 text-lg max-w-xl mx-auto">
+                     Explore the history, milestones, and organizational structure of any company in seconds.
+                   </p>
+                 </div>
+              )}
 
-        {data && !loading && (
-          <div className="flex-1 flex flex-col gap-6 animate-fade-in-up">
-            
-            {/* Company Info Card */}
-            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-sm">
-              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
-                <div>
-                  <h2 className="text-3xl font-bold text-white mb-2">{data.companyName}</h2>
-                  <p className="text-slate-300 leading-relaxed max-w-4xl">{data.summary}</p>
-                </div>
-                <div className="flex flex-wrap gap-2 md:justify-end">
-                   <span className="px-3 py-1 bg-slate-800 text-slate-400 text-xs rounded-full border border-slate-700">
-                     Founding Date: {data.timeline.find(e => e.category === 'founding')?.dateStr || data.timeline.find(e => e.category === 'founding')?.year || 'N/A'}
-                   </span>
+              <form onSubmit={handleSearch} className="w-full max-w-xl relative">
+                <div className="relative group">
+                  <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                    <Search className={`w-5 h-5 ${loading ? 'text-blue-400' : 'text-slate-400 group-focus-within:text-blue-400'}`} />
+                  </div>
+                  <input
+                    type="text"
+                    className="w-full pl-12 pr-4 py-4 bg-slate-900 border border-slate-700 rounded-2xl text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all shadow-xl shadow-black/20"
+                    placeholder="Enter a company name (e.g., Nintendo, Alphabet, SpaceX)..."
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    disabled={loading}
+                  />
+                  <button 
+                    type="submit" 
+                    disabled={loading || !query.trim()}
+                    className="absolute right-2 top-2 bottom-2 px-4 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white font-medium rounded-xl transition-colors"
+                  >
+                    {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Analyze"}
+                  </button>
                 </div>
-              </div>
-            </div>
+              </form>
 
-            {/* View Toggle */}
-            <div className="flex items-center gap-4 border-b border-slate-800 pb-1">
-              <button
-                onClick={() => setActiveTab('timeline')}
-                className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
-                  activeTab === 'timeline'
-                    ? 'border-blue-500 text-blue-400'
-                    : 'border-transparent text-slate-400 hover:text-slate-200'
-                }`}
-              >
-                <History className="w-4 h-4" />
-                History Timeline
-              </button>
-              <button
-                onClick={() => setActiveTab('structure')}
-                className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
-                  activeTab === 'structure'
-                    ? 'border-blue-500 text-blue-400'
-                    : 'border-transparent text-slate-400 hover:text-slate-200'
-                }`}
-              >
-                <GitBranch className="w-4 h-4" />
-                Org Structure
-              </button>
-            </div>
+              {!data && !loading && (
+                <ImportButton
+                  label="Or import a saved JSON / CSV file"
+                  onImport={handleSeedImport}
+                  className="mt-4 flex items-center gap-2 text-sm text-slate-500 hover:text-slate-300 transition-colors"
+                />
+              )}
 
-            {/* Visualization Area */}
-            <div className="flex-1 min-h-[500px] bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden relative">
-              {activeTab === 'timeline' ? (
-                <HistoryChart data={data.timeline} />
-              ) : (
-                <OrgChart data={data.structure} />
+              {/* Error Message */}
+              {error && (
+                <div className="mt-6 p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-200 flex items-center gap-3 animate-fade-in">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <div className="flex-1 text-left">
+                    {error.title && <p className="font-semibold">{error.title}</p>}
+                    <p className={error.title ? 'text-sm text-red-200/80' : undefined}>{error.message}</p>
+                  </div>
+                  {error.retry && (
+                    <button
+                      onClick={error.retry}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-red-800/40 text-red-100 hover:bg-red-800/70 transition-colors flex-shrink-0"
+                    >
+                      <RefreshCw className="w-4 h-4" /> Retry
+                    </button>
+                  )}
+                </div>
               )}
             </div>
 
-            {/* Sources */}
-            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
-              <div className="flex items-center gap-2 mb-3 text-slate-400">
-                <Info className="w-4 h-4" />
-                <h3 className="text-sm font-semibold uppercase tracking-wider">Sources & References</h3>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                {data.sources.slice(0, 6).map((source, idx) => (
-                  <a 
-                    key={idx} 
-                    href={source.uri} 
-                    target="_blank" 
-                    rel="noreferrer"
-                    className="flex items-center gap-2 p-3 rounded-lg bg-slate-950 border border-slate-800 hover:border-blue-500/50 hover:bg-slate-800 transition-colors group"
-                  >
-                    <ExternalLink className="w-3 h-3 text-slate-500 group-hover:text-blue-400" />
-                    <span className="text-xs text-slate-300 truncate">{source.title || source.uri}</span>
-                  </a>
-                ))}
-                {data.sources.length === 0 && (
-                  <span className="text-xs text-slate-600 italic">No specific source metadata returned.</span>
+            {/* Content Section */}
+            {loading && !data && (
+              <StreamingPreview partial={partial} onCancel={() => abortControllerRef.current?.abort()} />
+            )}
+
+            {data && !loading && (
+              <div className="flex-1 flex flex-col gap-6 animate-fade-in-up">
+            
+                {/* Company Info Card */}
+                <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-sm">
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                    <div>
+                      {activeAnalysisId && (
+                        <div className="mb-2">
+                          <AnalysisBreadcrumbs analyses={savedAnalyses} activeId={activeAnalysisId} onOpen={handleOpenSaved} />
+                        </div>
+                      )}
+                      <h2 className="text-3xl font-bold text-white mb-2">{data.companyName}</h2>
+                      <p className="text-slate-300 leading-relaxed max-w-4xl">{data.summary}</p>
+                    </div>
+                    <div className="flex flex-wrap items-start gap-2 md:justify-end">
+                       {cacheHit && cacheHit.recordId === activeAnalysisId && (
+                         <button
+                           onClick={() => runSearch(query, true)}
+                           title="Served from the response cache. Click to search again."
+                           className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-amber-300 text-xs rounded-full border border-amber-700/50 hover:bg-slate-700 transition-colors"
+                         >
+                           <DatabaseZap className="w-3 h-3" />
+                           Cached {formatAge(cacheHit.fetchedAt)}
+                         </button>
+                       )}
+                       <span className="px-3 py-1 bg-slate-800 text-slate-400 text-xs rounded-full border border-slate-700">
+                         Founding Date: {data.timeline.find(e => e.category === 'founding')?.dateStr || data.timeline.find(e => e.category === 'founding')?.year || 'N/A'}
+                       </span>
+                       <ImportButton label="Import" onImport={handleMergeImport} />
+                       <UpdateCheckMenu isChecking={isCheckingUpdates} lastVerified={lastChecked} onCheck={handleCheckUpdates} />
+                       <ExportMenu
+                         data={data}
+                         chartName={activeTab}
+                         getChartSvg={() => chartContainerRef.current?.querySelector<SVGSVGElement>('svg[data-chart]') || null}
+                       />
+                       <ShareMenu data={data} />
+                    </div>
+                  </div>
+                </div>
+
+                {refreshProposal && (
+                  <RefreshReview
+                    key={refreshProposal.checkedAt}
+                    proposal={refreshProposal}
+                    onApply={handleApplyRefresh}
+                    onDismiss={() => setRefreshProposal(null)}
+                  />
                 )}
-              </div>
-            </div>
 
-          </div>
+                {/* Pending chat update */}
+                {activePending && (
+                  <UpdateReview
+                    diff={diffCompanyData(data, replayChatTools(data, activePending.ops).data)}
+                    queuedCount={pendingUpdates.length - 1}
+                    onAccept={() => handleAcceptUpdate(activePending)}
+                    onReject={() => handleRejectUpdate(activePending)}
+                  />
+                )}
+
+                {/* View Toggle */}
+                <div className="flex items-center gap-4 border-b border-slate-800 pb-1">
+                  <button
+                    onClick={() => setActiveTab('timeline')}
+                    className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                      activeTab === 'timeline'
+                        ? 'border-blue-500 text-blue-400'
+                        : 'border-transparent text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    <History className="w-4 h-4" />
+                    History Timeline
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('structure')}
+                    className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                      activeTab === 'structure'
+                        ? 'border-blue-500 text-blue-400'
+                        : 'border-transparent text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    <GitBranch className="w-4 h-4" />
+                    Org Structure
+                  </button>
+                  <div className="ml-auto flex items-center gap-2">
+                    {activeTab === 'timeline' && (
+                      <button
+                        onClick={() => setEditingEvent({})}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors"
+                      >
+                        <Plus className="w-3.5 h-3.5" /> Add event
+                      </button>
+                    )}
+                    <VersionPanel
+                      history={history}
+                      selectedVersionId={selectedVersionId}
+                      onSelectVersion={setSelectedVersionId}
+                      onUndo={() => setHistory((prev) => prev && undo(prev))}
+                      onRedo={() => setHistory((prev) => prev && redo(prev))}
+                    />
+                  </div>
+                </div>
+
+                {/* Visualization Area */}
+                <div ref={chartContainerRef} className="flex-1 min-h-[500px] bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden relative">
+                  {activeTab === 'timeline' ? (
+                    <HistoryChart
+                      data={data.timeline}
+                      sources={data.sources}
+                      filter={timelineFilter}
+                      onFilterChange={setTimelineFilter}
+                      selectedEvent={detailEvent}
+                      onEventClick={setSelectedEvent}
+                    />
+                  ) : (
+                    <OrgChart
+                      key={orgChartKey}
+                      data={data.structure}
+                      sources={data.sources}
+                      onNodeClick={handleNodeClick}
+                      onReparent={handleReparent}
+                      initialView={orgView}
+                      onViewChange={setOrgView}
+                    />
+                  )}
+                  {drillingNode && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1.5 bg-slate-800/95 border border-slate-700 rounded-full text-xs text-slate-200 shadow-lg">
+                      <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-400" />
+                      Analyzing {drillingNode}...
+                    </div>
+                  )}
+                  {activeTab === 'timeline' && detailEvent && (
+                    <EventDetailPanel
+                      event={detailEvent}
+                      sources={data.sources}
+                      onClose={() => setSelectedEvent(null)}
+                      onEdit={() => setEditingEvent({ event: detailEvent })}
+                      onAskAssistant={(draft) => {
+                        setChatDraft(draft);
+                        setIsChatOpen(true);
+                      }}
+                    />
+                  )}
+                </div>
+
+                {/* Sources */}
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+                  <div className="flex items-center gap-2 mb-3 text-slate-400">
+                    <Info className="w-4 h-4" />
+                    <h3 className="text-sm font-semibold uppercase tracking-wider">Sources & References</h3>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {data.sources.map((source, idx) => (
+                      <a 
+                        key={idx} 
+                        href={source.uri} 
+                        target="_blank" 
+                        rel="noreferrer"
+                        className="flex items-center gap-2 p-3 rounded-lg bg-slate-950 border border-slate-800 hover:border-blue-500/50 hover:bg-slate-800 transition-colors group"
+                      >
+                        <span className="text-[10px] font-mono text-slate-500">[{idx + 1}]</span>
+                        <span className="text-xs text-slate-300 truncate flex-1">{source.title || source.uri}</span>
+                        <ExternalLink className="w-3 h-3 text-slate-500 group-hover:text-blue-400 flex-shrink-0" />
+                      </a>
+                    ))}
+                    {data.sources.length === 0 && (
+                      <span className="text-xs text-slate-600 italic">No specific source metadata returned.</span>
+                    )}
+                  </div>
+                </div>
+
+              </div>
+            )}
+          </>
         )}
       </main>
 
+      {/* Manual editors */}
+      {data && editingEvent && (
+        <EventEditor
+          event={editingEvent.event}
+          onSave={(event) => handleSaveEvent(editingEvent.event, event)}
+          onDelete={editingEvent.event ? () => handleDeleteEvent(editingEvent.event!) : undefined}
+          onClose={() => setEditingEvent(null)}
+        />
+      )}
+      {data && editingNodePath && getNodeAtPath(data.structure, editingNodePath) && (
+        <NodeEditor
+          node={getNodeAtPath(data.structure, editingNodePath)!}
+          isRoot={editingNodePath.length === 0}
+          onSave={(node) => handleSaveNode(editingNodePath, node)}
+          onAddChild={(child) => handleAddChildNode(editingNodePath, child)}
+          onDelete={() => handleDeleteNode(editingNodePath)}
+          onDrillDown={() => handleDrillDown(editingNodePath)}
+          onOpenAnalysis={(id) => {
+            setEditingNodePath(null);
+            handleOpenAnalysisById(id);
+          }}
+          isDrilling={!!drillingNode}
+          onClose={() => setEditingNodePath(null)}
+        />
+      )}
+
+      {/* Saved Analyses Sidebar */}
+      <RecentAnalyses
+        analyses={savedAnalyses}
+        activeId={activeAnalysisId}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpen={handleOpenSaved}
+        onRename={handleRenameSaved}
+        onDelete={handleDeleteSaved}
+      />
+
+      {isUsageOpen && (
+        <UsagePanel
+          records={usageRecords}
+          budgets={usageBudgets}
+          onBudgetsChange={handleBudgetsChange}
+          onClear={clearUsage}
+          onNewSession={startUsageSession}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
       {/* Chat Sidebar Overlay */}
-      {data && (
+      {mode === 'compare' && comparedCompanies.length > 1 && (
+        <ChatWindow
+          key={`compare:${comparedCompanies.map((c) => c.id).join('|')}`}
+          companyData={comparedCompanies.map((c) => c.data)}
+          isOpen={isChatOpen}
+          onClose={() => setIsChatOpen(false)}
+        />
+      )}
+      {mode === 'single' && data && (
         <ChatWindow 
+          key={activeAnalysisId || 'unsaved'}
           companyData={data} 
+          conversationsFor={activeRecordRef.current?.companyName || data.companyName}
           onUpdateData={handleDataUpdate}
+          getUpdateStatus={getUpdateStatus}
+          onViewUpdate={setSelectedVersionId}
+          draftMessage={chatDraft}
+          onDraftConsumed={() => setChatDraft(null)}
           isOpen={isChatOpen} 
           onClose={() => setIsChatOpen(false)} 
         />
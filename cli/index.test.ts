@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { spawn } from 'node:child_process';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { build } from 'esbuild';
+import { parseAnalysis } from '../services/geminiService';
+import { getMockFixture } from '../services/providers/mockFixtures';
+import { toJson } from '../services/exporters';
+
+// Runs the bundled CLI like `npm run cli`, against the mock provider
+const CLI = resolve('dist/cli-test.mjs');
+
+beforeAll(async () => {
+  await build({
+    entryPoints: ['cli/index.ts'],
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    packages: 'external',
+    logLevel: 'warning',
+    outfile: CLI
+  });
+});
+
+// Sends each line once the previous turn has finished, then closes the input
+const runChat = (file: string, lines: string[], cwd: string) => new Promise<string>((done, fail) => {
+  const child = spawn(process.execPath, [CLI, 'chat', file], { cwd, env: { ...process.env, LLM_PROVIDER: 'mock' } });
+  let stderr = '';
+  let stdout = '';
+  const next = () => {
+    const line = lines.shift();
+    if (line === undefined) child.stdin.end();
+    else child.stdin.write(`${line}\n`);
+  };
+  child.stderr.on('data', (chunk) => {
+    stderr += chunk;
+  });
+  child.stdout.on('data', (chunk) => {
+    stdout += chunk;
+    if (stdout.endsWith('\n> ')) next();
+  });
+  child.on('error', fail);
+  child.on('close', (code) => (code === 0 ? done(stderr) : fail(new Error(`cli exited with ${code}: ${stderr}`))));
+});
+
+describe('cli chat', () => {
+  it('writes the edits the assistant makes back to the file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cli-chat-'));
+    const file = join(dir, 'nintendo.json');
+    const data = { ...parseAnalysis(getMockFixture('Nintendo').analysis.text, 'Nintendo'), sources: [] };
+    writeFileSync(file, toJson(data));
+
+    const stderr = await runChat(file, ['please add the missing event'], dir);
+    expect(stderr).toContain(`saved to ${file}`);
+
+    const saved = JSON.parse(readFileSync(file, 'utf8'));
+    expect(saved.timeline).toHaveLength(data.timeline.length + 1);
+    expect(saved.timeline.map((e: { title: string }) => e.title)).toContain('Nintendo Switch 2 launches');
+    expect(Object.keys(saved).filter((key) => /^\d+$/.test(key))).toEqual([]);
+  }, 30_000);
+});
@@ -0,0 +1,283 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+import { CompanyData } from "../types";
+import { fetchCompanyData, AnalysisInterruptedError, CompanyChatSession } from "../services/geminiService";
+import { describeError, errorField } from "../services/llmErrors";
+import { setServiceLogging } from "../services/logger";
+import { setAnalysisCacheTtl } from "../services/analysisCache";
+import { getProvider } from "../services/providers";
+import { BatchRun, BatchRow, parseBatchNames, toBatchJson, toBatchCsv } from "../services/batchRunner";
+import { parseImportFile, importedToCompanyData } from "../services/importers";
+import { toJson, toMarkdown } from "../services/exporters";
+import { diffCompanyData, summarizeDiff } from "../services/versionHistory";
+import { replayChatTools } from "../services/chatTools";
+import { listUsage, totalUsage } from "../services/usageTracker";
+
+// Headless entry point over the same services as the app. Results go to stdout (or --out),
+// progress and errors to stderr, so the output can be piped.
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // The analysis or file could not be produced
+const EXIT_USAGE = 2;
+const EXIT_PARTIAL = 3; // Output was written, but some of it is missing (failed batch rows, interrupted analysis)
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage:
+  cli analyze <company> [--format json|md] [--out <file>]
+  cli chat <saved-file.json> [--no-save]
+  cli batch <names.txt|names.csv> [--format json|csv] [--concurrency <n>] [--out <file>]
+
+Add --verbose to any command to see the services' own logging.
+
+Environment: GEMINI_API_KEY, LLM_PROVIDER (gemini|mock|proxy), LLM_PROXY_URL (with proxy),
+LLM_MODEL, ANALYSIS_CACHE_TTL_MINUTES.
+Values in .env.local are used when not set in the environment.
+
+Exit codes: 0 success, 1 failure, 2 usage error, 3 partial result, 130 interrupted.`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const failureMessage = (error: unknown) => {
+  const { kind, title, message } = describeError(error);
+  return kind === 'unknown' ? message : `${title}: ${message}`;
+};
+
+const writeOutput = (text: string, out?: string) => {
+  if (out) {
+    writeFileSync(out, text);
+    log(`Wrote ${out}`);
+  } else {
+    process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+  }
+};
+
+const readInput = (file: string) => {
+  if (!existsSync(file)) throw new Error(`File not found: ${file}`);
+  return readFileSync(file, 'utf8');
+};
+
+const pickFormat = <T extends string>(value: string | undefined, allowed: readonly T[]): T => {
+  const format = (value || allowed[0]) as T;
+  if (!allowed.includes(format)) throw new UsageError(`--format must be one of ${allowed.join(', ')}`);
+  return format;
+};
+
+// Ctrl-C cancels the running request instead of killing the process mid-write
+const interruptSignal = () => {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  return controller.signal;
+};
+
+// --- analyze ---
+
+const analyze = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { format: { type: 'string', short: 'f' }, out: { type: 'string', short: 'o' } }
+  });
+  const companyName = positionals.join(' ').trim();
+  if (!companyName) throw new UsageError('analyze needs a company name');
+  const format = pickFormat(values.format, ['json', 'md'] as const);
+  const render = (data: CompanyData) => (format === 'md' ? toMarkdown(data) : toJson(data));
+
+  log(`Analyzing ${companyName} with ${getProvider().displayName}...`);
+  let events = 0;
+  try {
+    const data = await fetchCompanyData(companyName, {
+      signal: interruptSignal(),
+      onProgress: (partial) => {
+        if (partial.timeline.length !== events && process.stderr.isTTY) {
+          events = partial.timeline.length;
+          process.stderr.write(`\r${events} events so far`);
+        }
+      }
+    });
+    if (process.stderr.isTTY && events) process.stderr.write('\n');
+    writeOutput(render(data), values.out);
+    return EXIT_OK;
+  } catch (error) {
+    if (process.stderr.isTTY && events) process.stderr.write('\n');
+    if (error instanceof AnalysisInterruptedError) {
+      log(error.message);
+      if (!error.partial) return error.cancelled ? EXIT_INTERRUPTED : EXIT_FAILED;
+      writeOutput(render(error.partial), values.out);
+      return error.cancelled ? EXIT_INTERRUPTED : EXIT_PARTIAL;
+    }
+    log(failureMessage(error));
+    return EXIT_FAILED;
+  }
+};
+
+// --- chat ---
+
+// Proposed edits are applied straight to the file; the app's review step is the user's
+// next message here ("undo that" works, since the model sees the new state)
+const chat = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { 'no-save': { type: 'boolean' } }
+  });
+  const file = positionals[0];
+  if (!file) throw new UsageError('chat needs a saved analysis (a JSON file written by "analyze" or the app\'s export)');
+  let data = importedToCompanyData(parseImportFile(readInput(file), file), file);
+  const save = !values['no-save'];
+
+  // Replayed on the current data, like an accepted update in the app
+  const session = new CompanyChatSession(data, (ops) => {
+    const { data: next, skipped } = replayChatTools(data, ops);
+    skipped.forEach((reason) => log(`\n[Skipped: ${reason}]`));
+    log(`\n[${summarizeDiff(diffCompanyData(data, next))}${save ? `, saved to ${file}` : ''}]`);
+    data = next;
+    session.syncData(data);
+    if (save) writeFileSync(file, toJson(data));
+  });
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const leave = new AbortController();
+  rl.on('SIGINT', () => leave.abort());
+  rl.on('close', () => leave.abort());
+  log(`Chatting about ${data.companyName} with ${getProvider().displayName}. Type /exit or press Ctrl-D to leave.`);
+  try {
+    while (true) {
+      let message: string;
+      try {
+        message = (await rl.question('\n> ', { signal: leave.signal })).trim();
+      } catch {
+        return EXIT_OK; // Ctrl-C or end of input
+      }
+      if (message === '/exit' || message === '/quit') return EXIT_OK;
+      if (!message) continue;
+
+      for await (const event of session.streamMessage(message)) {
+        if (event.type === 'text') process.stdout.write(event.delta);
+        else if (event.type === 'searching') log(`[Searching: ${event.queries.join(', ')}]`);
+        else if (event.type === 'updating') log(`[${event.description}]`);
+        else if (event.type === 'done') {
+          if (event.reply.failed) log(`\n${event.reply.error ? failureMessage(event.reply.error) : event.reply.text}`);
+          else if (event.reply.sources.length > 0) log(`\nSources: ${event.reply.sources.map((s) => s.uri).join(' ')}`);
+          process.stdout.write('\n');
+        }
+      }
+    }
+  } finally {
+    rl.close();
+  }
+};
+
+// --- batch ---
+
+const STATUS_LABELS: Record<BatchRow['status'], string> = {
+  queued: 'queued',
+  running: 'running',
+  retrying: 'retrying',
+  done: 'done',
+  failed: 'FAILED',
+  cancelled: 'cancelled'
+};
+
+const batch = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      concurrency: { type: 'string', short: 'c' }
+    }
+  });
+  const file = positionals[0];
+  if (!file) throw new UsageError('batch needs a file of company names, one per line (or a CSV with a "company" column)');
+  const format = pickFormat(values.format, ['json', 'csv'] as const);
+  const concurrency = values.concurrency === undefined ? undefined : Number(values.concurrency);
+  if (concurrency !== undefined && !(concurrency >= 1)) throw new UsageError('--concurrency must be a number of at least 1');
+  const names = parseBatchNames(readInput(file), file);
+  if (names.length === 0) throw new UsageError(`No company names in ${file}`);
+
+  // One line per status change, e.g. "[3/20] Nintendo: done"
+  const reported = new Map<string, string>();
+  const run = new BatchRun(names, {
+    concurrency,
+    onChange: (rows) => rows.forEach((row) => {
+      if (reported.get(row.id) === row.status || row.status === 'queued') return;
+      reported.set(row.id, row.status);
+      const finished = rows.filter((r) => r.status === 'done' || r.status === 'failed' || r.status === 'cancelled').length;
+      const detail = row.error && (row.status === 'failed' || row.status === 'retrying') ? ` (${row.error.title})` : '';
+      log(`[${finished}/${rows.length}] ${row.companyName}: ${STATUS_LABELS[row.status]}${detail}`);
+    })
+  });
+  log(`Analyzing ${names.length} companies with ${getProvider().displayName}...`);
+  const signal = interruptSignal();
+  signal.addEventListener('abort', () => run.cancel(), { once: true });
+
+  const rows = await run.start();
+  writeOutput(format === 'csv' ? toBatchCsv(rows) : toBatchJson(rows), values.out);
+  const done = rows.filter((row) => row.status === 'done').length;
+  log(`${done} of ${rows.length} analyzed.`);
+  if (signal.aborted) return EXIT_INTERRUPTED;
+  if (done === rows.length) return EXIT_OK;
+  return done === 0 ? EXIT_FAILED : EXIT_PARTIAL;
+};
+
+// --- main ---
+
+// Printed after every command so scripted runs can be costed; the app has the full breakdown
+const logUsage = () => {
+  const records = listUsage();
+  if (records.length === 0) return;
+  const total = totalUsage(records);
+  const cost = records.every((r) => r.simulated) ? 'simulated' : `est. $${total.estimatedCost.toFixed(4)}`;
+  log(`Usage: ${total.calls} model calls, ${total.totalTokens.toLocaleString()} tokens, ${total.searchQueries} searches (${cost})`);
+};
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = { analyze, chat, batch };
+
+const main = async (argv: string[]): Promise<number> => {
+  // The key stays in the environment; .env.local is a convenience for local runs
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  const ttl = Number(process.env.ANALYSIS_CACHE_TTL_MINUTES);
+  if (Number.isFinite(ttl) && process.env.ANALYSIS_CACHE_TTL_MINUTES) setAnalysisCacheTtl(ttl);
+
+  // The services log for the browser console; here every failure is reported once on stderr
+  const verbose = argv.includes('--verbose');
+  setServiceLogging(verbose);
+  const [command, ...rest] = argv.filter((arg) => arg !== '--verbose');
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    log(USAGE);
+    return command ? EXIT_OK : EXIT_USAGE;
+  }
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(`Unknown command "${command}"`);
+  // Through a proxy the server picks the model; learn it before it is logged or priced
+  await getProvider().resolveModel?.();
+  try {
+    return await run(rest);
+  } finally {
+    logUsage();
+  }
+};
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    if (error instanceof UsageError || String(errorField(error, 'code') ?? '').startsWith('ERR_PARSE_ARGS')) {
+      log(`${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      log(failureMessage(error));
+      process.exitCode = EXIT_FAILED;
+    }
+  }
+);
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ChevronRight, CornerLeftUp } from 'lucide-react';
+import { SavedAnalysis } from '../types';
+import { analysisLineage } from '../services/drillDown';
+
+interface AnalysisBreadcrumbsProps {
+  analyses: SavedAnalysis[];
+  activeId: string;
+  onOpen: (record: SavedAnalysis) => void;
+}
+
+// Trail of drill-downs that led to the active analysis; hidden for top-level analyses
+const AnalysisBreadcrumbs: React.FC<AnalysisBreadcrumbsProps> = ({ analyses, activeId, onOpen }) => {
+  const lineage = analysisLineage(analyses, activeId);
+  if (lineage.length < 2) return null;
+
+  return (
+    <nav className="flex flex-wrap items-center gap-1 text-xs text-slate-400">
+      <CornerLeftUp className="w-3.5 h-3.5 mr-1 text-slate-500" />
+      {lineage.map((record, i) => {
+        const isActive = i === lineage.length - 1;
+        return (
+          <React.Fragment key={record.id}>
+            {i > 0 && <ChevronRight className="w-3 h-3 text-slate-600" />}
+            {isActive ? (
+              <span className="text-slate-200 font-medium">{record.parent?.nodeName || record.title}</span>
+            ) : (
+              <button onClick={() => onOpen(record)} className="hover:text-blue-300 transition-colors">
+                {record.title}
+              </button>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </nav>
+  );
+};
+
+export default AnalysisBreadcrumbs;
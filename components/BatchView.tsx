@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Play, Square, RotateCcw, FolderOpen, Loader2, Clock, CheckCircle2, XCircle, Ban, FileJson, Sheet, AlertCircle } from 'lucide-react';
+import { BatchRow, BatchRowStatus, parseBatchNames, toBatchJson, toBatchCsv } from '../services/batchRunner';
+import { downloadText } from '../services/svgExport';
+import ImportButton from './ImportButton';
+
+interface BatchViewProps {
+  rows: BatchRow[];
+  onStart: (companyNames: string[], concurrency: number) => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onOpen: (row: BatchRow) => void;
+}
+
+const MAX_BATCH_SIZE = 100;
+
+const STATUS_STYLES: Record<BatchRowStatus, { label: string; icon: React.ElementType; className: string }> = {
+  queued: { label: 'Queued', icon: Clock, className: 'text-slate-500' },
+  running: { label: 'Running', icon: Loader2, className: 'text-blue-400' },
+  retrying: { label: 'Retrying', icon: RotateCcw, className: 'text-amber-300' },
+  done: { label: 'Done', icon: CheckCircle2, className: 'text-emerald-400' },
+  failed: { label: 'Failed', icon: XCircle, className: 'text-red-400' },
+  cancelled: { label: 'Cancelled', icon: Ban, className: 'text-slate-500' }
+};
+
+const isActive = (row: BatchRow) => row.status === 'queued' || row.status === 'running' || row.status === 'retrying';
+
+const describeRow = (row: BatchRow): string => {
+  if (row.status === 'retrying' && row.retryAt) {
+    return `Attempt ${row.attempts} failed (${row.error?.title}); retrying at ${new Date(row.retryAt).toLocaleTimeString()}`;
+  }
+  if (row.status === 'failed') return row.error ? `${row.error.title}: ${row.error.message}` : 'Failed';
+  if (row.status === 'done' && row.data) {
+    const notes = [`${row.data.timeline.length} events`, row.fromCache && 'from cache', row.attempts > 1 && `after ${row.attempts} attempts`];
+    return notes.filter(Boolean).join(', ');
+  }
+  if (row.status === 'running' && row.attempts > 1) return `Attempt ${row.attempts}`;
+  return '';
+};
+
+// Watchlist analysis: the runner lives in App so a batch keeps going while other modes are shown
+const BatchView: React.FC<BatchViewProps> = ({ rows, onStart, onCancel, onRetryFailed, onOpen }) => {
+  const [text, setText] = useState(() => rows.map((row) => row.companyName).join('\n'));
+  const [concurrency, setConcurrency] = useState(3);
+
+  const names = parseBatchNames(text);
+  const running = rows.some(isActive);
+  const counts: Partial<Record<BatchRowStatus, number>> = {};
+  rows.forEach((row) => {
+    counts[row.status] = (counts[row.status] || 0) + 1;
+  });
+  const finished = (counts.done || 0) + (counts.failed || 0) + (counts.cancelled || 0);
+  const retryable = (counts.failed || 0) + (counts.cancelled || 0);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const handleImport = (content: string, name: string) => {
+    // Shown one per line, so the list can be edited before running
+    setText(parseBatchNames(content, name).join('\n'));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (names.length > 0 && !running) onStart(names.slice(0, MAX_BATCH_SIZE), concurrency);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-3xl mx-auto bg-slate-900 border border-slate-800 rounded-2xl p-4">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          placeholder={"One company per line, e.g.\nNintendo\nAlphabet\nSpaceX"}
+          disabled={running}
+          className="w-full px-4 py-3 bg-slate-950 border border-slate-700 rounded-xl text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 text-sm font-mono resize-y"
+        />
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <ImportButton label="Upload list (CSV / TXT)" accept=".csv,.txt,text/csv,text/plain" onImport={handleImport} />
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            In parallel
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={running}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-slate-200"
+            >
+              {[1, 2, 3, 4, 5].map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <span className="text-xs text-slate-500">
+            {names.length} {names.length === 1 ? 'company' : 'companies'}
+            {names.length > MAX_BATCH_SIZE && ` (only the first ${MAX_BATCH_SIZE} run)`}
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            {running ? (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 font-medium rounded-xl transition-colors text-sm"
+              >
+                <Square className="w-4 h-4" /> Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={names.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white font-medium rounded-xl transition-colors text-sm"
+              >
+                <Play className="w-4 h-4" /> Run batch
+              </button>
+            )}
+          </div>
+        </div>
+      </form>
+
+      {rows.length > 0 && (
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden animate-fade-in-up">
+          <div className="flex flex-wrap items-center gap-3 px-5 py-3 border-b border-slate-800">
+            <h3 className="text-sm font-semibold uppercase tracking-wider text-slate-400">
+              {finished} / {rows.length} finished
+            </h3>
+            <span className="text-xs text-slate-500">
+              {counts.done || 0} done, {counts.failed || 0} failed
+              {(counts.retrying || 0) > 0 && `, ${counts.retrying} waiting to retry`}
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+              {!running && retryable > 0 && (
+                <button
+                  onClick={onRetryFailed}
+                  className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" /> Retry {retryable} failed
+                </button>
+              )}
+              <button
+                onClick={() => downloadText(toBatchJson(rows), `batch-${stamp}.json`, 'application/json')}
+                className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 transition-colors"
+              >
+                <FileJson className="w-3 h-3" /> JSON
+              </button>
+              <button
+                onClick={() => downloadText(toBatchCsv(rows), `batch-${stamp}.csv`, 'text/csv')}
+                className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 transition-colors"
+              >
+                <Sheet className="w-3 h-3" /> CSV
+              </button>
+            </div>
+          </div>
+          <ul className="divide-y divide-slate-800">
+            {rows.map((row) => {
+              const { label, icon: Icon, className } = STATUS_STYLES[row.status];
+              return (
+                <li key={row.id} className="flex items-center gap-3 px-5 py-2.5 text-sm">
+                  <Icon className={`w-4 h-4 flex-shrink-0 ${className} ${row.status === 'running' ? 'animate-spin' : ''}`} />
+                  <span className="w-48 truncate text-slate-200" title={row.companyName}>{row.data?.companyName || row.companyName}</span>
+                  <span className={`w-20 text-xs ${className}`}>{label}</span>
+                  <span className={`flex-1 text-xs truncate ${row.status === 'failed' ? 'text-red-300/80' : 'text-slate-500'}`} title={describeRow(row)}>
+                    {describeRow(row)}
+                  </span>
+                  {row.status === 'done' && row.data && (
+                    <button
+                      onClick={() => onOpen(row)}
+                      className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors"
+                    >
+                      <FolderOpen className="w-3.5 h-3.5" /> Open
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {rows.length === 0 && (
+        <div className="flex items-center gap-3 max-w-3xl mx-auto text-sm text-slate-500">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          Analyses run a few at a time and pause when the API reports a rate limit. Finished results can be opened and are saved like any other analysis.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchView;
@@ -1,47 +1,207 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Bot, User, Loader2, X, RotateCcw, Sparkles } from 'lucide-react';
-import { CompanyData, ChatMessage } from '../types';
-import { CompanyChatSession } from '../services/geminiService';
+import { Send, Bot, User, Loader2, X, RotateCcw, RefreshCw, Sparkles, GitCompare, Activity, ExternalLink, AlertTriangle, History, Trash2 } from 'lucide-react';
+import { CompanyData, ChatMessage, UpdateStatus, GroundingSource, ChatToolOp, Conversation } from '../types';
+import { CompanyChatSession, ChatEvent } from '../services/geminiService';
+import { describeError } from '../services/llmErrors';
+import { listConversations, saveConversation, deleteConversation, createConversationId } from '../services/conversationStore';
 
 interface ChatWindowProps {
-  companyData: CompanyData;
-  onUpdateData: (data: Partial<CompanyData>) => void;
+  companyData: CompanyData | CompanyData[]; // Several companies open a read-only comparison chat
+  onUpdateData?: (ops: ChatToolOp[]) => string; // Returns the proposed version id
+  getUpdateStatus?: (versionId: string) => UpdateStatus;
+  onViewUpdate?: (versionId: string) => void;
+  conversationsFor?: string; // Company whose conversations are kept and offered; comparison chats are not kept
+  draftMessage?: string | null; // Pre-fills the input, e.g. from the timeline detail panel
+  onDraftConsumed?: () => void;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const ChatWindow: React.FC<ChatWindowProps> = ({ companyData, onUpdateData, isOpen, onClose }) => {
+const UPDATE_STATUS_LABELS: Record<UpdateStatus, string> = {
+  pending: 'Update awaiting review',
+  applied: 'Update applied',
+  discarded: 'Update discarded'
+};
+
+const UpdateChip: React.FC<{ status: UpdateStatus; onView: () => void }> = ({ status, onView }) => (
+  <button
+    onClick={onView}
+    disabled={status !== 'applied'}
+    className={`mt-2 flex items-center gap-1.5 text-[11px] px-2 py-1 rounded-md border transition-colors ${
+      status === 'applied'
+        ? 'border-blue-500/40 text-blue-300 hover:bg-blue-500/10'
+        : status === 'pending'
+          ? 'border-amber-500/40 text-amber-300 cursor-default'
+          : 'border-slate-700 text-slate-500 cursor-default'
+    }`}
+  >
+    <GitCompare className="w-3 h-3" />
+    {UPDATE_STATUS_LABELS[status]}{status === 'applied' && ' · view changes'}
+  </button>
+);
+
+const describeActivity = (event: ChatEvent): string | null => {
+  switch (event.type) {
+    case 'searching':
+      return `Searching the web: ${event.queries.slice(0, 2).join(', ')}`;
+    case 'updating':
+      return event.description;
+    case 'update-proposed':
+      return 'Update sent for your review';
+    default:
+      return null;
+  }
+};
+
+const MessageSources: React.FC<{ sources: GroundingSource[] }> = ({ sources }) => (
+  <ol className="mt-2 pt-2 border-t border-blue-500/10 space-y-1">
+    {sources.map((source, idx) => (
+      <li key={source.uri}>
+        <a
+          href={source.uri}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-1.5 text-[11px] text-slate-400 hover:text-blue-300"
+        >
+          <span className="text-slate-500">[{idx + 1}]</span>
+          <span className="truncate">{source.title || source.uri}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      </li>
+    ))}
+  </ol>
+);
+
+// A failed reply explains what went wrong and remembers which message to resend
+const errorMessage = (error: unknown, retryOf: string): ChatMessage => {
+  const guidance = describeError(error);
+  return {
+    id: (Date.now() + 1).toString(),
+    role: 'model',
+    text: `${guidance.title}. ${guidance.message}`,
+    timestamp: new Date(),
+    error: { kind: guidance.kind, retryable: guidance.retryable },
+    retryOf
+  };
+};
+
+// Resending cannot help until the key or the request itself changes
+const canRetry = (msg: ChatMessage) =>
+  !!msg.retryOf && msg.error?.kind !== 'auth' && msg.error?.kind !== 'safety';
+
+const ChatWindow: React.FC<ChatWindowProps> = ({ companyData, onUpdateData, getUpdateStatus, onViewUpdate, conversationsFor, draftMessage, onDraftConsumed, isOpen, onClose }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>(() => (conversationsFor ? listConversations(conversationsFor) : []));
+  const [conversationId, setConversationId] = useState(createConversationId);
+  const [showConversations, setShowConversations] = useState(false);
+  const savedMessagesRef = useRef<ChatMessage[] | null>(null); // Last transcript stored, or loaded
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // The reply currently streaming in, with tool/search progress lines
+  const [draft, setDraft] = useState<{ text: string; activity: string[] } | null>(null);
   const chatSessionRef = useRef<CompanyChatSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const companyNames = Array.isArray(companyData) ? companyData.map((c) => c.companyName) : [companyData.companyName];
+  // The session keeps the handler it was created with
+  const onUpdateDataRef = useRef(onUpdateData);
+  onUpdateDataRef.current = onUpdateData;
+
+  // A fresh session, resuming `conversation` when given. Each new conversation gets its own id,
+  // so starting one never overwrites an earlier chat.
+  const startConversation = (conversation?: Conversation) => {
+    chatSessionRef.current = new CompanyChatSession(
+      companyData,
+      onUpdateData && ((ops) => onUpdateDataRef.current!(ops)),
+      { transcript: conversation?.messages }
+    );
+    setConversationId(conversation?.id || createConversationId());
+    savedMessagesRef.current = conversation?.messages || null;
+    setShowConversations(false);
+    setMessages(conversation?.messages || [{
+      id: 'init',
+      role: 'model',
+      text: companyNames.length > 1
+        ? `Hi! I'm comparing ${companyNames.join(', ')}. Ask me how their histories and structures relate.`
+        : `Hi! I've analyzed ${companyNames[0]}. Ask me anything about its history or structure. If you see something missing, just let me know and I can update the charts!`,
+      timestamp: new Date()
+    }]);
+  };
 
-  // Initialize chat session when company data changes significantly (e.g. new search)
-  // We use a ref to track the company name to avoid re-init on small updates
-  const currentCompanyRef = useRef<string>("");
+  // Opens on the company's most recent conversation
+  useEffect(() => {
+    startConversation(conversations[0]);
+  }, []);
 
+  // Keep the session aware of edits made outside the chat
   useEffect(() => {
-    if (companyData.companyName !== currentCompanyRef.current) {
-      currentCompanyRef.current = companyData.companyName;
-      setMessages([{
-        id: 'init',
-        role: 'model',
-        text: `Hi! I've analyzed ${companyData.companyName}. Ask me anything about its history or structure. If you see something missing, just let me know and I can update the charts!`,
-        timestamp: new Date()
-      }]);
-      
-      chatSessionRef.current = new CompanyChatSession(companyData, (updates) => {
-        onUpdateData(updates);
-        // We can add a system note or just let the model reply
-      });
-    }
-  }, [companyData.companyName, onUpdateData, companyData]);
+    if (!Array.isArray(companyData)) chatSessionRef.current?.syncData(companyData);
+  }, [companyData]);
+
+  // A conversation is stored once the user has said something in it
+  useEffect(() => {
+    if (!conversationsFor || messages === savedMessagesRef.current || !messages.some((m) => m.role === 'user')) return;
+    savedMessagesRef.current = messages;
+    saveConversation(conversationsFor, conversationId, messages);
+    setConversations(listConversations(conversationsFor));
+  }, [messages, conversationId, conversationsFor]);
+
+  useEffect(() => {
+    if (!draftMessage) return;
+    setInput(draftMessage);
+    onDraftConsumed?.();
+    // Wait for the new value to render, then put the caret after it
+    requestAnimationFrame(() => {
+      const el = inputRef.current;
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(el.value.length, el.value.length);
+      el.scrollLeft = el.scrollWidth;
+    });
+  }, [draftMessage, onDraftConsumed]);
 
   // Scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, draft]);
+
+  // Streams a reply to userMsg, which is already in the transcript
+  const runTurn = async (userMsg: ChatMessage) => {
+    if (!chatSessionRef.current) return;
+    setIsLoading(true);
+    setDraft({ text: '', activity: [] });
+
+    try {
+      for await (const event of chatSessionRef.current.streamMessage(userMsg.text)) {
+        if (event.type === 'done') {
+          const { reply } = event;
+          const versionId = reply.updateIds[reply.updateIds.length - 1];
+          const aiMsg: ChatMessage = reply.error ? { ...errorMessage(reply.error, userMsg.id), isUpdate: !!versionId, versionId } : {
+            id: (Date.now() + 1).toString(),
+            role: 'model',
+            text: reply.text,
+            timestamp: new Date(),
+            isUpdate: !!versionId,
+            versionId,
+            sources: reply.sources.length > 0 ? reply.sources : undefined
+          };
+          setMessages(prev => [...prev, aiMsg]);
+        } else if (event.type === 'text') {
+          setDraft(prev => prev && { ...prev, text: prev.text + event.delta });
+        } else {
+          const label = describeActivity(event);
+          if (label) setDraft(prev => prev && { ...prev, activity: [...prev.activity, label] });
+        }
+      }
+    } catch (err) {
+      console.error(err);
+      setMessages(prev => [...prev, errorMessage(err, userMsg.id)]);
+    } finally {
+      setDraft(null);
+      setIsLoading(false);
+    }
+  };
 
   const handleSend = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
@@ -56,29 +216,33 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ companyData, onUpdateData, isOp
 
     setMessages(prev => [...prev, userMsg]);
     setInput('');
-    setIsLoading(true);
+    await runTurn(userMsg);
+  };
 
-    try {
-      const responseText = await chatSessionRef.current.sendMessage(userMsg.text);
-      
-      const aiMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, aiMsg]);
-    } catch (err) {
-      console.error(err);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        role: 'model',
-        text: "Sorry, I had trouble connecting. Please try again.",
-        timestamp: new Date()
-      }]);
-    } finally {
-      setIsLoading(false);
-    }
+  const handleNewConversation = () => {
+    if (isLoading) return;
+    setInput('');
+    startConversation();
+  };
+
+  const handleOpenConversation = (conversation: Conversation) => {
+    if (isLoading) return;
+    startConversation(conversation);
+  };
+
+  const handleDeleteConversation = (conversation: Conversation) => {
+    if (isLoading) return;
+    deleteConversation(conversation.id);
+    setConversations(listConversations(conversationsFor!));
+    if (conversation.id === conversationId) startConversation();
+  };
+
+  // Drops the failed reply and asks again
+  const handleRetry = async (failed: ChatMessage) => {
+    const userMsg = messages.find((m) => m.id === failed.retryOf);
+    if (!userMsg || isLoading) return;
+    setMessages(prev => prev.filter((m) => m.id !== failed.id));
+    await runTurn(userMsg);
   };
 
   if (!isOpen) return null;
@@ -93,29 +257,94 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ companyData, onUpdateData, isOp
           </div>
           <h3 className="font-semibold text-slate-100">AI Assistant</h3>
         </div>
-        <button 
-          onClick={onClose}
-          className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
-        >
-          <X className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-1">
+          {conversationsFor && (
+            <button
+              onClick={() => setShowConversations((open) => !open)}
+              disabled={isLoading || conversations.length === 0}
+              title="Earlier conversations"
+              className={`p-2 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent ${
+                showConversations ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-white'
+              }`}
+            >
+              <History className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={handleNewConversation}
+            disabled={isLoading || messages.length <= 1}
+            title="New conversation"
+            className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button 
+            onClick={onClose}
+            className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
+      {/* Conversation picker */}
+      {showConversations && (
+        <ul className="max-h-64 overflow-y-auto border-b border-slate-800 bg-slate-950/60 py-1">
+          {conversations.map((conversation) => (
+            <li key={conversation.id} className="group flex items-center gap-2 px-4 hover:bg-slate-800/60">
+              <button
+                onClick={() => handleOpenConversation(conversation)}
+                className="flex-1 min-w-0 py-2 text-left"
+              >
+                <span className={`block truncate text-sm ${conversation.id === conversationId ? 'text-blue-300' : 'text-slate-200'}`}>
+                  {conversation.title}
+                </span>
+                <span className="block text-[11px] text-slate-500">
+                  {new Date(conversation.updatedAt).toLocaleString()} · {conversation.messages.filter((m) => m.role === 'user').length} questions
+                </span>
+              </button>
+              <button
+                onClick={() => handleDeleteConversation(conversation)}
+                title="Delete conversation"
+                className="p-1.5 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 hover:text-red-300 hover:bg-slate-800 transition-opacity"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((msg) => (
           <div key={msg.id} className={`flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
             <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
-              msg.role === 'user' ? 'bg-slate-700' : 'bg-blue-600'
+              msg.role === 'user' ? 'bg-slate-700' : msg.error ? 'bg-red-600' : 'bg-blue-600'
             }`}>
-              {msg.role === 'user' ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+              {msg.role === 'user' ? <User className="w-4 h-4" /> : msg.error ? <AlertTriangle className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
             </div>
             <div className={`max-w-[80%] p-3 rounded-2xl text-sm leading-relaxed ${
               msg.role === 'user' 
                 ? 'bg-slate-800 text-slate-100 rounded-tr-none' 
-                : 'bg-gradient-to-br from-blue-600/10 to-purple-600/10 border border-blue-500/20 text-slate-200 rounded-tl-none'
+                : msg.error
+                  ? 'bg-red-500/10 border border-red-500/30 text-red-200 rounded-tl-none'
+                  : 'bg-gradient-to-br from-blue-600/10 to-purple-600/10 border border-blue-500/20 text-slate-200 rounded-tl-none'
             }`}>
-              {msg.text}
+              <span className="whitespace-pre-wrap">{msg.text}</span>
+              {msg.error && canRetry(msg) && (
+                <button
+                  onClick={() => handleRetry(msg)}
+                  disabled={isLoading}
+                  className="mt-2 flex items-center gap-1.5 text-[11px] px-2 py-1 rounded-md border border-red-500/40 text-red-200 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+                >
+                  <RefreshCw className="w-3 h-3" /> Retry
+                </button>
+              )}
+              {msg.sources && <MessageSources sources={msg.sources} />}
+              {msg.isUpdate && msg.versionId && getUpdateStatus && onViewUpdate && (
+                <UpdateChip status={getUpdateStatus(msg.versionId)} onView={() => onViewUpdate(msg.versionId!)} />
+              )}
             </div>
           </div>
         ))}
@@ -124,8 +353,19 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ companyData, onUpdateData, isOp
             <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center flex-shrink-0 animate-pulse">
               <Bot className="w-4 h-4" />
             </div>
-            <div className="bg-slate-800/50 p-3 rounded-2xl rounded-tl-none">
-              <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+            <div className={`max-w-[80%] p-3 rounded-2xl rounded-tl-none text-sm leading-relaxed ${
+              draft?.text ? 'bg-gradient-to-br from-blue-600/10 to-purple-600/10 border border-blue-500/20 text-slate-200' : 'bg-slate-800/50'
+            }`}>
+              {draft?.activity.map((label, idx) => (
+                <div key={idx} className="flex items-center gap-1.5 text-[11px] text-slate-400 mb-1">
+                  <Activity className="w-3 h-3" /> {label}
+                </div>
+              ))}
+              {draft?.text ? (
+                <span className="whitespace-pre-wrap">{draft.text}</span>
+              ) : (
+                <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+              )}
             </div>
           </div>
         )}
@@ -136,10 +376,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ companyData, onUpdateData, isOp
       <div className="p-4 border-t border-slate-800 bg-slate-900">
         <form onSubmit={handleSend} className="relative">
           <input
+            ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask about the company or suggest changes..."
+            placeholder={companyNames.length > 1 ? "Ask about these companies..." : "Ask about the company or suggest changes..."}
             className="w-full bg-slate-800 text-slate-100 border border-slate-700 rounded-xl pl-4 pr-12 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 text-sm"
             disabled={isLoading}
           />
@@ -0,0 +1,102 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ExternalLink, CircleHelp } from 'lucide-react';
+import { Confidence, GroundingSource } from '../types';
+import { CONFIDENCE_COLORS, SOURCED_COLOR, UNSOURCED_COLOR } from './chartTheme';
+
+export interface CitationAnchor {
+  x: number; // Viewport coordinates of the hovered badge
+  y: number;
+  sourceUris: string[];
+  confidence?: Confidence;
+}
+
+const HIDE_DELAY_MS = 200;
+
+// The delay lets the pointer travel from a chart badge into the tooltip to click a link
+export const useCitationTooltip = () => {
+  const [anchor, setAnchor] = useState<CitationAnchor | null>(null);
+  const hideTimer = useRef<number>();
+
+  const cancelHide = useCallback(() => window.clearTimeout(hideTimer.current), []);
+  const show = useCallback((next: CitationAnchor) => {
+    window.clearTimeout(hideTimer.current);
+    setAnchor(next);
+  }, []);
+  const scheduleHide = useCallback(() => {
+    window.clearTimeout(hideTimer.current);
+    hideTimer.current = window.setTimeout(() => setAnchor(null), HIDE_DELAY_MS);
+  }, []);
+
+  useEffect(() => () => window.clearTimeout(hideTimer.current), []);
+
+  return { anchor, show, scheduleHide, cancelHide };
+};
+
+export const badgeColor = (item: { sourceUris?: string[]; confidence?: Confidence }) => {
+  if (!item.sourceUris || item.sourceUris.length === 0) return UNSOURCED_COLOR;
+  return item.confidence ? CONFIDENCE_COLORS[item.confidence] : SOURCED_COLOR;
+};
+
+// Numbered to match the Sources section; URIs missing from `sources` get a bullet
+export const CitedSourceList: React.FC<{ sourceUris: string[]; sources: GroundingSource[] }> = ({ sourceUris, sources }) => (
+  <ol className="space-y-1">
+    {sourceUris.map((uri) => {
+      const idx = sources.findIndex((s) => s.uri === uri);
+      const source = sources[idx];
+      return (
+        <li key={uri}>
+          <a
+            href={uri}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-2 text-slate-300 hover:text-blue-400"
+          >
+            <span className="text-slate-500 w-5 flex-shrink-0">{idx === -1 ? '•' : `[${idx + 1}]`}</span>
+            <span className="truncate flex-1">{source?.title || uri}</span>
+            <ExternalLink className="w-3 h-3 flex-shrink-0" />
+          </a>
+        </li>
+      );
+    })}
+  </ol>
+);
+
+interface CitationTooltipProps {
+  anchor: CitationAnchor | null;
+  sources: GroundingSource[];
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+const CitationTooltip: React.FC<CitationTooltipProps> = ({ anchor, sources, onMouseEnter, onMouseLeave }) => {
+  if (!anchor) return null;
+
+  return (
+    <div
+      className="fixed z-50 w-72 -translate-x-1/2 mt-2 p-3 bg-slate-950 border border-slate-700 rounded-lg shadow-2xl text-xs animate-fade-in"
+      style={{ left: anchor.x, top: anchor.y }}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+    >
+      {anchor.sourceUris.length === 0 ? (
+        <div className="flex items-start gap-2 text-red-300">
+          <CircleHelp className="w-4 h-4 flex-shrink-0" />
+          <span>No web source backs this fact. Verify it before citing.</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-2 text-slate-400">
+            <span className="font-semibold uppercase tracking-wider text-[10px]">Sources</span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: badgeColor(anchor) }} />
+              {anchor.confidence ? `${anchor.confidence} confidence` : 'unscored'}
+            </span>
+          </div>
+          <CitedSourceList sourceUris={anchor.sourceUris} sources={sources} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CitationTooltip;
@@ -0,0 +1,153 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { Plus, X, Loader2, AlertCircle, Columns2 } from 'lucide-react';
+import { OrgNode } from '../types';
+import { fetchComparison, findCrossReferences, normalizeEntityName, ComparedCompany, MAX_COMPARED_COMPANIES } from '../services/comparison';
+import HistoryChart, { TimelineSeries } from './HistoryChart';
+import OrgChart from './OrgChart';
+import { HIGHLIGHT_COLOR, seriesColor } from './chartTheme';
+
+interface ComparisonViewProps {
+  companies: ComparedCompany[];
+  onCompaniesChange: (companies: ComparedCompany[]) => void;
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ companies, onCompaniesChange }) => {
+  const [names, setNames] = useState<string[]>(
+    companies.length > 0 ? companies.map((c) => c.data.companyName) : ['', '']
+  );
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<{ query: string; error: string }[]>([]);
+
+  const filledNames = names.filter((n) => n.trim());
+
+  const handleCompare = useCallback(async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (filledNames.length < 2) return;
+
+    setLoading(true);
+    setErrors([]);
+    try {
+      const results = await fetchComparison(filledNames);
+      onCompaniesChange(results.filter((r) => r.company).map((r) => r.company!));
+      setErrors(results.filter((r) => r.error).map((r) => ({ query: r.query, error: r.error! })));
+    } finally {
+      setLoading(false);
+    }
+  }, [filledNames, onCompaniesChange]);
+
+  const crossReferences = useMemo(() => findCrossReferences(companies), [companies]);
+
+  // Stable per-company predicates so OrgChart only redraws when the set changes
+  const highlighters = useMemo(() => {
+    const map = new Map<string, (node: OrgNode) => boolean>();
+    companies.forEach((company) => {
+      const shared = crossReferences.get(company.id) || new Set<string>();
+      map.set(company.id, (node: OrgNode) => shared.has(normalizeEntityName(node.name)));
+    });
+    return map;
+  }, [companies, crossReferences]);
+
+  const series = useMemo<TimelineSeries[]>(
+    () => companies.map((company) => ({ id: company.id, label: company.data.companyName, events: company.data.timeline })),
+    [companies]
+  );
+
+  const updateName = (idx: number, value: string) => {
+    setNames((prev) => prev.map((n, i) => (i === idx ? value : n)));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-6">
+      <form onSubmit={handleCompare} className="w-full max-w-3xl mx-auto bg-slate-900 border border-slate-800 rounded-2xl p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {names.map((name, idx) => (
+            <div key={idx} className="relative">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => updateName(idx, e.target.value)}
+                placeholder={`Company ${idx + 1}`}
+                disabled={loading}
+                className="w-full pl-4 pr-10 py-3 bg-slate-950 border border-slate-700 rounded-xl text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 text-sm"
+              />
+              {names.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => setNames((prev) => prev.filter((_, i) => i !== idx))}
+                  className="absolute right-2 top-2.5 p-1 rounded text-slate-500 hover:text-white"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-3">
+          <button
+            type="button"
+            onClick={() => setNames((prev) => [...prev, ''])}
+            disabled={names.length >= MAX_COMPARED_COMPANIES || loading}
+            className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400"
+          >
+            <Plus className="w-4 h-4" /> Add company
+          </button>
+          <button
+            type="submit"
+            disabled={loading || filledNames.length < 2}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white font-medium rounded-xl transition-colors text-sm"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Columns2 className="w-4 h-4" />}
+            Compare
+          </button>
+        </div>
+      </form>
+
+      {errors.map(({ query, error }) => (
+        <div key={query} className="p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-200 flex items-center gap-3 animate-fade-in">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p><span className="font-semibold">{query}:</span> {error}</p>
+        </div>
+      ))}
+
+      {loading && (
+        <div className="flex-1 flex flex-col items-center justify-center space-y-4 animate-pulse">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+          <p className="text-slate-400">Analyzing {filledNames.length} companies in parallel...</p>
+        </div>
+      )}
+
+      {!loading && companies.length > 0 && (
+        <div className="flex flex-col gap-6 animate-fade-in-up">
+          <div className="bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden">
+            <h3 className="px-5 pt-4 text-sm font-semibold uppercase tracking-wider text-slate-400">Merged Timeline</h3>
+            <div className="h-[600px]">
+              <HistoryChart series={series} />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-3 text-xs text-slate-500">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: HIGHLIGHT_COLOR }} />
+              Highlighted entities also appear in another compared company's structure
+            </div>
+            <div className={`grid grid-cols-1 gap-4 ${companies.length > 1 ? 'lg:grid-cols-2' : ''}`}>
+              {companies.map((company, idx) => (
+                <div key={company.id} className="bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden">
+                  <h3 className="flex items-center gap-2 px-5 py-3 text-sm font-semibold text-slate-200 border-b border-slate-800">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: seriesColor(idx) }} />
+                    {company.data.companyName}
+                  </h3>
+                  <div className="h-[420px]">
+                    <OrgChart data={company.data.structure} isHighlighted={highlighters.get(company.id)} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { X, Pencil, MessageSquareText, CircleHelp } from 'lucide-react';
+import { TimelineEvent, GroundingSource } from '../types';
+import { CATEGORY_COLORS } from './chartTheme';
+import { CitedSourceList, badgeColor } from './CitationTooltip';
+import { isUnsourced } from '../services/sourceAttribution';
+
+interface EventDetailPanelProps {
+  event: TimelineEvent;
+  sources: GroundingSource[];
+  onClose: () => void;
+  onEdit: () => void;
+  onAskAssistant: (draft: string) => void;
+}
+
+// One line, since the chat input is single-line; the user types their question after it
+export const buildEventQuestion = (event: TimelineEvent) =>
+  `About the ${event.category} event "${event.title}" (${event.dateStr || event.year}): ${event.description} — `;
+
+const EventDetailPanel: React.FC<EventDetailPanelProps> = ({ event, sources, onClose, onEdit, onAskAssistant }) => (
+  <div className="absolute inset-y-0 right-0 w-full sm:w-96 bg-slate-900 border-l border-slate-800 shadow-2xl z-20 flex flex-col animate-fade-in">
+    <div className="h-14 border-b border-slate-800 flex items-center justify-between px-4">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CATEGORY_COLORS[event.category] }} />
+        <span className="uppercase tracking-wider text-slate-400">{event.category}</span>
+        <span className="text-slate-600">•</span>
+        <span className="text-slate-300">{event.dateStr || event.year}</span>
+      </div>
+      <button
+        onClick={onClose}
+        className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+      >
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-5 space-y-5">
+      <h3 className="text-lg font-semibold text-slate-100 leading-snug">{event.title}</h3>
+      <p className="text-sm text-slate-300 leading-relaxed whitespace-pre-line">
+        {event.description || <span className="italic text-slate-500">No description.</span>}
+      </p>
+
+      <div>
+        <div className="flex items-center justify-between mb-2 text-xs text-slate-400">
+          <span className="font-semibold uppercase tracking-wider">Sources</span>
+          {!isUnsourced(event) && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: badgeColor(event) }} />
+              {event.confidence ? `${event.confidence} confidence` : 'unscored'}
+            </span>
+          )}
+        </div>
+        {isUnsourced(event) ? (
+          <div className="flex items-start gap-2 text-xs text-red-300">
+            <CircleHelp className="w-4 h-4 flex-shrink-0" />
+            <span>No web source backs this event. Verify it before citing.</span>
+          </div>
+        ) : (
+          <div className="text-xs">
+            <CitedSourceList sourceUris={event.sourceUris!} sources={sources} />
+          </div>
+        )}
+        {event.lastVerified && (
+          <p className="mt-2 text-[11px] text-slate-500">Last verified {new Date(event.lastVerified).toLocaleDateString()}</p>
+        )}
+      </div>
+    </div>
+
+    <div className="p-4 border-t border-slate-800 flex items-center gap-2">
+      <button
+        onClick={() => onAskAssistant(buildEventQuestion(event))}
+        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+      >
+        <MessageSquareText className="w-4 h-4" />
+        Ask the assistant about this event
+      </button>
+      <button
+        onClick={onEdit}
+        title="Edit event"
+        className="p-2 rounded-lg text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors"
+      >
+        <Pencil className="w-4 h-4" />
+      </button>
+    </div>
+  </div>
+);
+
+export default EventDetailPanel;
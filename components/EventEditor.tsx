@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { TimelineEvent } from '../types';
+import { TIMELINE_CATEGORIES } from '../services/companyDataValidator';
+import { createEntityId } from '../services/entityIds';
+import Modal, { inputClassName, labelClassName } from './Modal';
+
+interface EventEditorProps {
+  event?: TimelineEvent; // Omitted when adding a new event
+  onSave: (event: TimelineEvent) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const EventEditor: React.FC<EventEditorProps> = ({ event, onSave, onDelete, onClose }) => {
+  const [year, setYear] = useState(event ? String(event.year) : '');
+  const [dateStr, setDateStr] = useState(event?.dateStr || '');
+  const [title, setTitle] = useState(event?.title || '');
+  const [description, setDescription] = useState(event?.description || '');
+  const [category, setCategory] = useState<TimelineEvent['category']>(event?.category || 'general');
+
+  const parsedYear = parseInt(year, 10);
+  const isValid = Number.isFinite(parsedYear) && title.trim() !== '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    const next: TimelineEvent = {
+      ...event,
+      id: event?.id || createEntityId('evt'),
+      year: parsedYear,
+      title: title.trim(),
+      description: description.trim(),
+      category
+    };
+    if (dateStr.trim()) next.dateStr = dateStr.trim();
+    else delete next.dateStr;
+    onSave(next);
+  };
+
+  return (
+    <Modal title={event ? 'Edit event' : 'Add event'} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className={labelClassName}>Year</label>
+            <input type="number" value={year} onChange={(e) => setYear(e.target.value)} className={inputClassName} autoFocus />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClassName}>Date (optional)</label>
+            <input value={dateStr} onChange={(e) => setDateStr(e.target.value)} placeholder="e.g. Oct 2024" className={inputClassName} />
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Title</label>
+          <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>Description</label>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} className={inputClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>Category</label>
+          <select value={category} onChange={(e) => setCategory(e.target.value as TimelineEvent['category'])} className={inputClassName}>
+            {TIMELINE_CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between pt-2">
+          {onDelete ? (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-red-300 hover:bg-red-900/30 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" /> Delete
+            </button>
+          ) : <span />}
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="px-4 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default EventEditor;
@@ -0,0 +1,89 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, FileJson, FileText, Sheet, Image, ChevronDown } from 'lucide-react';
+import { CompanyData } from '../types';
+import { toJson, toMarkdown, toCsv, toFileSlug } from '../services/exporters';
+import { serializeSvg, svgToPng, downloadBlob, downloadText } from '../services/svgExport';
+
+interface ExportMenuProps {
+  data: CompanyData;
+  getChartSvg: () => SVGSVGElement | null;
+  chartName: string; // e.g. "timeline" or "structure", used in the file name
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data, getChartSvg, chartName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const slug = toFileSlug(data.companyName);
+
+  const run = async (action: () => void | Promise<void>) => {
+    setExportError(null);
+    setIsOpen(false);
+    try {
+      await action();
+    } catch (err: any) {
+      setExportError(err.message || "Export failed.");
+    }
+  };
+
+  const exportChart = async (format: 'svg' | 'png') => {
+    const svg = getChartSvg();
+    if (!svg) throw new Error("The chart has not been rendered yet.");
+    const { markup, width, height } = serializeSvg(svg);
+    if (format === 'svg') {
+      downloadText(markup, `${slug}-${chartName}.svg`, 'image/svg+xml');
+    } else {
+      downloadBlob(await svgToPng(markup, width, height), `${slug}-${chartName}.png`);
+    }
+  };
+
+  const items = [
+    { label: 'Full data (JSON)', icon: FileJson, action: () => downloadText(toJson(data), `${slug}.json`, 'application/json') },
+    { label: 'Briefing (Markdown)', icon: FileText, action: () => downloadText(toMarkdown(data), `${slug}.md`, 'text/markdown') },
+    { label: 'Timeline (CSV)', icon: Sheet, action: () => downloadText(toCsv(data), `${slug}-timeline.csv`, 'text/csv') },
+    { label: 'Current chart (SVG)', icon: Image, action: () => exportChart('svg') },
+    { label: 'Current chart (PNG)', icon: Image, action: () => exportChart('png') },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 transition-colors"
+      >
+        <Download className="w-3 h-3" />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-52 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-30 py-1">
+          {items.map(({ label, icon: Icon, action }) => (
+            <button
+              key={label}
+              onClick={() => run(action)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white text-left"
+            >
+              <Icon className="w-4 h-4 text-slate-500" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {exportError && (
+        <p className="absolute right-0 mt-2 w-52 text-xs text-red-300">{exportError}</p>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
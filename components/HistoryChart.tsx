@@ -1,15 +1,88 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { TimelineEvent } from '../types';
+import { TimelineEvent, GroundingSource } from '../types';
+import { CATEGORY_COLORS, UNSOURCED_COLOR, HIGHLIGHT_COLOR, seriesColor } from './chartTheme';
+import CitationTooltip, { useCitationTooltip, badgeColor } from './CitationTooltip';
+import TimelineControls from './TimelineControls';
+import { isUnsourced } from '../services/sourceAttribution';
+import { TimelineFilter, DEFAULT_TIMELINE_FILTER, applyTimelineFilter, matchesQuery, parseEventDate } from '../services/timelineFilter';
+
+const CARD_GAP = 20;
+const MIN_CARD_HEIGHT = 80;
+const TITLE_LINE_HEIGHT = 20;
+const DESCRIPTION_LINE_HEIGHT = 16;
+const MAX_DESCRIPTION_LINES = 4; // The detail panel shows the rest
+
+// Greedy word wrap measured with a scratch <text> carrying the target font settings
+const wrapLines = (measure: SVGTextElement, text: string, maxWidth: number, maxLines = Infinity): string[] => {
+  const fits = (line: string) => {
+    measure.textContent = line;
+    return measure.getComputedTextLength() <= maxWidth;
+  };
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && !fits(candidate)) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last.includes(' ') && !fits(`${last}…`)) last = last.slice(0, last.lastIndexOf(' '));
+  kept[maxLines - 1] = `${last}…`;
+  return kept;
+};
+
+interface CardLayout {
+  titleLines: string[];
+  descriptionLines: string[];
+  descriptionY: number; // Baseline of the first description line
+  height: number;
+}
+
+// The events of one company on a merged timeline
+export interface TimelineSeries {
+  id: string; // e.g. the analysis id; two series may share a label
+  label: string;
+  events: TimelineEvent[];
+}
+
+const MAX_SERIES_LABEL_LENGTH = 14;
 
 interface HistoryChartProps {
-  data: TimelineEvent[];
+  data?: TimelineEvent[];
+  series?: TimelineSeries[]; // Several companies on one timeline, instead of `data`
+  sources?: GroundingSource[]; // Enables citation badges; numbering follows this list
+  filter?: TimelineFilter;
+  onFilterChange?: (filter: TimelineFilter) => void; // Enables the search/legend/brush toolbar
+  selectedEvent?: TimelineEvent | null;
+  onEventClick?: (event: TimelineEvent) => void; // Receives the original object from `data` or `series`
 }
 
-const HistoryChart: React.FC<HistoryChartProps> = ({ data }) => {
+const HistoryChart: React.FC<HistoryChartProps> = ({ data, series, sources, filter = DEFAULT_TIMELINE_FILTER, onFilterChange, selectedEvent, onEventClick }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [width, setWidth] = useState(0);
+  const citation = useCitationTooltip();
+
+  const events = useMemo(() => (series ? series.flatMap((s) => s.events) : data || []), [series, data]);
+  const seriesOf = useMemo(() => {
+    const map = new Map<TimelineEvent, { label: string; color: string }>();
+    series?.forEach((s, idx) => s.events.forEach((event) => map.set(event, { label: s.label, color: seriesColor(idx) })));
+    return map;
+  }, [series]);
+  const visible = useMemo(() => applyTimelineFilter(events, filter), [events, filter]);
+  const matches = useMemo(
+    () => filter.query.trim() ? new Set(visible.filter((e) => matchesQuery(e, filter.query))) : null,
+    [visible, filter.query]
+  );
 
   // Resize observer to make D3 responsive
   useEffect(() => {
@@ -24,56 +97,127 @@ const HistoryChart: React.FC<HistoryChartProps> = ({ data }) => {
   }, []);
 
   useEffect(() => {
-    if (!data || data.length === 0 || !svgRef.current || width === 0) return;
+    if (!svgRef.current || width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove(); // Clear previous
+    if (visible.length === 0) {
+      svg.attr("height", 0);
+      return;
+    }
+
+    const isTimeScaled = filter.layout === 'time';
+    const dates = new Map<TimelineEvent, Date>(visible.map((e) => [e, parseEventDate(e)]));
+    const sortedData = [...visible].sort((a, b) =>
+      isTimeScaled ? dates.get(a)!.getTime() - dates.get(b)!.getTime() : a.year - b.year
+    );
 
-    // Sort data
-    const sortedData = [...data].sort((a, b) => a.year - b.year);
-    
     const marginTop = 40;
     const marginBottom = 40;
     const marginLeft = 60;
     const marginRight = 20;
-    const itemHeight = 100; // Height per item
-    const height = sortedData.length * itemHeight + marginTop + marginBottom;
     const innerWidth = width - marginLeft - marginRight;
+    const cardWidth = Math.max(200, innerWidth - 60);
 
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove(); // Clear previous
+    svg.attr("width", width);
 
-    svg.attr("width", width).attr("height", height);
+    // Measure wrapped text first so each card gets the height its content needs
+    const titleMeasure = svg.append("text").attr("font-size", "16px").attr("font-weight", "600").node()!;
+    const descriptionMeasure = svg.append("text").attr("font-size", "12px").node()!;
+    const layouts = new Map<TimelineEvent, CardLayout>();
+    sortedData.forEach((event) => {
+      const titleLines = wrapLines(titleMeasure, event.title, cardWidth - 100); // Leaves room for the date
+      const descriptionLines = wrapLines(descriptionMeasure, event.description, cardWidth - 30, MAX_DESCRIPTION_LINES);
+      const descriptionY = 25 + (titleLines.length - 1) * TITLE_LINE_HEIGHT + 25;
+      const lastBaseline = descriptionLines.length > 0
+        ? descriptionY + (descriptionLines.length - 1) * DESCRIPTION_LINE_HEIGHT
+        : descriptionY - 25;
+      const height = Math.max(MIN_CARD_HEIGHT, lastBaseline + (sources ? 30 : 18));
+      layouts.set(event, { titleLines, descriptionLines, descriptionY, height });
+    });
+    titleMeasure.remove();
+    descriptionMeasure.remove();
+
+    // Dots sit on the axis position; cards follow it but are pushed down to avoid overlapping
+    const stackedHeight = d3.sum(sortedData, (d) => layouts.get(d)!.height + CARD_GAP);
+    const timeScale = d3.scaleTime()
+      .domain(d3.extent(sortedData, (d) => dates.get(d)!) as [Date, Date])
+      .nice(d3.timeYear.every(10)!)
+      .range([0, Math.max(400, stackedHeight)]);
+    const positions = new Map<TimelineEvent, { dotY: number; cardY: number }>();
+    let nextFreeY = 0;
+    sortedData.forEach((event) => {
+      const cardY = isTimeScaled ? Math.max(timeScale(dates.get(event)!), nextFreeY) : nextFreeY;
+      positions.set(event, { dotY: isTimeScaled ? timeScale(dates.get(event)!) : cardY, cardY });
+      nextFreeY = cardY + layouts.get(event)!.height + CARD_GAP;
+    });
+    const contentHeight = Math.max(nextFreeY - CARD_GAP, isTimeScaled ? timeScale.range()[1] : 0);
+    const height = contentHeight + marginTop + marginBottom;
+
+    svg.attr("height", height);
 
     const g = svg.append("g").attr("transform", `translate(${marginLeft},${marginTop})`);
 
+    if (isTimeScaled) {
+      // Decade gridlines, labelled in the left gutter where ordinal mode shows years
+      const decades = timeScale.ticks(d3.timeYear.every(10)!);
+      const grid = g.append("g").selectAll("g").data(decades).enter().append("g")
+        .attr("transform", (d) => `translate(0,${timeScale(d)})`);
+      grid.append("line")
+        .attr("x1", -marginLeft + 8)
+        .attr("x2", innerWidth)
+        .attr("stroke", "#1e293b")
+        .attr("stroke-dasharray", "2 4");
+      grid.append("text")
+        .attr("x", 10)
+        .attr("y", -4)
+        .attr("text-anchor", "end")
+        .text((d) => `${d.getFullYear()}s`)
+        .attr("fill", "#64748b")
+        .attr("font-size", "11px");
+    }
+
     // Draw vertical line
     g.append("line")
       .attr("x1", 20)
       .attr("y1", 0)
       .attr("x2", 20)
-      .attr("y2", height - marginBottom - marginTop)
+      .attr("y2", contentHeight)
       .attr("stroke", "#475569") // Slate-600
       .attr("stroke-width", 2);
 
     // Color scale for categories
     const colorScale = d3.scaleOrdinal<string>()
-      .domain(['founding', 'product', 'acquisition', 'scandal', 'general'])
-      .range(['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#94a3b8']);
+      .domain(Object.keys(CATEGORY_COLORS))
+      .range(Object.values(CATEGORY_COLORS));
 
     const nodes = g.selectAll(".node")
       .data(sortedData)
       .enter()
       .append("g")
       .attr("class", "node")
-      .attr("transform", (d, i) => `translate(20, ${i * itemHeight})`);
+      .attr("transform", (d) => `translate(20, ${positions.get(d)!.cardY})`)
+      .attr("opacity", (d) => matches && !matches.has(d) ? 0.35 : 1);
 
-    // Event Dot
+    // Leader from the dot's true position to its card when they were pulled apart
+    if (isTimeScaled) {
+      nodes.filter((d) => positions.get(d)!.cardY !== positions.get(d)!.dotY)
+        .append("path")
+        .attr("d", (d) => `M0,${positions.get(d)!.dotY - positions.get(d)!.cardY} L20,0`)
+        .attr("fill", "none")
+        .attr("stroke", "#475569");
+    }
+
+    // Event Dot; on a merged timeline the ring shows the company
     nodes.append("circle")
+      .attr("cy", (d) => positions.get(d)!.dotY - positions.get(d)!.cardY)
       .attr("r", 8)
       .attr("fill", (d) => colorScale(d.category) as string)
-      .attr("stroke", "#0f172a")
+      .attr("stroke", (d) => seriesOf.get(d)?.color || "#0f172a")
       .attr("stroke-width", 3);
 
-    // Year Label (Left)
-    nodes.append("text")
+    // Year Label (Left); the time-scaled axis uses decade labels instead
+    nodes.filter(() => !isTimeScaled).append("text")
       .attr("x", -15)
       .attr("y", 5)
       .attr("text-anchor", "end")
@@ -84,67 +228,140 @@ const HistoryChart: React.FC<HistoryChartProps> = ({ data }) => {
 
     // Content Card (Right)
     const cardGroup = nodes.append("g")
-      .attr("transform", "translate(20, -20)");
+      .attr("transform", "translate(20, -20)")
+      .on("click", (_event, d) => onEventClick?.(d));
 
-    // Card Background
+    // Card Background; unsourced events get a dashed outline when citations are shown
+    const flagUnsourced = (d: TimelineEvent) => !!sources && isUnsourced(d);
     cardGroup.append("rect")
-      .attr("width", Math.max(200, innerWidth - 60))
-      .attr("height", 80)
+      .attr("width", cardWidth)
+      .attr("height", (d) => layouts.get(d)!.height)
       .attr("rx", 8)
       .attr("fill", "#1e293b") // Slate-800
-      .attr("stroke", "#334155")
-      .attr("stroke-width", 1)
+      .attr("stroke", (d) =>
+        d === selectedEvent ? "#3b82f6" : matches?.has(d) ? HIGHLIGHT_COLOR : flagUnsourced(d) ? UNSOURCED_COLOR : "#334155")
+      .attr("stroke-dasharray", (d) => flagUnsourced(d) && d !== selectedEvent ? "5 4" : null)
+      .attr("stroke-width", (d) => d === selectedEvent || matches?.has(d) ? 2 : 1)
       .attr("class", "transition-colors hover:stroke-blue-500 cursor-pointer");
 
-    // Title
+    // Title, wrapped in full
     cardGroup.append("text")
-      .attr("x", 15)
-      .attr("y", 25)
-      .text(d => d.title)
       .attr("fill", "#f8fafc")
       .attr("font-weight", "600")
       .attr("font-size", "16px")
-      .each(function(d) {
-        // Simple text wrapping or truncation could go here if needed, keeping it simple for now
-        const self = d3.select(this);
-        let textLength = self.node()?.getComputedTextLength() || 0;
-        const maxLen = innerWidth - 100;
-        if (textLength > maxLen) {
-           self.text(d.title.substring(0, 40) + "...");
-        }
-      });
+      .selectAll("tspan")
+      .data((d) => layouts.get(d)!.titleLines)
+      .enter()
+      .append("tspan")
+      .attr("x", 15)
+      .attr("y", (_line, i) => 25 + i * TITLE_LINE_HEIGHT)
+      .text((line) => line);
 
-    // Description
+    // Description, wrapped up to MAX_DESCRIPTION_LINES
     cardGroup.append("text")
-      .attr("x", 15)
-      .attr("y", 50)
-      .text(d => d.description)
       .attr("fill", "#94a3b8")
       .attr("font-size", "12px")
-      .each(function(d) {
-         const self = d3.select(this);
-         let textLength = self.node()?.getComputedTextLength() || 0;
-         const maxLen = innerWidth - 90;
-         if (textLength > maxLen) {
-            self.text(d.description.substring(0, 80) + "...");
-         }
+      .each(function (d) {
+        const { descriptionLines, descriptionY } = layouts.get(d)!;
+        d3.select(this)
+          .selectAll("tspan")
+          .data(descriptionLines)
+          .enter()
+          .append("tspan")
+          .attr("x", 15)
+          .attr("y", (_line, i) => descriptionY + i * DESCRIPTION_LINE_HEIGHT)
+          .text((line) => line);
       });
-      
+
       // Date String
       cardGroup.append("text")
-        .attr("x", Math.max(200, innerWidth - 60) - 10)
+        .attr("x", cardWidth - 10)
         .attr("y", 20)
         .attr("text-anchor", "end")
         .text(d => d.dateStr || d.year)
         .attr("fill", "#64748b")
         .attr("font-size", "10px");
 
+    // Company of the event, under the date and in the column the title leaves free
+    if (series) {
+      cardGroup.append("rect")
+        .attr("width", 4)
+        .attr("height", (d) => layouts.get(d)!.height)
+        .attr("rx", 2)
+        .attr("fill", (d) => seriesOf.get(d)!.color);
+
+      cardGroup.append("text")
+        .attr("x", cardWidth - 10)
+        .attr("y", 34)
+        .attr("text-anchor", "end")
+        .text((d) => {
+          const { label } = seriesOf.get(d)!;
+          return label.length > MAX_SERIES_LABEL_LENGTH ? `${label.slice(0, MAX_SERIES_LABEL_LENGTH - 1)}…` : label;
+        })
+        .attr("fill", (d) => seriesOf.get(d)!.color)
+        .attr("font-size", "10px")
+        .attr("font-weight", "600");
+    }
+
+    // Citation badge: source count colored by confidence, "?" when unsourced
+    if (sources) {
+      const badge = cardGroup.append("g")
+        .attr("transform", (d) => `translate(${cardWidth - 40}, ${layouts.get(d)!.height - 24})`)
+        .style("cursor", "help")
+        .on("mouseenter", function (_event, d) {
+          const rect = (this as SVGGElement).getBoundingClientRect();
+          citation.show({ x: rect.left + rect.width / 2, y: rect.bottom, sourceUris: d.sourceUris || [], confidence: d.confidence });
+        })
+        .on("mouseleave", citation.scheduleHide)
+        .on("click", (event) => event.stopPropagation());
+
+      badge.append("rect")
+        .attr("width", 30)
+        .attr("height", 16)
+        .attr("rx", 8)
+        .attr("fill", (d) => badgeColor(d))
+        .attr("fill-opacity", 0.2)
+        .attr("stroke", (d) => badgeColor(d));
+
+      badge.append("text")
+        .attr("x", 15)
+        .attr("y", 12)
+        .attr("text-anchor", "middle")
+        .text((d) => isUnsourced(d) ? "?" : `[${d.sourceUris!.length}]`)
+        .attr("fill", (d) => badgeColor(d))
+        .attr("font-size", "10px")
+        .attr("font-weight", "bold");
+    }
 
-  }, [data, width]);
+  }, [visible, matches, filter.layout, sources, series, seriesOf, width, selectedEvent, onEventClick, citation.show, citation.scheduleHide]);
 
   return (
-    <div ref={wrapperRef} className="w-full h-full overflow-y-auto overflow-x-hidden p-4">
-      <svg ref={svgRef} className="block mx-auto"></svg>
+    <div ref={wrapperRef} className="w-full h-full overflow-y-auto overflow-x-hidden p-4" onScroll={citation.scheduleHide}>
+      {onFilterChange && (
+        <TimelineControls data={events} filter={filter} matchCount={matches?.size || 0} onChange={onFilterChange} />
+      )}
+      {series && (
+        <div className="flex flex-wrap items-center justify-center gap-4 pb-2 text-xs text-slate-300">
+          {series.map((s, idx) => (
+            <span key={s.id} className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: seriesColor(idx) }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+      {events.length > 0 && visible.length === 0 && (
+        <p className="text-center text-sm text-slate-500 italic py-12">No events match the current filters.</p>
+      )}
+      <svg ref={svgRef} data-chart className="block mx-auto"></svg>
+      {sources && (
+        <CitationTooltip
+          anchor={citation.anchor}
+          sources={sources}
+          onMouseEnter={citation.cancelHide}
+          onMouseLeave={citation.scheduleHide}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,37 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+
+interface ImportButtonProps {
+  label: string;
+  onImport: (text: string, fileName: string) => void;
+  className?: string;
+  accept?: string; // Defaults to CompanyData JSON and timeline CSV
+}
+
+// File picker for CompanyData JSON or timeline CSV files
+const ImportButton: React.FC<ImportButtonProps> = ({ label, onImport, className, accept }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    onImport(await file.text(), file.name);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className={className || "flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 transition-colors"}
+      >
+        <Upload className="w-3 h-3" />
+        {label}
+      </button>
+      <input ref={inputRef} type="file" accept={accept || ".json,.csv,application/json,text/csv"} onChange={handleChange} className="hidden" />
+    </>
+  );
+};
+
+export default ImportButton;
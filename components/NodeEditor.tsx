@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Trash2, Plus, ScanSearch, FolderOpen, Loader2 } from 'lucide-react';
+import { OrgNode } from '../types';
+import { ORG_ROLES, RELATIONSHIP_TYPES } from '../services/companyDataValidator';
+import { RELATIONSHIP_LABELS } from '../services/ownership';
+import { createEntityId } from '../services/entityIds';
+import Modal, { inputClassName, labelClassName } from './Modal';
+
+interface NodeEditorProps {
+  node: OrgNode;
+  isRoot: boolean;
+  onSave: (node: OrgNode) => void;
+  onAddChild: (child: OrgNode) => void;
+  onDelete: () => void;
+  onDrillDown: () => void;
+  onOpenAnalysis: (analysisId: string) => void;
+  isDrilling: boolean; // A drill-down is already running (for this or another node)
+  onClose: () => void;
+}
+
+const NodeEditor: React.FC<NodeEditorProps> = ({ node, isRoot, onSave, onAddChild, onDelete, onDrillDown, onOpenAnalysis, isDrilling, onClose }) => {
+  const [name, setName] = useState(node.name);
+  const [role, setRole] = useState<OrgNode['role']>(node.role);
+  const [description, setDescription] = useState(node.description || '');
+  const [relationship, setRelationship] = useState<OrgNode['relationship'] | ''>(node.relationship || '');
+  const [ownershipPercent, setOwnershipPercent] = useState(node.ownershipPercent?.toString() ?? '');
+  const [acquiredDate, setAcquiredDate] = useState(node.acquiredDate || '');
+  const [childName, setChildName] = useState('');
+  const [childRole, setChildRole] = useState<OrgNode['role']>('subsidiary');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const next: OrgNode = { ...node, name: name.trim(), role };
+    if (description.trim()) next.description = description.trim();
+    else delete next.description;
+    if (relationship) next.relationship = relationship;
+    else delete next.relationship;
+    const percent = parseFloat(ownershipPercent);
+    if (Number.isFinite(percent) && percent >= 0 && percent <= 100) next.ownershipPercent = percent;
+    else delete next.ownershipPercent;
+    if (acquiredDate.trim()) next.acquiredDate = acquiredDate.trim();
+    else delete next.acquiredDate;
+    onSave(next);
+  };
+
+  const handleAddChild = () => {
+    if (!childName.trim()) return;
+    onAddChild({ id: createEntityId('node'), name: childName.trim(), role: childRole });
+  };
+
+  return (
+    <Modal title={`Edit ${node.name}`} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <label className={labelClassName}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} autoFocus />
+          </div>
+          <div>
+            <label className={labelClassName}>Role</label>
+            <select value={role} onChange={(e) => setRole(e.target.value as OrgNode['role'])} className={inputClassName}>
+              {ORG_ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Description</label>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputClassName} />
+        </div>
+        {!isRoot && (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClassName}>Held as</label>
+              <select
+                value={relationship}
+                onChange={(e) => setRelationship(e.target.value as OrgNode['relationship'] | '')}
+                className={inputClassName}
+              >
+                <option value="">Unspecified</option>
+                {RELATIONSHIP_TYPES.map((r) => <option key={r} value={r}>{RELATIONSHIP_LABELS[r]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>Ownership %</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={ownershipPercent}
+                onChange={(e) => setOwnershipPercent(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Acquired</label>
+              <input value={acquiredDate} onChange={(e) => setAcquiredDate(e.target.value)} placeholder="e.g. Mar 2012" className={inputClassName} />
+            </div>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          {!isRoot ? (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-red-300 hover:bg-red-900/30 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" /> Delete with children
+            </button>
+          ) : <span />}
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="px-4 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+
+      <div className="mt-5 pt-4 border-t border-slate-800">
+        <label className={labelClassName}>Add child</label>
+        <div className="flex gap-2">
+          <input
+            value={childName}
+            onChange={(e) => setChildName(e.target.value)}
+            placeholder="Entity name"
+            className={inputClassName}
+          />
+          <select value={childRole} onChange={(e) => setChildRole(e.target.value as OrgNode['role'])} className={`${inputClassName} w-36`}>
+            {ORG_ROLES.filter((r) => r !== 'root').map((r) => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <button
+            type="button"
+            onClick={handleAddChild}
+            disabled={!childName.trim()}
+            className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500 mt-3">Tip: drag a node onto another node in the chart to move it under a new parent.</p>
+      </div>
+
+      {!isRoot && (
+        <div className="mt-5 pt-4 border-t border-slate-800">
+          <label className={labelClassName}>Drill down</label>
+          {node.provenance && (
+            <p className="text-[11px] text-slate-500 mb-2">
+              Analyzed as "{node.provenance.companyName}" on {new Date(node.provenance.fetchedAt).toLocaleDateString()}.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onDrillDown}
+              disabled={isDrilling}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50 transition-colors"
+            >
+              {isDrilling ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanSearch className="w-4 h-4" />}
+              {node.provenance ? 'Analyze again' : `Drill into ${node.name}`}
+            </button>
+            {node.provenance && (
+              <button
+                type="button"
+                onClick={() => onOpenAnalysis(node.provenance!.analysisId)}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-blue-300 hover:bg-blue-900/30 transition-colors"
+              >
+                <FolderOpen className="w-4 h-4" /> Open its analysis
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default NodeEditor;
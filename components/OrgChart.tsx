@@ -1,15 +1,86 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { OrgNode } from '../types';
+import { Search, Maximize, LocateFixed, ChevronsUpDown, ChevronsDownUp, ChevronDown, ChevronUp, Network, Workflow, Orbit, ListTree } from 'lucide-react';
+import { OrgNode, OrgLayout, GroundingSource } from '../types';
+import { OrgPath } from '../services/orgTree';
+import { isUnsourced } from '../services/sourceAttribution';
+import { ORG_ROLES } from '../services/companyDataValidator';
+import { formatEdgeLabel, describeEdge, resolveCrossLinks } from '../services/ownership';
+import { OrgChartView, OrgZoom, sameOrgView } from '../services/permalink';
+import { HIGHLIGHT_COLOR, UNSOURCED_COLOR, ROLE_COLORS, LINK_COLOR, CROSS_LINK_COLOR } from './chartTheme';
+import CitationTooltip, { useCitationTooltip, badgeColor } from './CitationTooltip';
+import { computeOrgLayout, defaultOrigin } from './orgLayouts';
 
 interface OrgChartProps {
   data: OrgNode;
+  sources?: GroundingSource[]; // Enables citation badges; numbering follows this list
+  isHighlighted?: (node: OrgNode) => boolean; // e.g. entities shared with a compared company
+  onNodeClick?: (path: OrgPath, node: OrgNode) => void; // Label clicks; dot clicks collapse/expand
+  onReparent?: (fromPath: OrgPath, toParentPath: OrgPath) => void; // Enables drag-and-drop
+  initialView?: OrgChartView; // Layout, search and zoom to start from, e.g. from a permalink
+  onViewChange?: (view: OrgChartView) => void; // Called once a layout change, search or pan/zoom settles
 }
 
-const OrgChart: React.FC<OrgChartProps> = ({ data }) => {
+const DROP_RADIUS = 24;
+const DEFAULT_EXPANDED_DEPTH = 2; // Deeper subtrees start collapsed
+const SCALE_EXTENT: [number, number] = [0.1, 3];
+
+const LAYOUTS: { id: OrgLayout; label: string; Icon: typeof Network }[] = [
+  { id: 'horizontal', label: 'Horizontal tree', Icon: Network },
+  { id: 'vertical', label: 'Top-down tree', Icon: Workflow },
+  { id: 'radial', label: 'Radial', Icon: Orbit },
+  { id: 'indented', label: 'Indented list', Icon: ListTree }
+];
+
+const pathOf = (node: d3.HierarchyNode<OrgNode>): OrgPath =>
+  node.ancestors().reverse().slice(1).map((n) => n.parent!.children!.indexOf(n));
+
+interface NodeInfo {
+  key: string; // Name path from the root; survives edits that shift sibling indices
+  depth: number;
+  parentKey: string | null;
+  descendantCount: number;
+}
+
+const indexTree = (root: OrgNode): Map<OrgNode, NodeInfo> => {
+  const index = new Map<OrgNode, NodeInfo>();
+  const visit = (node: OrgNode, depth: number, parentKey: string | null): number => {
+    const key = parentKey === null ? node.name : `${parentKey}/${node.name}`;
+    const info: NodeInfo = { key, depth, parentKey, descendantCount: 0 };
+    index.set(node, info);
+    info.descendantCount = (node.children || []).reduce((sum, child) => sum + 1 + visit(child, depth + 1, key), 0);
+    return info.descendantCount;
+  };
+  visit(root, 0, null);
+  return index;
+};
+
+const matchesNode = (node: OrgNode, needle: string) =>
+  node.name.toLowerCase().includes(needle) || (node.description || '').toLowerCase().includes(needle);
+
+const toTransform = (zoom: OrgZoom) => d3.zoomIdentity.translate(zoom.x, zoom.y).scale(zoom.k);
+
+const toZoom = (transform: d3.ZoomTransform): OrgZoom => ({
+  x: Math.round(transform.x),
+  y: Math.round(transform.y),
+  k: Math.round(transform.k * 100) / 100
+});
+
+const OrgChart: React.FC<OrgChartProps> = ({ data, sources, isHighlighted, onNodeClick, onReparent, initialView, onViewChange }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Kept across redraws of the same layout
+  const transformRef = useRef<d3.ZoomTransform | null>(initialView?.zoom ? toTransform(initialView.zoom) : null);
+  const placedRef = useRef(new Map<string, [number, number]>());
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [layout, setLayout] = useState<OrgLayout>(initialView?.layout || 'horizontal');
+  const [toggled, setToggled] = useState<Set<string>>(new Set()); // Keys whose default collapse state was flipped
+  const [query, setQuery] = useState(initialView?.query || '');
+  const [settledZoom, setSettledZoom] = useState<OrgZoom | null>(initialView?.zoom || null);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [hovered, setHovered] = useState<{ x: number; y: number; node: OrgNode } | null>(null);
+  const citation = useCitationTooltip();
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -25,53 +96,224 @@ const OrgChart: React.FC<OrgChartProps> = ({ data }) => {
     return () => resizeObserver.disconnect();
   }, []);
 
+  // A different company starts from the default view; must run before the draw effect
+  const shownNameRef = useRef(data.name);
+  useEffect(() => {
+    if (shownNameRef.current === data.name) return;
+    shownNameRef.current = data.name;
+    transformRef.current = null;
+    setToggled(new Set());
+  }, [data.name]);
+
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  const reportedViewRef = useRef<OrgChartView | null>(initialView || null);
+  useEffect(() => {
+    const view = { layout, query, zoom: settledZoom };
+    if (reportedViewRef.current && sameOrgView(reportedViewRef.current, view)) return;
+    reportedViewRef.current = view;
+    onViewChangeRef.current?.(view);
+  }, [layout, query, settledZoom]);
+
+  const nodeIndex = useMemo(() => indexTree(data), [data]);
+  const hasCrossLinks = useMemo(() => resolveCrossLinks(data).length > 0, [data]);
+
+  // Search covers collapsed subtrees too; ancestors of matches are forced open
+  const matchKeys = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return Array.from(nodeIndex.entries())
+      .filter(([node]) => matchesNode(node, needle))
+      .map(([, info]) => info.key);
+  }, [nodeIndex, query]);
+
+  const forcedOpen = useMemo(() => {
+    const keys = new Set<string>();
+    const byKey = new Map<string, NodeInfo>();
+    nodeIndex.forEach((info) => byKey.set(info.key, info));
+    matchKeys.forEach((key) => {
+      let parentKey = byKey.get(key)?.parentKey;
+      while (parentKey) {
+        keys.add(parentKey);
+        parentKey = byKey.get(parentKey)?.parentKey;
+      }
+    });
+    return keys;
+  }, [nodeIndex, matchKeys]);
+
+  const isCollapsed = useCallback((node: OrgNode) => {
+    const info = nodeIndex.get(node);
+    if (!info || !node.children || node.children.length === 0 || forcedOpen.has(info.key)) return false;
+    return (info.depth >= DEFAULT_EXPANDED_DEPTH) !== toggled.has(info.key);
+  }, [nodeIndex, forcedOpen, toggled]);
+
+  const toggleNode = useCallback((node: OrgNode) => {
+    const key = nodeIndex.get(node)?.key;
+    if (!key) return;
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, [nodeIndex]);
+
+  const expandAll = () => {
+    setToggled(new Set(
+      Array.from(nodeIndex.entries())
+        .filter(([node, info]) => info.depth >= DEFAULT_EXPANDED_DEPTH && node.children?.length)
+        .map(([, info]) => info.key)
+    ));
+  };
+
+  // --- Zoom helpers ---
+
+  const applyTransform = useCallback((transform: d3.ZoomTransform) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(400).call(zoomRef.current.transform as any, transform);
+  }, []);
+
+  const fitTransform = useCallback((maxScale: number) => {
+    const content = svgRef.current?.querySelector<SVGGElement>('g.org-content');
+    if (!content) return d3.zoomIdentity;
+    const box = content.getBBox();
+    const { width, height } = dimensions;
+    const padding = 40;
+    const scale = Math.max(SCALE_EXTENT[0], Math.min(
+      maxScale,
+      (width - padding * 2) / Math.max(1, box.width),
+      (height - padding * 2) / Math.max(1, box.height)
+    ));
+    return d3.zoomIdentity
+      .translate(width / 2, height / 2)
+      .scale(scale)
+      .translate(-(box.x + box.width / 2), -(box.y + box.height / 2));
+  }, [dimensions]);
+
+  const fitToScreen = () => applyTransform(fitTransform(SCALE_EXTENT[1]));
+  const resetZoom = () => {
+    const [x, y] = defaultOrigin(layout, dimensions.width, dimensions.height);
+    applyTransform(d3.zoomIdentity.translate(x, y));
+  };
+
+  const changeLayout = (next: OrgLayout) => {
+    transformRef.current = null; // Fit the new layout on its first draw
+    setLayout(next);
+  };
+
   useEffect(() => {
     if (!data || !svgRef.current || dimensions.width === 0) return;
 
     const { width, height } = dimensions;
-    const margin = { top: 40, right: 90, bottom: 50, left: 90 };
-    const innerWidth = width - margin.left - margin.right;
-    const innerHeight = height - margin.top - margin.bottom;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove();
 
     svg.attr("width", width).attr("height", height);
 
-    const g = svg.append("g")
-      .attr("transform", `translate(${margin.left},${margin.top})`);
+    const g = svg.append("g").attr("class", "org-content");
 
     // Zoom behavior
     const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.5, 2])
+      .scaleExtent(SCALE_EXTENT)
       .on("zoom", (event) => {
         g.attr("transform", event.transform);
+        transformRef.current = event.transform;
+        citation.scheduleHide();
+        setHovered(null);
+      })
+      .on("end", (event) => {
+        const next = toZoom(event.transform);
+        setSettledZoom((prev) => (prev && prev.x === next.x && prev.y === next.y && prev.k === next.k ? prev : next));
       });
-    
-    svg.call(zoom);
+    zoomRef.current = zoom;
+    svg.call(zoom).on("dblclick.zoom", null);
 
-    // Create hierarchy
-    const root = d3.hierarchy<OrgNode>(data);
-    
-    // Tree layout
-    const treeLayout = d3.tree<OrgNode>()
-      .size([innerHeight, innerWidth]);
+    // Collapsed subtrees are left out of the hierarchy entirely
+    const root = d3.hierarchy<OrgNode>(data, (n) => (isCollapsed(n) ? null : n.children));
+    const { positions, linkPath, badgeOffset } = computeOrgLayout(root, layout);
+    const at = (n: d3.HierarchyNode<OrgNode>) => positions.get(n)!;
 
-    treeLayout(root);
+    placedRef.current = new Map(root.descendants().map((n) => [nodeIndex.get(n.data)!.key, [at(n).x, at(n).y]]));
 
-    // Links
+    // Links; divested entities keep a faint dotted edge
+    const links = root.links();
     g.selectAll(".link")
-      .data(root.links())
+      .data(links)
       .enter()
       .append("path")
       .attr("class", "link")
       .attr("fill", "none")
-      .attr("stroke", "#475569")
+      .attr("stroke", LINK_COLOR)
+      .attr("stroke-width", (l) => l.target.data.relationship === 'minority' ? 1 : 1.5)
+      .attr("stroke-dasharray", (l) => l.target.data.relationship === 'divested' ? "2 4" : null)
+      .attr("opacity", (l) => l.target.data.relationship === 'divested' ? 0.6 : 1)
+      .attr("d", (l) => linkPath(l.source, l.target));
+
+    // Cross-links run from the extra holder to the held node, bowed so they clear tree edges
+    const byData = new Map(root.descendants().map((n) => [n.data, n]));
+    const crossLinks = resolveCrossLinks(data).flatMap(({ source, target, link }) => {
+      const held = byData.get(source);
+      const holder = byData.get(target);
+      if (!held || !holder) return []; // One end is inside a collapsed subtree
+      const [x1, y1, x2, y2] = [at(holder).x, at(holder).y, at(held).x, at(held).y];
+      const length = Math.max(1, Math.hypot(x2 - x1, y2 - y1));
+      const bow = Math.min(60, length / 4);
+      const cx = (x1 + x2) / 2 - ((y2 - y1) / length) * bow;
+      const cy = (y1 + y2) / 2 + ((x2 - x1) / length) * bow;
+      return [{ link, path: `M${x1},${y1}Q${cx},${cy} ${x2},${y2}`, mid: [(x1 + 2 * cx + x2) / 4, (y1 + 2 * cy + y2) / 4] }];
+    });
+
+    g.selectAll(".cross-link")
+      .data(crossLinks)
+      .enter()
+      .append("path")
+      .attr("class", "cross-link")
+      .attr("fill", "none")
+      .attr("stroke", CROSS_LINK_COLOR)
       .attr("stroke-width", 1.5)
-      .attr("d", d3.linkHorizontal()
-        .x(d => d.y)
-        .y(d => d.x) as any
-      );
+      .attr("stroke-dasharray", "6 4")
+      .attr("opacity", 0.8)
+      .attr("d", (c) => c.path);
+
+    // Edge labels sit at the midpoint of the straight line between the two nodes
+    const edgeLabels = [
+      ...links
+        .filter((l) => formatEdgeLabel(l.target.data))
+        .map((l) => ({
+          text: formatEdgeLabel(l.target.data),
+          x: (at(l.source).x + at(l.target).x) / 2,
+          y: (at(l.source).y + at(l.target).y) / 2,
+          color: "#94a3b8"
+        })),
+      ...crossLinks
+        .filter((c) => formatEdgeLabel(c.link))
+        .map((c) => ({ text: formatEdgeLabel(c.link), x: c.mid[0], y: c.mid[1], color: CROSS_LINK_COLOR }))
+    ];
+
+    g.selectAll(".edge-label")
+      .data(edgeLabels)
+      .enter()
+      .append("text")
+      .attr("class", "edge-label")
+      .attr("x", (e) => e.x)
+      .attr("y", (e) => e.y)
+      .attr("dy", -4)
+      .attr("text-anchor", "middle")
+      .attr("fill", (e) => e.color)
+      .attr("font-size", "9px")
+      .attr("paint-order", "stroke")
+      .attr("stroke", "#0f172a")
+      .attr("stroke-width", 3)
+      .style("pointer-events", "none")
+      .text((e) => e.text);
+
+    const matchSet = new Set(matchKeys);
+    const currentMatch = matchKeys[matchIndex % Math.max(1, matchKeys.length)];
+    const keyOf = (d: d3.HierarchyNode<OrgNode>) => nodeIndex.get(d.data)!.key;
+    const hasChildren = (d: d3.HierarchyNode<OrgNode>) => !!d.data.children && d.data.children.length > 0;
+    const dotStroke = (d: d3.HierarchyNode<OrgNode>) =>
+      isHighlighted?.(d.data) ? '#fde68a' : isCollapsed(d.data) ? '#e2e8f0' : "#0f172a";
 
     // Nodes
     const node = g.selectAll(".node")
@@ -79,44 +321,258 @@ const OrgChart: React.FC<OrgChartProps> = ({ data }) => {
       .enter()
       .append("g")
       .attr("class", (d) => "node" + (d.children ? " node--internal" : " node--leaf"))
-      .attr("transform", (d) => `translate(${d.y},${d.x})`);
+      .attr("transform", (d) => `translate(${at(d).x},${at(d).y})`)
+      .style("cursor", "pointer")
+      .on("click", (event, d) => {
+        const onDot = (event.target as Element).classList.contains("node-dot");
+        if (hasChildren(d) && (onDot || !onNodeClick)) toggleNode(d.data);
+        else onNodeClick?.(pathOf(d), d.data);
+      })
+      .on("mouseenter", (event, d) => setHovered({ x: event.clientX, y: event.clientY, node: d.data }))
+      .on("mouseleave", () => setHovered(null));
+
+    if (onReparent) {
+      // Drop a node onto another to move it; it snaps back if released over empty space
+      const descendants = root.descendants();
+      const findDropTarget = (dragged: d3.HierarchyNode<OrgNode>, x: number, y: number) =>
+        descendants.find((candidate) =>
+          candidate !== dragged &&
+          !candidate.ancestors().includes(dragged) &&
+          Math.hypot(at(candidate).x - x, at(candidate).y - y) < DROP_RADIUS
+        );
+
+      node.call(d3.drag<SVGGElement, d3.HierarchyNode<OrgNode>>()
+        .filter((event, d) => !event.button && d.depth > 0)
+        .subject((_event, d) => ({ x: at(d).x, y: at(d).y }))
+        .on("start", () => setHovered(null))
+        .on("drag", function (event, d) {
+          d3.select(this).raise().attr("transform", `translate(${event.x},${event.y})`);
+          const target = findDropTarget(d, event.x, event.y);
+          node.select(".node-dot").attr("stroke", (n: any) => n === target ? HIGHLIGHT_COLOR : dotStroke(n));
+        })
+        .on("end", function (event, d) {
+          const target = findDropTarget(d, event.x, event.y);
+          if (target && target !== d.parent) {
+            onReparent(pathOf(d), pathOf(target));
+          } else {
+            d3.select(this).attr("transform", `translate(${at(d).x},${at(d).y})`);
+            node.select(".node-dot").attr("stroke", (n: any) => dotStroke(n));
+          }
+        }) as any);
+    }
+
+    // Search matches get a highlight ring; the focused one is thicker
+    node.filter((d) => matchSet.has(keyOf(d)))
+      .append("circle")
+      .attr("r", 13)
+      .attr("fill", "none")
+      .attr("stroke", HIGHLIGHT_COLOR)
+      .attr("stroke-width", (d) => keyOf(d) === currentMatch ? 3 : 1.5);
+
+    // Dashed ring flags nodes no web source backs
+    if (sources) {
+      node.filter((d) => isUnsourced(d.data))
+        .append("circle")
+        .attr("r", 10)
+        .attr("fill", "none")
+        .attr("stroke", UNSOURCED_COLOR)
+        .attr("stroke-dasharray", "3 3");
+    }
 
     node.append("circle")
-      .attr("r", 6)
-      .attr("fill", (d) => d.data.role === 'root' ? '#3b82f6' : '#cbd5e1')
-      .attr("stroke", "#0f172a")
+      .attr("class", "node-dot")
+      .attr("r", (d) => isCollapsed(d.data) ? 7 : 6)
+      .attr("fill", (d) => isHighlighted?.(d.data) ? HIGHLIGHT_COLOR : ROLE_COLORS[d.data.role])
+      .attr("stroke", dotStroke)
       .attr("stroke-width", 2);
 
     node.append("text")
-      .attr("dy", 3)
-      .attr("x", (d) => d.children ? -10 : 10)
-      .style("text-anchor", (d) => d.children ? "end" : "start")
+      .attr("dy", (d) => at(d).labelDy)
+      .attr("x", (d) => at(d).labelDx)
+      .style("text-anchor", (d) => at(d).anchor)
       .text((d) => d.data.name)
-      .attr("fill", "#f1f5f9")
+      .attr("fill", (d) => isHighlighted?.(d.data) ? '#fde68a' : "#f1f5f9")
       .attr("font-size", "12px")
       .attr("font-weight", (d) => d.data.role === 'root' ? "bold" : "normal")
       .clone(true).lower()
       .attr("stroke", "#0f172a") // text outline for readability
       .attr("stroke-width", 3);
-      
-    // Role Label (subtitle)
+
+    // Role Label (subtitle), with the size of a collapsed subtree and when a drill-down grafted it
     node.append("text")
-        .attr("dy", 18)
-        .attr("x", (d) => d.children ? -10 : 10)
-        .style("text-anchor", (d) => d.children ? "end" : "start")
-        .text((d) => d.data.role)
+        .attr("dy", (d) => at(d).labelDy + 15)
+        .attr("x", (d) => at(d).labelDx)
+        .style("text-anchor", (d) => at(d).anchor)
+        .text((d) => [
+          d.data.role,
+          isCollapsed(d.data) ? `+${nodeIndex.get(d.data)!.descendantCount} hidden` : null,
+          d.data.provenance ? `analyzed ${new Date(d.data.provenance.fetchedAt).toLocaleDateString()}` : null
+        ].filter(Boolean).join(' · '))
         .attr("fill", "#94a3b8")
         .attr("font-size", "10px");
 
+    // Citation badge: source count colored by confidence, "?" when unsourced
+    if (sources) {
+      const badge = node.append("g")
+        .attr("transform", `translate(${badgeOffset[0]},${badgeOffset[1]})`)
+        .style("cursor", "help")
+        .on("mouseenter", function (_event, d) {
+          setHovered(null);
+          const rect = (this as SVGGElement).getBoundingClientRect();
+          citation.show({ x: rect.left + rect.width / 2, y: rect.bottom, sourceUris: d.data.sourceUris || [], confidence: d.data.confidence });
+        })
+        .on("mouseleave", citation.scheduleHide)
+        .on("click", (event) => event.stopPropagation());
+
+      badge.append("circle")
+        .attr("r", 7)
+        .attr("fill", "#0f172a")
+        .attr("stroke", (d) => badgeColor(d.data));
+
+      badge.append("text")
+        .attr("dy", 3)
+        .attr("text-anchor", "middle")
+        .text((d) => isUnsourced(d.data) ? "?" : d.data.sourceUris!.length)
+        .attr("fill", (d) => badgeColor(d.data))
+        .attr("font-size", "9px")
+        .attr("font-weight", "bold");
+    }
+
+    // Restore the previous view, or fit a fresh layout without enlarging small trees
+    svg.call(zoom.transform, transformRef.current || fitTransform(1));
+
+  }, [data, sources, dimensions, layout, isCollapsed, matchKeys, matchIndex, nodeIndex, isHighlighted, onNodeClick, onReparent, toggleNode, fitTransform, citation.show, citation.scheduleHide]);
+
+  // Pan to the focused search match
+  useEffect(() => {
+    if (matchKeys.length === 0) return;
+    const position = placedRef.current.get(matchKeys[matchIndex % matchKeys.length]);
+    if (!position) return;
+    const scale = Math.max(1, transformRef.current?.k || 1);
+    applyTransform(d3.zoomIdentity
+      .translate(dimensions.width / 2, dimensions.height / 2)
+      .scale(scale)
+      .translate(-position[0], -position[1]));
+  }, [matchKeys, matchIndex, dimensions, layout, applyTransform]);
 
-  }, [data, dimensions]);
+  const stepMatch = (delta: number) => {
+    if (matchKeys.length === 0) return;
+    setMatchIndex((i) => (i + delta + matchKeys.length) % matchKeys.length);
+  };
+
+  const controlButton = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors';
 
   return (
     <div ref={containerRef} className="w-full h-full bg-slate-900 rounded-lg overflow-hidden border border-slate-800 relative cursor-move">
-      <div className="absolute top-2 right-2 text-xs text-slate-500 pointer-events-none">
-        Scroll to zoom • Drag to pan
+      {/* Toolbar */}
+      <div className="absolute top-2 left-2 right-2 z-10 flex flex-wrap items-center gap-2 cursor-default">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2 w-3.5 h-3.5 text-slate-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setMatchIndex(0);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+            }}
+            placeholder="Find entity..."
+            className="w-48 pl-8 pr-2 py-1.5 bg-slate-950/90 border border-slate-700 rounded-lg text-xs text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+        </div>
+        {query.trim() && (
+          <div className="flex items-center gap-0.5 text-[11px] text-slate-400 bg-slate-950/90 border border-slate-800 rounded-lg px-1.5 py-0.5">
+            {matchKeys.length === 0 ? 'No matches' : `${(matchIndex % matchKeys.length) + 1} / ${matchKeys.length}`}
+            <button onClick={() => stepMatch(-1)} disabled={matchKeys.length === 0} className={controlButton} title="Previous match">
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => stepMatch(1)} disabled={matchKeys.length === 0} className={controlButton} title="Next match (Enter)">
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
+        <div className="ml-auto flex items-center gap-1 bg-slate-950/90 border border-slate-800 rounded-lg p-0.5">
+          {LAYOUTS.map(({ id, label, Icon }) => (
+            <button
+              key={id}
+              onClick={() => changeLayout(id)}
+              title={label}
+              className={layout === id ? 'p-1.5 rounded-md bg-slate-700 text-white' : controlButton}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 bg-slate-950/90 border border-slate-800 rounded-lg p-0.5">
+          <button onClick={expandAll} className={controlButton} title="Expand all">
+            <ChevronsUpDown className="w-4 h-4" />
+          </button>
+          <button onClick={() => setToggled(new Set())} className={controlButton} title={`Collapse below level ${DEFAULT_EXPANDED_DEPTH}`}>
+            <ChevronsDownUp className="w-4 h-4" />
+          </button>
+          <button onClick={fitToScreen} className={controlButton} title="Fit to screen">
+            <Maximize className="w-4 h-4" />
+          </button>
+          <button onClick={resetZoom} className={controlButton} title="Reset zoom">
+            <LocateFixed className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Role legend */}
+      <div className="absolute bottom-2 left-2 z-10 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400 pointer-events-none">
+        {ORG_ROLES.map((role) => (
+          <span key={role} className="flex items-center gap-1 capitalize">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ROLE_COLORS[role] }} />
+            {role}
+          </span>
+        ))}
+        {hasCrossLinks && (
+          <span className="flex items-center gap-1">
+            <span className="w-3 border-t border-dashed" style={{ borderColor: CROSS_LINK_COLOR }} />
+            other holder
+          </span>
+        )}
       </div>
-      <svg ref={svgRef} className="block w-full h-full"></svg>
+      <div className="absolute bottom-2 right-2 text-xs text-slate-500 pointer-events-none">
+        Scroll to zoom • Drag to pan • Click a dot to expand
+      </div>
+
+      <svg ref={svgRef} data-chart className="block w-full h-full"></svg>
+
+      {hovered && (
+        <div
+          className="fixed z-50 max-w-xs p-3 bg-slate-950 border border-slate-700 rounded-lg shadow-2xl text-xs pointer-events-none"
+          style={{ left: hovered.x + 14, top: hovered.y + 14 }}
+        >
+          <div className="font-semibold text-slate-100">{hovered.node.name}</div>
+          <div className="flex items-center gap-1.5 mt-0.5 text-slate-400 capitalize">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ROLE_COLORS[hovered.node.role] }} />
+            {hovered.node.role}
+          </div>
+          {describeEdge(hovered.node) && <div className="mt-1 text-slate-400">{describeEdge(hovered.node)}</div>}
+          {hovered.node.crossLinks?.map((link) => (
+            <div key={link.target} className="mt-1" style={{ color: CROSS_LINK_COLOR }}>
+              Also held by {link.target}{describeEdge(link) && ` (${describeEdge(link)})`}
+            </div>
+          ))}
+          {hovered.node.description && <p className="mt-2 text-slate-300 leading-relaxed">{hovered.node.description}</p>}
+          {hovered.node.lastVerified && (
+            <div className="mt-2 text-[10px] text-slate-500">Last verified {new Date(hovered.node.lastVerified).toLocaleDateString()}</div>
+          )}
+        </div>
+      )}
+      {sources && (
+        <CitationTooltip
+          anchor={citation.anchor}
+          sources={sources}
+          onMouseEnter={citation.cancelHide}
+          onMouseLeave={citation.scheduleHide}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { X, FolderClock, Pencil, Trash2, Check } from 'lucide-react';
+import { SavedAnalysis } from '../types';
+import { listConversations } from '../services/conversationStore';
+
+interface RecentAnalysesProps {
+  analyses: SavedAnalysis[];
+  activeId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (analysis: SavedAnalysis) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatSavedAt = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const RecentAnalyses: React.FC<RecentAnalysesProps> = ({ analyses, activeId, isOpen, onClose, onOpen, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (!isOpen) return null;
+
+  const startRename = (analysis: SavedAnalysis) => {
+    setEditingId(analysis.id);
+    setDraftTitle(analysis.title);
+  };
+
+  const commitRename = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-y-0 left-0 w-full sm:w-80 bg-slate-900 border-r border-slate-800 shadow-2xl z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-16 border-b border-slate-800 flex items-center justify-between px-4 bg-slate-900/95 backdrop-blur">
+        <div className="flex items-center gap-2">
+          <FolderClock className="w-4 h-4 text-blue-400" />
+          <h3 className="font-semibold text-slate-100">Recent Analyses</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {analyses.length === 0 && (
+          <p className="text-xs text-slate-500 italic text-center mt-8">
+            Analyses you run are saved here automatically.
+          </p>
+        )}
+        {analyses.map((analysis) => (
+          <div
+            key={analysis.id}
+            className={`group p-3 rounded-lg border transition-colors ${
+              analysis.id === activeId
+                ? 'border-blue-500/50 bg-blue-600/10'
+                : 'border-slate-800 bg-slate-950 hover:border-slate-700'
+            }`}
+          >
+            {editingId === analysis.id ? (
+              <form onSubmit={commitRename} className="flex items-center gap-2">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={() => commitRename()}
+                  className="flex-1 bg-slate-800 text-slate-100 border border-slate-700 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <button type="submit" className="p-1 text-slate-400 hover:text-white">
+                  <Check className="w-4 h-4" />
+                </button>
+              </form>
+            ) : (
+              <div className="flex items-start justify-between gap-2">
+                <button onClick={() => onOpen(analysis)} className="flex-1 text-left min-w-0">
+                  <div className="text-sm font-medium text-slate-100 truncate">{analysis.title}</div>
+                  <div className="text-[11px] text-slate-500 mt-0.5">
+                    {analysis.data.timeline.length} events • {listConversations(analysis.companyName).length} conversations • {formatSavedAt(analysis.updatedAt)}
+                  </div>
+                </button>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startRename(analysis)}
+                    title="Rename"
+                    className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(analysis.id)}
+                    title="Delete"
+                    className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentAnalyses;
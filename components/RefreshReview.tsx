@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Check, X, RefreshCw, Lock, ArrowRight } from 'lucide-react';
+import { RefreshChange, RefreshProposal, TimelineEvent } from '../types';
+import { defaultRefreshSelection } from '../services/updateCheck';
+import { describeEdge } from '../services/ownership';
+
+interface RefreshReviewProps {
+  proposal: RefreshProposal;
+  onApply: (selected: Set<string>) => void;
+  onDismiss: () => void;
+}
+
+const eventLabel = (event: TimelineEvent) => `${event.dateStr || event.year} — ${event.title}`;
+
+const SECTIONS: { title: string; kinds: RefreshChange['kind'][] }[] = [
+  { title: 'New events', kinds: ['event-added'] },
+  { title: 'Changed dates', kinds: ['event-changed'] },
+  { title: 'Structure', kinds: ['node-added', 'node-changed', 'node-removed'] }
+];
+
+const describeChange = (change: RefreshChange): React.ReactNode => {
+  switch (change.kind) {
+    case 'event-added':
+      return <span className="text-emerald-300">+ {eventLabel(change.event)}</span>;
+    case 'event-changed':
+      return (
+        <span className="text-amber-300 inline-flex flex-wrap items-center gap-1">
+          ~ <span className="text-slate-400">{eventLabel(change.before)}</span>
+          <ArrowRight className="w-3 h-3" />
+          {change.after.dateStr || change.after.year}
+        </span>
+      );
+    case 'node-added':
+      return (
+        <span className="text-emerald-300">
+          + {change.node.name} <span className="text-slate-500">under {change.parent}</span>
+          {describeEdge(change.node) && <span className="text-slate-400"> ({describeEdge(change.node)})</span>}
+        </span>
+      );
+    case 'node-changed':
+      return (
+        <span className="text-amber-300 inline-flex flex-wrap items-center gap-1">
+          ~ {change.after.name}
+          <span className="text-slate-400">{describeEdge(change.before) || 'no ownership details'}</span>
+          <ArrowRight className="w-3 h-3" />
+          {describeEdge(change.after)}
+        </span>
+      );
+    case 'node-removed':
+      return (
+        <span className="text-red-300">
+          − {change.node.name} <span className="text-slate-500">no longer found under {change.parent}</span>
+        </span>
+      );
+  }
+};
+
+// Lets the user pick which differences from a fresh analysis to merge; hand-edited facts are locked
+const RefreshReview: React.FC<RefreshReviewProps> = ({ proposal, onApply, onDismiss }) => {
+  const [selected, setSelected] = useState(() => defaultRefreshSelection(proposal));
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectable = proposal.changes.filter((c) => !c.curated);
+
+  return (
+    <div className="bg-slate-900 border border-emerald-500/40 rounded-2xl p-5 shadow-lg shadow-emerald-950/30 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <RefreshCw className="w-4 h-4 text-emerald-400" />
+          <h3 className="font-semibold text-slate-100">
+            {proposal.changes.length === 0 ? 'No changes found' : `Update check found ${proposal.changes.length} difference${proposal.changes.length === 1 ? '' : 's'}`}
+          </h3>
+          {proposal.since && <span className="text-xs text-slate-500">since {proposal.since}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onDismiss}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+          >
+            <X className="w-4 h-4" /> Discard
+          </button>
+          <button
+            onClick={() => onApply(selected)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-emerald-600 text-white hover:bg-emerald-500 transition-colors"
+          >
+            <Check className="w-4 h-4" />
+            {selected.size === 0 ? 'Mark as verified' : `Apply ${selected.size} & mark verified`}
+          </button>
+        </div>
+      </div>
+
+      {proposal.changes.length === 0 ? (
+        <p className="text-sm text-slate-400">The fresh analysis matches this one. Marking it verified records today's date on every confirmed fact.</p>
+      ) : (
+        <>
+          {selectable.length > 1 && (
+            <div className="flex gap-3 mb-3 text-xs">
+              <button onClick={() => setSelected(new Set(selectable.map((c) => c.id)))} className="text-blue-300 hover:text-blue-200">Select all</button>
+              <button onClick={() => setSelected(new Set())} className="text-slate-400 hover:text-slate-200">Select none</button>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {SECTIONS.map(({ title, kinds }) => {
+              const changes = proposal.changes.filter((c) => kinds.includes(c.kind));
+              if (changes.length === 0) return null;
+              return (
+                <div key={title}>
+                  <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">{title}</h4>
+                  <ul className="space-y-1.5 text-sm">
+                    {changes.map((change) => (
+                      <li key={change.id}>
+                        <label className={`flex items-start gap-2 ${change.curated ? 'opacity-60' : 'cursor-pointer'}`}>
+                          {change.curated ? (
+                            <Lock className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-slate-500" />
+                          ) : (
+                            <input
+                              type="checkbox"
+                              checked={selected.has(change.id)}
+                              onChange={() => toggle(change.id)}
+                              className="mt-1 accent-emerald-500"
+                            />
+                          )}
+                          <span>
+                            {describeChange(change)}
+                            {change.curated && <span className="block text-[11px] text-slate-500">Kept: you edited this by hand</span>}
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RefreshReview;
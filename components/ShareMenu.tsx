@@ -0,0 +1,85 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Share2, Link, Package, Check, ChevronDown } from 'lucide-react';
+import { CompanyData } from '../types';
+import { buildSnapshotHash } from '../services/permalink';
+
+interface ShareMenuProps {
+  data: CompanyData;
+}
+
+// Links to the current view live in the address bar (see App); this copies them, optionally with
+// the data itself embedded so the link works on devices that never analyzed the company
+const ShareMenu: React.FC<ShareMenuProps> = ({ data }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async (label: string, withSnapshot: boolean) => {
+    setShareError(null);
+    setIsOpen(false);
+    try {
+      const { origin, pathname, search } = window.location;
+      const hash = withSnapshot ? await buildSnapshotHash(data) : '';
+      await navigator.clipboard.writeText(`${origin}${pathname}${search}${hash}`);
+      setCopied(label);
+    } catch (err: any) {
+      setShareError(err.message || "Could not copy the link.");
+    }
+  };
+
+  const items = [
+    { label: 'Copy link', hint: 'Opens this view; re-analyzes where it is not saved', icon: Link, withSnapshot: false },
+    { label: 'Copy snapshot link', hint: 'Embeds the current data in the link', icon: Package, withSnapshot: true }
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 transition-colors"
+      >
+        {copied ? <Check className="w-3 h-3 text-emerald-400" /> : <Share2 className="w-3 h-3" />}
+        {copied ? 'Copied' : 'Share'}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-30 py-1">
+          {items.map(({ label, hint, icon: Icon, withSnapshot }) => (
+            <button
+              key={label}
+              onClick={() => copy(label, withSnapshot)}
+              className="w-full flex items-start gap-2 px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white text-left"
+            >
+              <Icon className="w-4 h-4 mt-0.5 text-slate-500" />
+              <span>
+                {label}
+                <span className="block text-[11px] text-slate-500">{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      {shareError && (
+        <p className="absolute right-0 mt-2 w-64 text-xs text-red-300">{shareError}</p>
+      )}
+    </div>
+  );
+};
+
+export default ShareMenu;
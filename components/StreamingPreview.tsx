@@ -0,0 +1,66 @@
+import React from 'react';
+import { Loader2, XCircle, GitBranch } from 'lucide-react';
+import { PartialCompanyData } from '../types';
+import HistoryChart from './HistoryChart';
+import OrgChart from './OrgChart';
+
+interface StreamingPreviewProps {
+  partial: PartialCompanyData | null;
+  onCancel: () => void;
+}
+
+// Progressive view of an analysis while the model is still streaming
+const StreamingPreview: React.FC<StreamingPreviewProps> = ({ partial, onCancel }) => {
+  const hasContent = !!partial && (!!partial.summary || partial.timeline.length > 0 || !!partial.structure);
+
+  return (
+    <div className="flex-1 flex flex-col gap-6">
+      <div className={`flex items-center justify-center gap-4 ${hasContent ? '' : 'flex-1 flex-col space-y-4'}`}>
+        <div className={`${hasContent ? 'w-8 h-8' : 'w-16 h-16 animate-pulse'} rounded-full bg-slate-800/50 flex items-center justify-center`}>
+          <Loader2 className={`${hasContent ? 'w-4 h-4' : 'w-8 h-8'} text-blue-500 animate-spin`} />
+        </div>
+        <p className="text-slate-400">
+          {hasContent
+            ? `Receiving analysis... ${partial!.timeline.length} events so far`
+            : 'Gathering intelligence from the web...'}
+        </p>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+        >
+          <XCircle className="w-4 h-4" /> Cancel
+        </button>
+      </div>
+
+      {hasContent && (
+        <>
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-sm animate-fade-in">
+            <h2 className="text-3xl font-bold text-white mb-2">{partial!.companyName || '...'}</h2>
+            <p className="text-slate-300 leading-relaxed max-w-4xl">{partial!.summary}</p>
+          </div>
+
+          <div className="flex-1 min-h-[500px] bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden relative">
+            {partial!.timeline.length > 0 ? (
+              <HistoryChart data={partial!.timeline} />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-slate-500">Waiting for timeline events...</div>
+            )}
+          </div>
+
+          {partial!.structure ? (
+            <div className="h-[500px] shrink-0 bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden relative animate-fade-in">
+              <OrgChart data={partial!.structure} />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              <GitBranch className="w-4 h-4" />
+              The org structure will render once it has been fully received.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StreamingPreview;
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Search, ListOrdered, CalendarRange, FilterX, X } from 'lucide-react';
+import { TimelineEvent } from '../types';
+import { TIMELINE_CATEGORIES } from '../services/companyDataValidator';
+import { TimelineFilter, isDefaultFilter, DEFAULT_TIMELINE_FILTER } from '../services/timelineFilter';
+import { CATEGORY_COLORS } from './chartTheme';
+
+interface TimelineControlsProps {
+  data: TimelineEvent[]; // Unfiltered, so the legend and brush always show the full range
+  filter: TimelineFilter;
+  matchCount: number;
+  onChange: (filter: TimelineFilter) => void;
+}
+
+const BRUSH_HEIGHT = 28;
+
+const TimelineControls: React.FC<TimelineControlsProps> = ({ data, filter, matchCount, onChange }) => {
+  const brushRef = useRef<SVGSVGElement>(null);
+  const brushWrapperRef = useRef<HTMLDivElement>(null);
+  const [brushWidth, setBrushWidth] = useState(0);
+
+  const counts = useMemo(() => {
+    const map = new Map<TimelineEvent['category'], number>();
+    data.forEach((e) => map.set(e.category, (map.get(e.category) || 0) + 1));
+    return map;
+  }, [data]);
+
+  useEffect(() => {
+    if (!brushWrapperRef.current) return;
+    const resizeObserver = new ResizeObserver((entries) => {
+      if (entries[0]) setBrushWidth(entries[0].contentRect.width);
+    });
+    resizeObserver.observe(brushWrapperRef.current);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Overview strip: one tick per event across the full range; drag to select years
+  useEffect(() => {
+    if (!brushRef.current || brushWidth === 0 || data.length === 0) return;
+
+    const svg = d3.select(brushRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("width", brushWidth).attr("height", BRUSH_HEIGHT + 14);
+
+    const [minYear, maxYear] = d3.extent(data, (d) => d.year) as [number, number];
+    const x = d3.scaleLinear().domain([minYear, Math.max(maxYear, minYear + 1)]).range([6, brushWidth - 6]);
+
+    svg.append("g")
+      .selectAll("line")
+      .data(data)
+      .enter()
+      .append("line")
+      .attr("x1", (d) => x(d.year))
+      .attr("x2", (d) => x(d.year))
+      .attr("y1", 6)
+      .attr("y2", BRUSH_HEIGHT - 6)
+      .attr("stroke", (d) => CATEGORY_COLORS[d.category])
+      .attr("stroke-width", 2)
+      .attr("opacity", (d) => filter.hiddenCategories.includes(d.category) ? 0.2 : 0.9);
+
+    svg.append("g")
+      .attr("transform", `translate(0,${BRUSH_HEIGHT})`)
+      .call(d3.axisBottom(x).ticks(Math.min(10, Math.floor(brushWidth / 60))).tickFormat(d3.format("d")).tickSize(3) as any)
+      .call((axis: any) => axis.selectAll("text").attr("fill", "#64748b").attr("font-size", "9px"))
+      .call((axis: any) => axis.selectAll("line,path").attr("stroke", "#334155"));
+
+    const brush = d3.brushX()
+      .extent([[0, 0], [brushWidth, BRUSH_HEIGHT]])
+      .on("end", (event) => {
+        if (!event.sourceEvent) return; // Ignore programmatic moves below
+        if (!event.selection) {
+          onChange({ ...filter, yearRange: null });
+          return;
+        }
+        const [x0, x1] = event.selection as [number, number];
+        onChange({ ...filter, yearRange: [Math.round(x.invert(x0)), Math.round(x.invert(x1))] });
+      });
+
+    const brushG = svg.append("g").call(brush);
+    brushG.select(".selection").attr("fill", "#3b82f6").attr("fill-opacity", 0.15).attr("stroke", "#3b82f6");
+    if (filter.yearRange) {
+      brushG.call(brush.move, [x(filter.yearRange[0]), x(filter.yearRange[1])]);
+    }
+  }, [data, filter, brushWidth, onChange]);
+
+  const toggleCategory = (category: TimelineEvent['category']) => {
+    const hidden = filter.hiddenCategories.includes(category)
+      ? filter.hiddenCategories.filter((c) => c !== category)
+      : [...filter.hiddenCategories, category];
+    onChange({ ...filter, hiddenCategories: hidden });
+  };
+
+  const layoutButton = (layout: TimelineFilter['layout'], label: string, Icon: typeof ListOrdered) => (
+    <button
+      onClick={() => onChange({ ...filter, layout })}
+      title={label}
+      className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs transition-colors ${
+        filter.layout === layout ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+      }`}
+    >
+      <Icon className="w-3.5 h-3.5" /> {label}
+    </button>
+  );
+
+  return (
+    <div className="sticky top-0 z-10 -mx-4 -mt-4 mb-2 px-4 pt-4 pb-3 bg-slate-900/95 backdrop-blur border-b border-slate-800 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="absolute left-2.5 top-2 w-3.5 h-3.5 text-slate-500" />
+          <input
+            type="text"
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder="Search events..."
+            className="w-full pl-8 pr-16 py-1.5 bg-slate-950 border border-slate-700 rounded-lg text-xs text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          {filter.query && (
+            <span className="absolute right-2 top-1.5 flex items-center gap-1 text-[10px] text-slate-500">
+              {matchCount} found
+              <button onClick={() => onChange({ ...filter, query: '' })} className="hover:text-white">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+        </div>
+        <div className="flex items-center bg-slate-950 border border-slate-800 rounded-lg p-0.5">
+          {layoutButton('ordinal', 'Sequence', ListOrdered)}
+          {layoutButton('time', 'To scale', CalendarRange)}
+        </div>
+        {!isDefaultFilter(filter) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_TIMELINE_FILTER, layout: filter.layout })}
+            title="Clear filters"
+            className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+          >
+            <FilterX className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Legend doubles as the category filter */}
+      <div className="flex flex-wrap gap-1.5">
+        {TIMELINE_CATEGORIES.map((category) => {
+          const hidden = filter.hiddenCategories.includes(category);
+          return (
+            <button
+              key={category}
+              onClick={() => toggleCategory(category)}
+              className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-[11px] capitalize transition-opacity ${
+                hidden ? 'border-slate-800 text-slate-600 opacity-60' : 'border-slate-700 text-slate-300'
+              }`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: hidden ? '#334155' : CATEGORY_COLORS[category] }} />
+              {category}
+              <span className="text-slate-500">{counts.get(category) || 0}</span>
+            </button>
+          );
+        })}
+        {filter.yearRange && (
+          <span className="ml-auto text-[11px] text-blue-300">
+            {filter.yearRange[0]}–{filter.yearRange[1]}
+          </span>
+        )}
+      </div>
+
+      <div ref={brushWrapperRef}>
+        <svg ref={brushRef} className="block"></svg>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineControls;
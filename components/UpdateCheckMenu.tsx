@@ -0,0 +1,81 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RefreshCw, CalendarClock, ChevronDown, Loader2 } from 'lucide-react';
+import { inputClassName } from './Modal';
+
+interface UpdateCheckMenuProps {
+  isChecking: boolean;
+  lastVerified?: number; // Most recent check on this analysis, if any
+  onCheck: (since?: string) => void;
+}
+
+const UpdateCheckMenu: React.FC<UpdateCheckMenuProps> = ({ isChecking, lastVerified, onCheck }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [since, setSince] = useState(() =>
+    lastVerified ? new Date(lastVerified).toISOString().slice(0, 10) : ''
+  );
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const run = (sinceDate?: string) => {
+    setIsOpen(false);
+    onCheck(sinceDate);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isChecking}
+        title={lastVerified ? `Last checked ${new Date(lastVerified).toLocaleString()}` : undefined}
+        className="flex items-center gap-1.5 px-3 py-1 bg-slate-800 text-slate-300 text-xs rounded-full border border-slate-700 hover:bg-slate-700 disabled:opacity-60 transition-colors"
+      >
+        {isChecking ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+        {isChecking ? 'Checking...' : 'Check for updates'}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-30 py-1">
+          <button
+            onClick={() => run()}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white text-left"
+          >
+            <RefreshCw className="w-4 h-4 text-slate-500" />
+            Re-run the full analysis
+          </button>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (since) run(since);
+            }}
+            className="px-3 py-2 border-t border-slate-800"
+          >
+            <div className="flex items-center gap-2 text-sm text-slate-300 mb-2">
+              <CalendarClock className="w-4 h-4 text-slate-500" />
+              What changed since
+            </div>
+            <div className="flex gap-2">
+              <input type="date" value={since} onChange={(e) => setSince(e.target.value)} className={inputClassName} />
+              <button
+                type="submit"
+                disabled={!since}
+                className="px-3 rounded-lg text-xs bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+              >
+                Check
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpdateCheckMenu;
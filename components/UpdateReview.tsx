@@ -0,0 +1,42 @@
+import React from 'react';
+import { Check, X, Sparkles } from 'lucide-react';
+import { CompanyDataDiff } from '../types';
+import VersionDiff from './VersionDiff';
+
+interface UpdateReviewProps {
+  diff: CompanyDataDiff;
+  queuedCount: number; // Further proposals waiting behind this one
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const UpdateReview: React.FC<UpdateReviewProps> = ({ diff, queuedCount, onAccept, onReject }) => (
+  <div className="bg-slate-900 border border-blue-500/40 rounded-2xl p-5 shadow-lg shadow-blue-950/30 animate-fade-in">
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+      <div className="flex items-center gap-2">
+        <Sparkles className="w-4 h-4 text-blue-400" />
+        <h3 className="font-semibold text-slate-100">The assistant proposed an update</h3>
+        {queuedCount > 0 && (
+          <span className="text-xs text-slate-500">+{queuedCount} more queued</span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onReject}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+        >
+          <X className="w-4 h-4" /> Reject
+        </button>
+        <button
+          onClick={onAccept}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-500 transition-colors"
+        >
+          <Check className="w-4 h-4" /> Accept
+        </button>
+      </div>
+    </div>
+    <VersionDiff diff={diff} />
+  </div>
+);
+
+export default UpdateReview;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileJson, Sheet, TimerReset, Trash2 } from 'lucide-react';
+import Modal, { inputClassName, labelClassName } from './Modal';
+import {
+  UsageRecord, UsageTotals, UsageBudgets, BudgetWarning, currentUsageSession,
+  totalsByCompany, totalsBySession, totalUsage, checkBudgets, toUsageCsv, toUsageJson
+} from '../services/usageTracker';
+import { downloadText } from '../services/svgExport';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  budgets: UsageBudgets;
+  onBudgetsChange: (budgets: UsageBudgets) => void;
+  onClear: () => void;
+  onNewSession: () => void; // The session otherwise lasts as long as the browser tab
+  onClose: () => void;
+}
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 10_000 ? `${Math.round(tokens / 1000)}k` : tokens.toLocaleString();
+
+export const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+export const describeWarning = (warning: BudgetWarning): string =>
+  warning.scope === 'session'
+    ? `This session has used an estimated ${formatCost(warning.used)}, over its ${formatCost(warning.limit)} budget.`
+    : `${warning.key} has used ${formatTokens(warning.used)} tokens, over the ${formatTokens(warning.limit)} per-company budget.`;
+
+const TotalsTable: React.FC<{ rows: UsageTotals[]; label: string; highlight?: string }> = ({ rows, label, highlight }) => (
+  <table className="w-full text-xs">
+    <thead className="text-slate-500">
+      <tr>
+        <th className="text-left font-medium py-1">{label}</th>
+        <th className="text-right font-medium py-1">Calls</th>
+        <th className="text-right font-medium py-1">Tokens</th>
+        <th className="text-right font-medium py-1">Searches</th>
+        <th className="text-right font-medium py-1">Est. cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map((row) => (
+        <tr key={row.key} className={`border-t border-slate-800 ${row.key === highlight ? 'text-blue-300' : 'text-slate-300'}`}>
+          <td className="py-1.5 pr-2 truncate max-w-[10rem]" title={row.key}>{row.key}</td>
+          <td className="py-1.5 text-right tabular-nums">{row.calls}</td>
+          <td
+            className="py-1.5 text-right tabular-nums"
+            title={`Prompt ${row.promptTokens.toLocaleString()}, output ${row.candidateTokens.toLocaleString()}, tool ${row.toolTokens.toLocaleString()}, thinking ${row.thoughtTokens.toLocaleString()}`}
+          >
+            {formatTokens(row.totalTokens)}
+          </td>
+          <td className="py-1.5 text-right tabular-nums">{row.searchQueries}</td>
+          <td className="py-1.5 text-right tabular-nums">{formatCost(row.estimatedCost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Budget fields hold text while typing; an empty or non-positive value removes the budget
+const BudgetInput: React.FC<{ label: string; value?: number; step: string; onChange: (value?: number) => void }> = ({ label, value, step, onChange }) => {
+  const [text, setText] = useState(value ? String(value) : '');
+  return (
+    <label className="flex-1">
+      <span className={labelClassName}>{label}</span>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={text}
+        placeholder="No limit"
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = Number(e.target.value);
+          onChange(e.target.value && parsed > 0 ? parsed : undefined);
+        }}
+        className={inputClassName}
+      />
+    </label>
+  );
+};
+
+// Token usage and estimated cost per company and per session, with budgets and chargeback export
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, budgets, onBudgetsChange, onClear, onNewSession, onClose }) => {
+  const sessionId = currentUsageSession();
+  const session = totalUsage(records.filter((r) => r.sessionId === sessionId), sessionId);
+  const companies = totalsByCompany(records);
+  const sessions = totalsBySession(records);
+  const warnings = checkBudgets(records, budgets);
+  const simulated = records.some((r) => r.simulated);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Modal title="Usage and cost" onClose={onClose}>
+      <div className="space-y-5 max-h-[70vh] overflow-y-auto -mr-2 pr-2">
+        <div className="grid grid-cols-4 gap-2 text-center">
+          {[
+            ['Calls', String(session.calls)],
+            ['Tokens', formatTokens(session.totalTokens)],
+            ['Searches', String(session.searchQueries)],
+            ['Est. cost', formatCost(session.estimatedCost)]
+          ].map(([label, value]) => (
+            <div key={label} className="bg-slate-800/60 rounded-lg py-2">
+              <div className="text-lg font-semibold text-slate-100 tabular-nums">{value}</div>
+              <div className="text-[11px] text-slate-500">{label} this session</div>
+            </div>
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="space-y-1.5">
+            {warnings.map((warning) => (
+              <li key={`${warning.scope}:${warning.key}`} className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                {describeWarning(warning)}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-3">
+          <BudgetInput
+            label="Session budget (USD)"
+            step="0.01"
+            value={budgets.sessionCost}
+            onChange={(sessionCost) => onBudgetsChange({ ...budgets, sessionCost })}
+          />
+          <BudgetInput
+            label="Per-company budget (tokens)"
+            step="1000"
+            value={budgets.companyTokens}
+            onChange={(companyTokens) => onBudgetsChange({ ...budgets, companyTokens })}
+          />
+        </div>
+
+        {records.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-4">No model calls recorded yet.</p>
+        ) : (
+          <>
+            <TotalsTable rows={companies} label="Company" />
+            <TotalsTable rows={sessions} label="Session" highlight={sessionId} />
+          </>
+        )}
+
+        <p className="text-[11px] text-slate-500">
+          Costs are estimates from list prices and the token counts the model reports; cached results cost nothing.
+          {simulated && ' Calls made with the offline mock provider are simulated and free.'}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => downloadText(toUsageCsv(records), `usage-${stamp}.csv`, 'text/csv')}
+            disabled={records.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 hover:bg-slate-700 disabled:opacity-40 transition-colors"
+          >
+            <Sheet className="w-3.5 h-3.5" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => downloadText(toUsageJson(records), `usage-${stamp}.json`, 'application/json')}
+            disabled={records.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 hover:bg-slate-700 disabled:opacity-40 transition-colors"
+          >
+            <FileJson className="w-3.5 h-3.5" />
+            Export JSON
+          </button>
+          <button
+            onClick={onNewSession}
+            disabled={session.calls === 0}
+            title="Start counting this session's usage and budget from zero; earlier sessions stay in the totals"
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 hover:bg-slate-700 disabled:opacity-40 transition-colors"
+          >
+            <TimerReset className="w-3.5 h-3.5" />
+            New session
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Delete all recorded usage? Export it first if you need it for reporting.')) onClear();
+            }}
+            disabled={records.length === 0}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-xs text-slate-400 hover:text-red-300 disabled:opacity-40 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { CompanyDataDiff, TimelineEvent } from '../types';
+import { isEmptyDiff } from '../services/versionHistory';
+import { describeEdge } from '../services/ownership';
+
+interface VersionDiffProps {
+  diff: CompanyDataDiff;
+}
+
+const eventLabel = (event: TimelineEvent) => `${event.dateStr || event.year} — ${event.title}`;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">{title}</h4>
+    <ul className="space-y-1 text-sm">{children}</ul>
+  </div>
+);
+
+const VersionDiff: React.FC<VersionDiffProps> = ({ diff }) => {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-slate-500 italic">This update does not change the timeline or structure.</p>;
+  }
+
+  const { timeline, structure } = diff;
+  const hasTimelineChanges = timeline.added.length + timeline.removed.length + timeline.modified.length > 0;
+  const hasStructureChanges = structure.added.length + structure.removed.length + structure.moved.length + structure.modified.length > 0;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {hasTimelineChanges && (
+        <Section title="Timeline">
+          {timeline.added.map((event, idx) => (
+            <li key={`a-${idx}`} className="text-emerald-300">+ {eventLabel(event)}</li>
+          ))}
+          {timeline.removed.map((event, idx) => (
+            <li key={`r-${idx}`} className="text-red-300 line-through decoration-red-500/60">− {eventLabel(event)}</li>
+          ))}
+          {timeline.modified.map(({ before, after }, idx) => (
+            <li key={`m-${idx}`} className="text-amber-300 flex flex-wrap items-center gap-1">
+              ~ <span className="text-slate-400">{eventLabel(before)}</span>
+              <ArrowRight className="w-3 h-3" />
+              <span>{eventLabel(after)}</span>
+            </li>
+          ))}
+        </Section>
+      )}
+      {hasStructureChanges && (
+        <Section title="Structure">
+          {structure.added.map((node, idx) => (
+            <li key={`a-${idx}`} className="text-emerald-300">
+              + {node.name}{node.parent && <span className="text-slate-500"> under {node.parent}</span>}
+            </li>
+          ))}
+          {structure.removed.map((node, idx) => (
+            <li key={`r-${idx}`} className="text-red-300 line-through decoration-red-500/60">− {node.name}</li>
+          ))}
+          {structure.moved.map((move, idx) => (
+            <li key={`mv-${idx}`} className="text-sky-300 flex flex-wrap items-center gap-1">
+              ↦ {move.name}: <span className="text-slate-400">{move.fromParent || 'top level'}</span>
+              <ArrowRight className="w-3 h-3" />
+              <span>{move.toParent || 'top level'}</span>
+            </li>
+          ))}
+          {structure.modified.map(({ before, after }, idx) => (
+            <li key={`m-${idx}`} className="text-amber-300">
+              ~ {after.name}
+              {before.name !== after.name && <span className="text-slate-400"> (renamed from {before.name})</span>}
+              {before.role !== after.role && <span className="text-slate-400"> ({before.role} → {after.role})</span>}
+              {before.role === after.role && before.name === after.name && (
+                <span className="text-slate-400">
+                  {' '}({(before.description || '') !== (after.description || '') ? 'description' : describeEdge(after) || 'ownership'})
+                </span>
+              )}
+            </li>
+          ))}
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default VersionDiff;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { VersionHistory, VersionSource } from '../types';
+import { canUndo, canRedo, findVersion, diffCompanyData } from '../services/versionHistory';
+import VersionDiff from './VersionDiff';
+
+interface VersionPanelProps {
+  history: VersionHistory;
+  selectedVersionId: string | null;
+  onSelectVersion: (id: string | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  analysis: 'Analysis',
+  chat: 'AI assistant',
+  manual: 'Manual edit',
+  import: 'File import',
+  drilldown: 'Drill-down',
+  refresh: 'Update check'
+};
+
+// Undo/redo controls plus an optional before/after view of one version
+const VersionPanel: React.FC<VersionPanelProps> = ({ history, selectedVersionId, onSelectVersion, onUndo, onRedo }) => {
+  const selected = selectedVersionId ? findVersion(history, selectedVersionId) : null;
+
+  return (
+    <>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo(history)}
+          title="Undo"
+          className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo(history)}
+          title="Redo"
+          className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <select
+          value={selectedVersionId || ''}
+          onChange={(e) => onSelectVersion(e.target.value || null)}
+          className="bg-slate-900 border border-slate-700 rounded-lg text-xs text-slate-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          <option value="">Version {history.index + 1} of {history.versions.length}</option>
+          {history.versions.map((version, idx) => (
+            <option key={version.id} value={version.id}>
+              {idx === history.index ? '● ' : ''}v{idx + 1} · {version.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selected && (
+        <div className="fixed inset-x-0 bottom-0 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:bottom-6 w-full sm:w-[40rem] max-h-[60vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-t-2xl sm:rounded-2xl p-5 shadow-2xl z-40">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="font-semibold text-slate-100">{selected.version.label}</h3>
+              <p className="text-xs text-slate-500">
+                {SOURCE_LABELS[selected.version.source]} • {new Date(selected.version.createdAt).toLocaleString()}
+              </p>
+            </div>
+            <button
+              onClick={() => onSelectVersion(null)}
+              className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {selected.previous ? (
+            <VersionDiff diff={diffCompanyData(selected.previous.data, selected.version.data)} />
+          ) : (
+            <p className="text-sm text-slate-500 italic">Initial version — nothing to compare against.</p>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default VersionPanel;
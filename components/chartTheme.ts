@@ -0,0 +1,38 @@
+import { TimelineEvent, OrgNode, Confidence } from '../types';
+
+// Shared colors so every chart encodes categories the same way
+export const CATEGORY_COLORS: Record<TimelineEvent['category'], string> = {
+  founding: '#3b82f6',
+  product: '#10b981',
+  acquisition: '#f59e0b',
+  scandal: '#ef4444',
+  general: '#94a3b8'
+};
+
+export const ROLE_COLORS: Record<OrgNode['role'], string> = {
+  root: '#3b82f6',
+  parent: '#a855f7',
+  subsidiary: '#10b981',
+  department: '#06b6d4',
+  child: '#cbd5e1'
+};
+
+export const HIGHLIGHT_COLOR = '#f59e0b';
+
+// One per compared company, assigned in list order (MAX_COMPARED_COMPANIES of them)
+export const SERIES_COLORS = ['#38bdf8', '#a78bfa', '#f472b6', '#34d399'];
+
+export const seriesColor = (index: number) => SERIES_COLORS[index % SERIES_COLORS.length];
+
+export const LINK_COLOR = '#475569';
+export const CROSS_LINK_COLOR = '#f472b6'; // Ownership outside the tree (extra parents, JV partners)
+
+export const CONFIDENCE_COLORS: Record<Confidence, string> = {
+  high: '#10b981',
+  medium: '#eab308',
+  low: '#f97316'
+};
+
+// Badge color for facts that have sources but no grounding score (e.g. imported ones)
+export const SOURCED_COLOR = '#64748b';
+export const UNSOURCED_COLOR = '#f87171';
@@ -0,0 +1,101 @@
+import * as d3 from 'd3';
+import { OrgNode, OrgLayout } from '../types';
+
+export interface PlacedNode {
+  x: number;
+  y: number;
+  anchor: 'start' | 'middle' | 'end';
+  labelDx: number;
+  labelDy: number; // Baseline of the name; the role subtitle sits 15px lower
+}
+
+export interface OrgLayoutResult {
+  positions: Map<d3.HierarchyNode<OrgNode>, PlacedNode>;
+  linkPath: (source: d3.HierarchyNode<OrgNode>, target: d3.HierarchyNode<OrgNode>) => string;
+  badgeOffset: [number, number]; // Citation badge position relative to the node
+}
+
+// Node spacing is fixed rather than fitted to the container, so large trees grow
+// instead of overlapping; the chart's fit button scales them back into view.
+export const computeOrgLayout = (root: d3.HierarchyNode<OrgNode>, layout: OrgLayout): OrgLayoutResult => {
+  const positions = new Map<d3.HierarchyNode<OrgNode>, PlacedNode>();
+  const at = (n: d3.HierarchyNode<OrgNode>) => positions.get(n)!;
+
+  switch (layout) {
+    case 'vertical': {
+      const tree = d3.tree<OrgNode>().nodeSize([170, 110])(root);
+      tree.each((n) => positions.set(n, { x: n.x, y: n.y, anchor: 'middle', labelDx: 0, labelDy: 24 }));
+      const link = d3.linkVertical<unknown, [number, number]>();
+      return {
+        positions,
+        linkPath: (s, t) => link({ source: [at(s).x, at(s).y], target: [at(t).x, at(t).y] }) || '',
+        badgeOffset: [0, -18]
+      };
+    }
+
+    case 'radial': {
+      const leaves = root.leaves().length;
+      const radius = Math.max(root.height * 150, (leaves * 30) / (2 * Math.PI), 160);
+      const tree = d3.tree<OrgNode>()
+        .size([2 * Math.PI, radius])
+        .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(root);
+      const polar = new Map<d3.HierarchyNode<OrgNode>, [number, number]>();
+      tree.each((n) => {
+        polar.set(n, [n.x, n.y]);
+        const x = n.y * Math.cos(n.x - Math.PI / 2);
+        const y = n.y * Math.sin(n.x - Math.PI / 2);
+        const onRight = n.x < Math.PI;
+        positions.set(n, n.depth === 0
+          ? { x, y, anchor: 'middle', labelDx: 0, labelDy: 24 }
+          : { x, y, anchor: onRight ? 'start' : 'end', labelDx: onRight ? 10 : -10, labelDy: 3 });
+      });
+      const link = d3.linkRadial<unknown, [number, number]>().angle((p) => p[0]).radius((p) => p[1]);
+      return {
+        positions,
+        linkPath: (s, t) => link({ source: polar.get(s)!, target: polar.get(t)! }) || '',
+        badgeOffset: [0, -18]
+      };
+    }
+
+    case 'indented': {
+      let row = 0;
+      root.eachBefore((n) => {
+        positions.set(n, { x: n.depth * 28, y: row * 34, anchor: 'start', labelDx: 12, labelDy: 4 });
+        row += 1;
+      });
+      return {
+        positions,
+        linkPath: (s, t) => `M${at(s).x},${at(s).y}V${at(t).y}H${at(t).x}`,
+        badgeOffset: [-16, 0]
+      };
+    }
+
+    case 'horizontal':
+    default: {
+      const tree = d3.tree<OrgNode>().nodeSize([40, 230])(root);
+      tree.each((n) => positions.set(n, {
+        x: n.y,
+        y: n.x,
+        anchor: n.children ? 'end' : 'start',
+        labelDx: n.children ? -10 : 10,
+        labelDy: 3
+      }));
+      const link = d3.linkHorizontal<unknown, [number, number]>();
+      return {
+        positions,
+        linkPath: (s, t) => link({ source: [at(s).x, at(s).y], target: [at(t).x, at(t).y] }) || '',
+        badgeOffset: [0, -18]
+      };
+    }
+  }
+};
+
+// Where the root sits at scale 1 for "reset zoom"
+export const defaultOrigin = (layout: OrgLayout, width: number, height: number): [number, number] => {
+  switch (layout) {
+    case 'vertical': return [width / 2, 50];
+    case 'radial': return [width / 2, height / 2];
+    case 'indented': return [40, 40];
+    default: return [120, height / 2];
+  }
+};
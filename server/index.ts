@@ -0,0 +1,41 @@
+import { existsSync } from "node:fs";
+import { createProvider } from "../services/providers";
+import { createRateLimiter } from "./rateLimiter";
+import { createProxyServer } from "./proxyServer";
+
+// Local model proxy: the only process that sees GEMINI_API_KEY. LLM_PROVIDER=mock serves the
+// recorded fixtures instead, for running the app and its clients without a key or network.
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+const providerName = process.env.LLM_PROVIDER === 'mock' ? 'mock' : 'gemini';
+const provider = createProvider(providerName, process.env.LLM_MODEL);
+const port = numberFromEnv('PROXY_PORT', 8787);
+// Loopback only unless PROXY_HOST says otherwise: anyone who can reach the port spends the key
+const host = process.env.PROXY_HOST || '127.0.0.1';
+
+const server = createProxyServer({
+  provider,
+  rateLimiter: createRateLimiter({
+    perMinute: numberFromEnv('PROXY_RATE_LIMIT_PER_MINUTE', 30),
+    burst: numberFromEnv('PROXY_RATE_LIMIT_BURST', 10)
+  }),
+  cacheTtlMs: numberFromEnv('ANALYSIS_CACHE_TTL_MINUTES', 60) * 60_000
+});
+
+if (providerName === 'gemini' && !process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+  console.warn('GEMINI_API_KEY is not set; requests will fail until it is (or run with LLM_PROVIDER=mock).');
+}
+
+server.listen(port, host, () => {
+  console.log(`Model proxy for ${provider.displayName} listening on http://${host}:${port}/api`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
@@ -0,0 +1,377 @@
+import { createServer, IncomingMessage, ServerResponse, Server } from "node:http";
+import { randomUUID } from "node:crypto";
+import { LLMProvider, ProviderChat, ModelResponse, AnalyzeRequest, AnalysisTask, ChatTask, ChatTurn, ChatStreamHandlers } from "../services/providers";
+import { ProxyEvent, ProxyErrorBody, ProxyAnalyzeRequest, ProxyChatRequest } from "../services/providers/proxy";
+import { classifyError, isAbortError } from "../services/llmErrors";
+import { buildAnalyzeRequest, buildChatOptions } from "../services/prompts";
+import { parseAnalysis } from "../services/geminiService";
+import { MAX_COMPARED_COMPANIES } from "../services/comparison";
+import { RateLimiter } from "./rateLimiter";
+
+// HTTP front for an LLMProvider, spoken to by ProxyProvider. Analyses are cached and shared
+// between clients; chats are kept server-side because the provider's chat holds the history.
+
+export interface ProxyServerOptions {
+  provider: LLMProvider;
+  rateLimiter: RateLimiter;
+  cacheTtlMs: number; // 0 disables the analysis cache (identical in-flight requests are still shared)
+  log?: (line: string) => void;
+}
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 200;
+const MAX_CHAT_SESSIONS = 500;
+const MAX_REPAIRABLE_REPLIES = 200;
+const CHAT_IDLE_MS = 30 * 60_000;
+
+class HttpError extends Error {
+  status: number;
+  body: ProxyErrorBody;
+
+  constructor(status: number, body: ProxyErrorBody) {
+    super(body.message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const badRequest = (message: string) => new HttpError(400, { kind: 'unknown', message });
+
+const readJson = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, { kind: 'unknown', message: 'Request body too large' }));
+      req.destroy();
+    } else {
+      chunks.push(chunk);
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(badRequest('Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Replies are streamed as NDJSON; failures after the headers are sent become an 'error' event
+const openStream = (res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  return (event: ProxyEvent) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+};
+
+const toErrorBody = (error: unknown): ProxyErrorBody => {
+  const classified = classifyError(error);
+  return { kind: classified.kind, message: classified.message, retryAfterMs: classified.retryAfterMs };
+};
+
+// Behind the Vite dev proxy every request comes from localhost, so trust its forwarded address.
+// Only the last entry: the proxy appends the address it saw after whatever the client sent.
+const clientKey = (req: IncomingMessage): string => {
+  const remote = req.socket.remoteAddress || 'unknown';
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',').pop()!.trim();
+  const isLoopback = remote === '::1' || remote === '127.0.0.1' || remote === '::ffff:127.0.0.1';
+  return isLoopback && forwarded ? forwarded : remote;
+};
+
+// Aborted when the client disconnects before the reply is complete
+const disconnectSignal = (res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Prompts are built here from these fields, so anything else in a body is refused rather than
+// passed on; otherwise the proxy would relay any prompt on its API key
+const expectFields = (body: any, allowed: string[], expected: string) => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw badRequest(`Expected ${expected}`);
+  const unknown = Object.keys(body).filter((key) => !allowed.includes(key));
+  if (unknown.length) throw badRequest(`Unexpected ${unknown.join(', ')}; expected ${expected}`);
+};
+
+const MAX_NAME_LENGTH = 200;
+const isName = (value: unknown): value is string => isString(value) && !!value.trim() && value.length <= MAX_NAME_LENGTH;
+const isDate = (value: unknown): value is string => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const validateAnalyzeRequest = (body: any): ProxyAnalyzeRequest => {
+  const expected = '{ companyName, since?, repair? }';
+  expectFields(body, ['companyName', 'since', 'repair'], expected);
+  if (!isName(body.companyName) || (body.since !== undefined && !isDate(body.since)) || (body.repair !== undefined && typeof body.repair !== 'boolean')) {
+    throw badRequest(`Expected ${expected} with since as YYYY-MM-DD`);
+  }
+  return { companyName: body.companyName, since: body.since, repair: body.repair };
+};
+
+const validateChatTask = (body: any): ChatTask => {
+  const expected = '{ companyNames[], editable, history? }';
+  expectFields(body, ['companyNames', 'editable', 'history'], expected);
+  const names = body.companyNames;
+  if (!Array.isArray(names) || names.length === 0 || names.length > MAX_COMPARED_COMPANIES || !names.every(isName) || typeof body.editable !== 'boolean') {
+    throw badRequest(`Expected ${expected} with 1-${MAX_COMPARED_COMPANIES} company names`);
+  }
+  if (body.history !== undefined && !Array.isArray(body.history)) throw badRequest(`Expected ${expected}`);
+  const history = body.history
+    ?.filter((turn: any) => (turn?.role === 'user' || turn?.role === 'model') && isString(turn.text))
+    .map((turn: ChatTurn) => ({ role: turn.role, text: turn.text }));
+  return { companyNames: names, editable: body.editable, history };
+};
+
+// Function responses answer the session's own tools; the model reads them like any other input
+const validateChatRequest = (body: any, tools: Set<string>): ProxyChatRequest => {
+  if (body?.functionResponses !== undefined) {
+    expectFields(body, ['functionResponses'], '{ functionResponses[] }');
+    const valid = Array.isArray(body.functionResponses) && body.functionResponses.every((result: any) =>
+      result && tools.has(result.name) && (result.id === undefined || isString(result.id)) &&
+      result.response && typeof result.response === 'object' && Object.keys(result).every((key) => ['id', 'name', 'response'].includes(key)));
+    if (!valid) throw badRequest("Expected { functionResponses[] } answering this chat's tool calls");
+    return { functionResponses: body.functionResponses };
+  }
+  expectFields(body, ['message', 'context'], '{ message, context? } or { functionResponses[] }');
+  if (!isString(body.message) || (body.context !== undefined && !isString(body.context))) {
+    throw badRequest('Expected { message, context? } or { functionResponses[] }');
+  }
+  return { message: body.message, context: body.context };
+};
+
+interface SharedAnalysis {
+  response: Promise<ModelResponse>;
+  streamed: string; // Text so far, replayed to clients that join late
+  listeners: Set<(delta: string) => void>;
+  controller: AbortController; // Aborted once every client waiting on it has left
+}
+
+interface ChatSession {
+  chat: ProviderChat;
+  tools: Set<string>; // Names of the functions the model was offered
+  client: string;
+  lastUsedAt: number;
+  busy: boolean;
+}
+
+// Only the client whose request reached the model is billed for it
+const withoutUsage = ({ usage, ...response }: ModelResponse): ModelResponse => response;
+
+export const createProxyServer = ({ provider, rateLimiter, cacheTtlMs, log = console.log }: ProxyServerOptions): Server => {
+  const cache = new Map<string, { response: ModelResponse; fetchedAt: number }>();
+  const inFlight = new Map<string, SharedAnalysis>();
+  const sessions = new Map<string, ChatSession>();
+  // Clients price replies and key their caches by the model that actually answered
+  const withModel = (response: ModelResponse): ModelResponse => ({ ...response, model: response.model || provider.model });
+  // Last analysis text sent to each client, per company and date: the only thing a repair may quote
+  const lastReplies = new Map<string, string>();
+
+  // --- Analyze ---
+
+  const startAnalysis = (key: string, request: AnalyzeRequest): SharedAnalysis => {
+    const shared: SharedAnalysis = { response: null!, streamed: '', listeners: new Set(), controller: new AbortController() };
+    shared.response = provider.analyzeCompany(request, {
+      signal: shared.controller.signal,
+      onTextChunk: (delta) => {
+        shared.streamed += delta;
+        shared.listeners.forEach((listener) => listener(delta));
+      }
+    }).then(withModel).then((response) => {
+      // Blocked or empty replies are not worth keeping
+      if (cacheTtlMs > 0 && response.text.trim() && !response.blockReason) {
+        if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+        cache.set(key, { response, fetchedAt: Date.now() });
+      }
+      return response;
+    }).finally(() => {
+      if (inFlight.get(key) === shared) inFlight.delete(key);
+    });
+    inFlight.set(key, shared);
+    return shared;
+  };
+
+  const replyKey = (client: string, { companyName, since }: ProxyAnalyzeRequest) => JSON.stringify([client, companyName, since || '']);
+
+  const rememberReply = (key: string, text: string) => {
+    lastReplies.delete(key);
+    if (lastReplies.size >= MAX_REPAIRABLE_REPLIES) lastReplies.delete(lastReplies.keys().next().value!);
+    lastReplies.set(key, text);
+  };
+
+  // A repair quotes the reply this client got last, and the problem is found again here
+  const toTask = (body: ProxyAnalyzeRequest, client: string): AnalysisTask => {
+    const { companyName, since } = body;
+    if (!body.repair) return { companyName, since };
+    const previousReply = lastReplies.get(replyKey(client, body));
+    if (!previousReply) throw badRequest(`There is no earlier analysis of "${companyName}" to repair`);
+    try {
+      parseAnalysis(previousReply, companyName);
+    } catch (error: any) {
+      return { companyName, since, repair: { previousReply, problem: error?.message || String(error) } };
+    }
+    throw badRequest(`The last analysis of "${companyName}" is valid; there is nothing to repair`);
+  };
+
+  const analyze = async (req: IncomingMessage, res: ServerResponse, client: string, note: (text: string) => void) => {
+    const body = validateAnalyzeRequest(await readJson(req));
+    const request = buildAnalyzeRequest(toTask(body, client));
+    const key = JSON.stringify([provider.name, provider.model, request.systemInstruction, request.prompt]);
+    const emit = openStream(res);
+
+    const cached = cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt <= cacheTtlMs) {
+      note('cache hit');
+      rememberReply(replyKey(client, body), cached.response.text);
+      emit({ type: 'text', delta: cached.response.text });
+      emit({ type: 'done', response: withoutUsage(cached.response) });
+      res.end();
+      return;
+    }
+
+    const joined = inFlight.get(key);
+    note(joined ? 'shared' : 'cache miss');
+    const shared = joined || startAnalysis(key, request);
+    if (shared.streamed) emit({ type: 'text', delta: shared.streamed });
+    const listener = (delta: string) => emit({ type: 'text', delta });
+    shared.listeners.add(listener);
+    const signal = disconnectSignal(res);
+    signal.addEventListener('abort', () => {
+      shared.listeners.delete(listener);
+      if (shared.listeners.size === 0) {
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+        shared.controller.abort();
+      }
+    }, { once: true });
+
+    try {
+      const response = await shared.response;
+      if (!joined && response.usage) note(`${response.usage.totalTokens} tokens`);
+      rememberReply(replyKey(client, body), response.text);
+      emit({ type: 'done', response: joined ? withoutUsage(response) : response });
+    } catch (error) {
+      if (signal.aborted) return;
+      note(classifyError(error).kind);
+      emit({ type: 'error', error: toErrorBody(error) });
+    } finally {
+      shared.listeners.delete(listener);
+      res.end();
+    }
+  };
+
+  // --- Chat ---
+
+  const pruneSessions = () => {
+    const now = Date.now();
+    sessions.forEach((session, id) => {
+      if (!session.busy && now - session.lastUsedAt > CHAT_IDLE_MS) sessions.delete(id);
+    });
+  };
+
+  const createChat = async (req: IncomingMessage, res: ServerResponse, client: string) => {
+    const options = buildChatOptions(validateChatTask(await readJson(req)));
+    pruneSessions();
+    if (sessions.size >= MAX_CHAT_SESSIONS) {
+      throw new HttpError(503, { kind: 'rate-limit', message: 'Too many open chat sessions; retry in 60s', retryAfterMs: 60_000 });
+    }
+    let chat: ProviderChat;
+    try {
+      chat = provider.createChat(options);
+    } catch (error) {
+      throw new HttpError(502, toErrorBody(error));
+    }
+    const sessionId = randomUUID();
+    const tools = new Set(options.functionDeclarations.map((declaration) => declaration.name!));
+    sessions.set(sessionId, { chat, tools, client, lastUsedAt: Date.now(), busy: false });
+    sendJson(res, 201, { sessionId });
+  };
+
+  const chatTurn = async (req: IncomingMessage, res: ServerResponse, client: string, sessionId: string, note: (text: string) => void) => {
+    const session = sessions.get(sessionId);
+    // Sessions are private to the client that opened them
+    if (!session || session.client !== client) {
+      throw new HttpError(404, { kind: 'unknown', message: 'This chat session has expired on the server. Start a new conversation.' });
+    }
+    if (session.busy) throw new HttpError(409, { kind: 'unknown', message: 'A reply is still being generated in this chat.' });
+    const body = validateChatRequest(await readJson(req), session.tools);
+
+    session.busy = true;
+    const emit = openStream(res);
+    const handlers: ChatStreamHandlers = {
+      onTextChunk: (delta) => emit({ type: 'text', delta }),
+      onSearch: (queries) => emit({ type: 'search', queries }),
+      signal: disconnectSignal(res)
+    };
+    try {
+      const response = body.functionResponses
+        ? await session.chat.sendFunctionResponses(body.functionResponses, handlers)
+        : await session.chat.sendMessage(body.message!, handlers, body.context);
+      emit({ type: 'done', response: withModel(response) });
+    } catch (error) {
+      if (isAbortError(error) || handlers.signal!.aborted) return;
+      note(classifyError(error).kind);
+      emit({ type: 'error', error: toErrorBody(error) });
+    } finally {
+      session.busy = false;
+      session.lastUsedAt = Date.now();
+      res.end();
+    }
+  };
+
+  // --- Routing ---
+
+  return createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const client = clientKey(req);
+    const path = (req.url || '/').split('?')[0];
+    const notes: string[] = [];
+    res.on('close', () => {
+      const aborted = res.writableFinished ? '' : ' (client left)';
+      log(`${new Date().toISOString()} ${client} ${req.method} ${path} ${res.statusCode} ${Date.now() - startedAt}ms${notes.length ? ` ${notes.join(', ')}` : ''}${aborted}`);
+    });
+    const note = (text: string) => notes.push(text);
+
+    try {
+      if (req.method === 'GET' && path === '/api/health') {
+        return sendJson(res, 200, { ok: true, provider: provider.name, model: provider.model });
+      }
+      if (req.method !== 'POST') throw new HttpError(404, { kind: 'unknown', message: `No route for ${req.method} ${path}` });
+
+      const chatMatch = path.match(/^\/api\/chat\/([\w-]+)$/);
+      if (path !== '/api/analyze' && path !== '/api/chat' && !chatMatch) {
+        throw new HttpError(404, { kind: 'unknown', message: `No route for ${req.method} ${path}` });
+      }
+      const limit = rateLimiter.take(client);
+      if (!limit.allowed) {
+        const seconds = Math.ceil(limit.retryAfterMs / 1000);
+        // The wording matches what classifyError parses for Gemini's own rate limits
+        throw new HttpError(429, { kind: 'rate-limit', message: `Too many requests from this client. Please retry in ${seconds}s.`, retryAfterMs: limit.retryAfterMs });
+      }
+
+      if (path === '/api/analyze') await analyze(req, res, client, note);
+      else if (path === '/api/chat') await createChat(req, res, client);
+      else await chatTurn(req, res, client, chatMatch![1], note);
+    } catch (error) {
+      const httpError = error instanceof HttpError ? error : new HttpError(500, toErrorBody(error));
+      note(httpError.message);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const headers: Record<string, string> = httpError.body.retryAfterMs
+        ? { 'Retry-After': String(Math.ceil(httpError.body.retryAfterMs / 1000)) }
+        : {};
+      sendJson(res, httpError.status, { error: httpError.body }, headers);
+    }
+  });
+};
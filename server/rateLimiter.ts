@@ -0,0 +1,45 @@
+// Token bucket per client: `burst` requests at once, refilled at `perMinute`
+
+export interface RateLimitOptions {
+  perMinute: number;
+  burst: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take(clientKey: string): RateLimitResult;
+}
+
+const IDLE_BUCKET_MS = 10 * 60_000; // Full buckets untouched this long are dropped
+
+export const createRateLimiter = ({ perMinute, burst }: RateLimitOptions): RateLimiter => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = perMinute / 60_000;
+
+  const prune = (now: number) => {
+    buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt > IDLE_BUCKET_MS) buckets.delete(key);
+    });
+  };
+
+  return {
+    take(clientKey: string) {
+      if (perMinute <= 0) return { allowed: true, retryAfterMs: 0 }; // Disabled
+      const now = Date.now();
+      if (buckets.size > 1000) prune(now);
+      const bucket = buckets.get(clientKey) || { tokens: burst, updatedAt: now };
+      bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(clientKey, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { CompanyData } from "../../types";
+
+// A small, fully populated analysis: attribution, edge fields, cross-links and a nested tree
+export const ACME: CompanyData = {
+  companyName: "Acme Corp",
+  summary: "Maker of anvils, rockets and other desert equipment.",
+  timeline: [
+    {
+      id: "evt-ipo",
+      year: 1985,
+      dateStr: "March 1985",
+      title: "Goes public",
+      description: "Listed on the NYSE.",
+      category: "general",
+      sourceUris: ["https://news.example/ipo"],
+      confidence: "high"
+    },
+    { id: "evt-found", year: 1949, title: "Founded", description: "Started in a garage.", category: "founding" },
+    {
+      id: "evt-buy",
+      year: 1972,
+      title: "Buys Roadrunner, Inc.",
+      description: 'The "beep beep" deal,\nsigned in two parts | closed later.',
+      category: "acquisition",
+      sourceUris: ["https://news.example/deal", "https://unlisted.example/x"],
+      confidence: "medium"
+    }
+  ],
+  structure: {
+    id: "node-acme",
+    name: "Acme Corp",
+    role: "root",
+    sourceUris: ["https://news.example/ipo"],
+    children: [
+      {
+        id: "node-anvils",
+        name: "Acme Anvils",
+        role: "subsidiary",
+        description: "Heavy goods",
+        relationship: "wholly-owned",
+        children: [{ id: "node-forge", name: "Acme Forge", role: "department" }]
+      },
+      {
+        id: "node-jv",
+        name: "Desert Rockets JV",
+        role: "subsidiary",
+        relationship: "joint-venture",
+        ownershipPercent: 50,
+        crossLinks: [{ target: "Coyote Holdings", relationship: "joint-venture", ownershipPercent: 50 }]
+      }
+    ]
+  },
+  sources: [
+    { title: "IPO coverage", uri: "https://news.example/ipo" },
+    { title: "Deal announcement", uri: "https://news.example/deal" }
+  ]
+};
@@ -0,0 +1,62 @@
+// Model replies for the parser and validator tests, trimmed from real failures.
+// Each is the raw text the provider returned, fences and prose included.
+
+const fenced = (json: unknown) => "Here is the analysis:\n```json\n" + JSON.stringify(json, null, 2) + "\n```";
+
+export const VALID_OUTPUT = fenced({
+  companyName: "Acme Corp",
+  summary: "Maker of anvils.",
+  timeline: [
+    { year: 1949, title: "Founded", description: "Started in a garage.", category: "founding" },
+    { year: 1972, title: "Buys Roadrunner Inc.", description: "First acquisition.", category: "acquisition" }
+  ],
+  structure: {
+    name: "Acme Corp",
+    role: "root",
+    children: [{ name: "Acme Anvils", role: "subsidiary", relationship: "wholly-owned" }]
+  }
+});
+
+export const MALFORMED_OUTPUTS = {
+  // The stream stopped mid-event
+  truncated: '```json\n{"companyName": "Acme Corp", "summary": "Maker of anvils.", "timeline": [{"year": 1949, "title": "Foun',
+  // Closing fence and brace never arrived
+  truncatedAfterTimeline: '{"companyName": "Acme Corp", "timeline": [{"year": 1949, "title": "Founded"}], "structure": {"name": "Acme',
+  noJson: "I could not find reliable information about this company.",
+  proseWrapped: 'Sure! {"companyName": "Acme Corp", "timeline": [], "structure": {"name": "Acme Corp"}} Let me know if you need more.',
+
+  // Wrong types the validator repairs
+  stringYears: fenced({
+    companyName: "Acme Corp",
+    timeline: [
+      { year: "1949", title: "Founded", category: "founding" },
+      { year: "c. 1972", title: "Buys Roadrunner Inc." },
+      { year: null, dateStr: "March 1985", title: "Goes public" }
+    ],
+    structure: { name: "Acme Corp" }
+  }),
+  unknownCategoryAndRole: fenced({
+    companyName: "Acme Corp",
+    timeline: [{ year: 1949, title: "Founded", category: "Origin Story" }],
+    structure: { name: "Acme Corp", role: "HQ", children: [{ name: "Acme Anvils", role: "division" }] }
+  }),
+  emptyNodes: fenced({
+    companyName: "Acme Corp",
+    timeline: [],
+    structure: { name: "Acme Corp", children: [{ name: "" }, null, "Acme Anvils", { name: "Acme Rockets" }] }
+  }),
+  nullTimeline: fenced({ companyName: "Acme Corp", timeline: null, structure: { name: "Acme Corp" } }),
+  numericName: fenced({ companyName: 3, timeline: [], structure: { name: 3 } }),
+
+  // Wrong types and missing fields it rejects
+  missingStructure: fenced({ companyName: "Acme Corp", timeline: [] }),
+  structureString: fenced({ companyName: "Acme Corp", timeline: [], structure: "Acme Corp" }),
+  rootWithoutName: fenced({ companyName: "Acme Corp", timeline: [], structure: { role: "root" } }),
+  childrenObject: fenced({ companyName: "Acme Corp", timeline: [], structure: { name: "Acme Corp", children: { name: "Acme Anvils" } } }),
+  timelineObject: fenced({ companyName: "Acme Corp", timeline: { "0": { year: 1949, title: "Founded" } }, structure: { name: "Acme Corp" } }),
+  timelineString: fenced({ companyName: "Acme Corp", timeline: "No notable events.", structure: { name: "Acme Corp" } }),
+  eventWithoutTitle: fenced({ companyName: "Acme Corp", timeline: [{ year: 1949 }], structure: { name: "Acme Corp" } }),
+  eventWithoutYear: fenced({ companyName: "Acme Corp", timeline: [{ year: 1949, title: "Founded" }, { year: "unknown", title: "Moved" }], structure: { name: "Acme Corp" } }),
+  eventString: fenced({ companyName: "Acme Corp", timeline: ["1949: Founded"], structure: { name: "Acme Corp" } }),
+  arrayRoot: "```json\n[{\"companyName\": \"Acme Corp\"}]\n```"
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CompanyData } from '../types';
+import { fetchCompanyDataCached, clearAnalysisCache, setAnalysisCacheTtl, analysisCacheKey } from './analysisCache';
+import { setProvider, LLMProvider } from './providers';
+import { MockProvider } from './providers/mock';
+import { ACME } from './__fixtures__/companyData';
+
+// The model call is replaced by one the test settles by hand
+const calls = vi.hoisted(() => [] as { signal?: AbortSignal; resolve: (data: CompanyData) => void; reject: (error: unknown) => void }[]);
+
+vi.mock('./geminiService', () => ({
+  fetchCompanyData: vi.fn((_name: string, options: { signal?: AbortSignal } = {}) => new Promise<CompanyData>((resolve, reject) => {
+    calls.push({ signal: options.signal, resolve, reject });
+  }))
+}));
+
+const isAbort = (error: unknown) => (error as Error)?.name === 'AbortError';
+
+beforeEach(() => {
+  // A provider that knows its model, so requests start without a lookup
+  setProvider(new MockProvider('gemini-2.5-flash'));
+  calls.length = 0;
+  clearAnalysisCache();
+  setAnalysisCacheTtl(60);
+});
+
+describe('fetchCompanyDataCached', () => {
+  it('shares one request between concurrent callers and caches the result', async () => {
+    const first = fetchCompanyDataCached('Acme');
+    const second = fetchCompanyDataCached(' acme ');
+    expect(calls).toHaveLength(1);
+    calls[0].resolve(ACME);
+    expect((await first).fromCache).toBe(false);
+    expect((await second).data).toBe(ACME);
+
+    const third = await fetchCompanyDataCached('ACME');
+    expect(third).toMatchObject({ fromCache: true, data: { companyName: 'Acme Corp' } });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('keeps the request going for the others when one caller cancels', async () => {
+    const leaving = new AbortController();
+    const first = fetchCompanyDataCached('Acme', { signal: leaving.signal });
+    const second = fetchCompanyDataCached('Acme');
+
+    leaving.abort();
+    await expect(first).rejects.toSatisfy(isAbort);
+    expect(calls[0].signal?.aborted).toBe(false);
+
+    calls[0].resolve(ACME);
+    expect((await second).data).toBe(ACME);
+  });
+
+  it('aborts the request when the last caller leaves, and hands that caller its outcome', async () => {
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = fetchCompanyDataCached('Acme', { signal: a.signal });
+    const second = fetchCompanyDataCached('Acme', { signal: b.signal });
+
+    b.abort();
+    await expect(second).rejects.toSatisfy(isAbort);
+    a.abort();
+    expect(calls[0].signal?.aborted).toBe(true);
+
+    // The interrupted stream's own error (carrying any partial result) reaches the last caller
+    const interrupted = new Error('Analysis cancelled');
+    calls[0].reject(interrupted);
+    await expect(first).rejects.toBe(interrupted);
+  });
+
+  it('starts a new request once an abandoned one is aborted', async () => {
+    const leaving = new AbortController();
+    const first = fetchCompanyDataCached('Acme', { signal: leaving.signal });
+    leaving.abort();
+    calls[0].reject(new Error('cancelled'));
+    await expect(first).rejects.toThrow('cancelled');
+
+    const next = fetchCompanyDataCached('Acme');
+    expect(calls).toHaveLength(2);
+    calls[1].resolve(ACME);
+    expect((await next).data).toBe(ACME);
+  });
+
+  it('rejects an already aborted caller without starting a waiter', async () => {
+    const done = new AbortController();
+    done.abort();
+    const other = fetchCompanyDataCached('Acme');
+    await expect(fetchCompanyDataCached('Acme', { signal: done.signal })).rejects.toSatisfy(isAbort);
+    expect(calls[0].signal?.aborted).toBe(false);
+    calls[0].resolve(ACME);
+    await other;
+  });
+
+  it('bypasses the cache when asked', async () => {
+    const first = fetchCompanyDataCached('Acme');
+    calls[0].resolve(ACME);
+    await first;
+    const refreshed = fetchCompanyDataCached('Acme', { bypassCache: true });
+    expect(calls).toHaveLength(2);
+    calls[1].resolve({ ...ACME, summary: 'Updated' });
+    expect((await refreshed).data.summary).toBe('Updated');
+    expect((await fetchCompanyDataCached('Acme')).data.summary).toBe('Updated');
+  });
+
+  it('keys entries by the model the proxy reports, not the configured one', async () => {
+    let model = 'configured-model';
+    const proxy = {
+      name: 'proxy',
+      get model() { return model; },
+      displayName: 'Proxy',
+      resolveModel: async () => (model = 'served-model')
+    } as LLMProvider;
+    setProvider(proxy);
+
+    const pending = fetchCompanyDataCached('Acme');
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].resolve(ACME);
+    await pending;
+    expect(analysisCacheKey('Acme')).toContain('proxy:served-model');
+    expect((await fetchCompanyDataCached('Acme')).fromCache).toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+import { CompanyData } from "../types";
+import { fetchCompanyData, FetchCompanyOptions } from "./geminiService";
+import { ANALYSIS_PROMPT_VERSION } from "./prompts";
+import { getProvider } from "./providers";
+import { normalizeCompanyData } from "./companyDataValidator";
+import { logger } from "./logger";
+
+export interface CachedAnalysis {
+  data: CompanyData;
+  fetchedAt: number;
+  fromCache: boolean; // False when this call hit the model (or joined a request that did)
+}
+
+export interface CachedFetchOptions extends FetchCompanyOptions {
+  bypassCache?: boolean; // Always call the model, then refresh the cache with the result
+}
+
+interface CacheEntry {
+  data: CompanyData;
+  fetchedAt: number;
+}
+
+const STORAGE_PREFIX = "corporate-chronicles:analysis-cache:";
+const MAX_ENTRIES = 30;
+const DEFAULT_TTL_MINUTES = 60;
+
+const configuredTtl = Number(process.env.ANALYSIS_CACHE_TTL_MINUTES);
+let ttlMs = (Number.isFinite(configuredTtl) && configuredTtl >= 0 ? configuredTtl : DEFAULT_TTL_MINUTES) * 60_000;
+
+// 0 disables caching (in-flight requests are still shared)
+export const setAnalysisCacheTtl = (minutes: number) => {
+  ttlMs = Math.max(0, minutes) * 60_000;
+};
+
+// "Apple", "apple " and "APPLE" share an entry; the prompt version and model invalidate old ones
+export const analysisCacheKey = (companyName: string, since?: string): string => {
+  const provider = getProvider();
+  const name = companyName.trim().toLowerCase().replace(/\s+/g, ' ');
+  return [name, since || '', `v${ANALYSIS_PROMPT_VERSION}`, `${provider.name}:${provider.model}`].join('|');
+};
+
+// --- Storage ---
+
+// localStorage when available so the cache survives reloads; a Map otherwise (and in Node)
+const memory = new Map<string, CacheEntry>();
+
+const storage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const readEntry = (key: string): CacheEntry | undefined => {
+  const store = storage();
+  if (!store) return memory.get(key);
+  try {
+    const raw = store.getItem(STORAGE_PREFIX + key);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw);
+    const sources = Array.isArray(parsed.data?.sources) ? parsed.data.sources : [];
+    return { data: { ...normalizeCompanyData(parsed.data), sources }, fetchedAt: Number(parsed.fetchedAt) || 0 };
+  } catch {
+    store.removeItem(STORAGE_PREFIX + key);
+    return undefined;
+  }
+};
+
+const storedKeys = (store: Storage): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < store.length; i++) {
+    const key = store.key(i);
+    if (key?.startsWith(STORAGE_PREFIX)) keys.push(key);
+  }
+  return keys;
+};
+
+// Drops expired entries, then the oldest ones beyond MAX_ENTRIES
+const prune = (store: Storage) => {
+  const entries = storedKeys(store).map((key) => {
+    try {
+      return { key, fetchedAt: Number(JSON.parse(store.getItem(key) || '{}').fetchedAt) || 0 };
+    } catch {
+      return { key, fetchedAt: 0 };
+    }
+  }).sort((a, b) => b.fetchedAt - a.fetchedAt);
+  const now = Date.now();
+  entries.forEach((entry, idx) => {
+    if (idx >= MAX_ENTRIES || now - entry.fetchedAt > ttlMs) store.removeItem(entry.key);
+  });
+};
+
+const writeEntry = (key: string, entry: CacheEntry) => {
+  const store = storage();
+  if (!store) {
+    memory.set(key, entry);
+    return;
+  }
+  try {
+    prune(store);
+    store.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+  } catch (err) {
+    // Quota exceeded: caching is an optimization, so carry on without it
+    logger.warn("Could not cache analysis", err);
+  }
+};
+
+export const clearAnalysisCache = () => {
+  memory.clear();
+  const store = storage();
+  if (store) storedKeys(store).forEach((key) => store.removeItem(key));
+};
+
+// --- Fetching ---
+
+// One model request shared by every caller asking for the same key at the same time
+interface SharedFetch {
+  request: Promise<CacheEntry>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, SharedFetch>();
+
+// A caller that aborts stops waiting on its own. The request is aborted only when its last
+// waiter leaves, and that waiter gets its outcome (the partial result of the interrupted stream).
+const join = (key: string, shared: SharedFetch, signal?: AbortSignal): Promise<CacheEntry> => {
+  if (signal?.aborted) return Promise.reject(new DOMException("Aborted", "AbortError"));
+  shared.waiters++;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      shared.waiters--;
+      if (shared.waiters > 0) return reject(new DOMException("Aborted", "AbortError"));
+      if (inFlight.get(key) === shared) inFlight.delete(key);
+      shared.controller.abort();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    shared.request.then(resolve, reject).finally(() => signal?.removeEventListener("abort", onAbort));
+  });
+};
+
+// fetchCompanyData behind a TTL cache. Concurrent calls for the same key share one model
+// request; only the first caller's onProgress reaches it.
+export const fetchCompanyDataCached = async (companyName: string, options: CachedFetchOptions = {}): Promise<CachedAnalysis> => {
+  const { bypassCache, signal, ...fetchOptions } = options;
+  // The proxy's model is part of the key, so learn it first
+  const provider = getProvider();
+  if (provider.resolveModel) await provider.resolveModel();
+  const key = analysisCacheKey(companyName, options.since);
+
+  if (!bypassCache) {
+    const cached = readEntry(key);
+    if (cached && Date.now() - cached.fetchedAt <= ttlMs) {
+      return { data: cached.data, fetchedAt: cached.fetchedAt, fromCache: true };
+    }
+  }
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const request = fetchCompanyData(companyName, { ...fetchOptions, signal: controller.signal }).then((data) => {
+      const entry = { data, fetchedAt: Date.now() };
+      if (ttlMs > 0) writeEntry(key, entry);
+      return entry;
+    });
+    const started: SharedFetch = { request, controller, waiters: 0 };
+    request
+      .finally(() => {
+        if (inFlight.get(key) === started) inFlight.delete(key);
+      })
+      .catch(() => {}); // Each waiter handles the failure
+    inFlight.set(key, started);
+    shared = started;
+  }
+  const entry = await join(key, shared, signal);
+  return { ...entry, fromCache: false };
+};
@@ -0,0 +1,167 @@
+import { SavedAnalysis, ChatMessage } from "../types";
+import { migrateEntityIds } from "./entityIds";
+import { logger } from "./logger";
+
+// Persists analyses in IndexedDB, falling back to localStorage where IndexedDB
+// cannot be opened (private browsing, some embedded webviews). Errors after that
+// are reported to the caller rather than switching stores mid-session.
+
+const DB_NAME = "corporate-chronicles";
+const STORE_NAME = "analyses";
+const LOCAL_STORAGE_KEY = "corporate-chronicles:analyses";
+
+interface AnalysisBackend {
+  getAll(): Promise<SavedAnalysis[]>;
+  get(id: string): Promise<SavedAnalysis | undefined>;
+  put(record: SavedAnalysis): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class IndexedDBBackend implements AnalysisBackend {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  // Rejects when the database cannot be opened at all
+  static open(): Promise<IndexedDBBackend> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(new IndexedDBBackend(request.result));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return this.db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async getAll(): Promise<SavedAnalysis[]> {
+    return requestToPromise((await this.store("readonly")).getAll());
+  }
+
+  async get(id: string): Promise<SavedAnalysis | undefined> {
+    return requestToPromise((await this.store("readonly")).get(id));
+  }
+
+  async put(record: SavedAnalysis): Promise<void> {
+    await requestToPromise((await this.store("readwrite")).put(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    await requestToPromise((await this.store("readwrite")).delete(id));
+  }
+}
+
+// JSON round-trips turn Date into strings; restore chat timestamps on read
+const reviveTranscript = (transcript: ChatMessage[]): ChatMessage[] =>
+  transcript.map((msg) => ({ ...msg, timestamp: new Date(msg.timestamp) }));
+
+class LocalStorageBackend implements AnalysisBackend {
+  private readAll(): Record<string, SavedAnalysis> {
+    try {
+      const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+      const records: Record<string, SavedAnalysis> = raw ? JSON.parse(raw) : {};
+      for (const record of Object.values(records)) {
+        if (record.transcript) record.transcript = reviveTranscript(record.transcript);
+      }
+      return records;
+    } catch (e) {
+      logger.error("Failed to read saved analyses", e);
+      return {};
+    }
+  }
+
+  private writeAll(records: Record<string, SavedAnalysis>) {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(records));
+  }
+
+  async getAll(): Promise<SavedAnalysis[]> {
+    return Object.values(this.readAll());
+  }
+
+  async get(id: string): Promise<SavedAnalysis | undefined> {
+    return this.readAll()[id];
+  }
+
+  async put(record: SavedAnalysis): Promise<void> {
+    const records = this.readAll();
+    records[record.id] = record;
+    this.writeAll(records);
+  }
+
+  async delete(id: string): Promise<void> {
+    const records = this.readAll();
+    delete records[id];
+    this.writeAll(records);
+  }
+}
+
+const local = new LocalStorageBackend();
+let backend: Promise<AnalysisBackend> | null = null;
+
+// Chosen once per session, when IndexedDB is first opened
+const getBackend = (): Promise<AnalysisBackend> => {
+  if (!backend) {
+    backend = typeof indexedDB === "undefined"
+      ? Promise.resolve(local)
+      : IndexedDBBackend.open().catch((e) => {
+          logger.warn("IndexedDB unavailable, falling back to localStorage", e);
+          return local;
+        });
+  }
+  return backend;
+};
+
+// Records a fallback session left in localStorage stay visible once IndexedDB works again;
+// the most recently updated copy of a record wins
+const newer = (a: SavedAnalysis | undefined, b: SavedAnalysis | undefined) =>
+  !a || (b && b.updatedAt > a.updatedAt) ? b : a;
+
+export const createAnalysisId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Most recently updated first
+export const listAnalyses = async (): Promise<SavedAnalysis[]> => {
+  const primary = await getBackend();
+  const records = new Map((await primary.getAll()).map((record) => [record.id, record]));
+  if (primary !== local) {
+    (await local.getAll()).forEach((record) => records.set(record.id, newer(records.get(record.id), record)!));
+  }
+  return Array.from(records.values()).map(migrateEntityIds).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getAnalysis = async (id: string): Promise<SavedAnalysis | undefined> => {
+  const primary = await getBackend();
+  let record = await primary.get(id);
+  if (primary !== local) record = newer(record, await local.get(id));
+  return record && migrateEntityIds(record);
+};
+
+export const saveAnalysis = async (record: SavedAnalysis): Promise<SavedAnalysis> => {
+  const saved = { ...record, updatedAt: Date.now() };
+  await (await getBackend()).put(saved);
+  return saved;
+};
+
+export const renameAnalysis = async (id: string, title: string): Promise<SavedAnalysis | undefined> => {
+  const record = await getAnalysis(id);
+  if (!record) return undefined;
+  return saveAnalysis({ ...record, title: title.trim() || record.companyName });
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  const primary = await getBackend();
+  await primary.delete(id);
+  if (primary !== local && (await local.get(id))) await local.delete(id);
+};
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CompanyData } from '../types';
+import { BatchRun, BatchFetcher, BatchRow, parseBatchNames, toBatchCsv, toBatchJson } from './batchRunner';
+import { LLMError } from './llmErrors';
+import { ACME } from './__fixtures__/companyData';
+
+const dataFor = (companyName: string): CompanyData => ({ ...ACME, companyName });
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+// A fetcher whose calls stay pending until the test settles them
+const controllableFetcher = () => {
+  const calls: { companyName: string; at: number; resolve: () => void; reject: (error: unknown) => void }[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const fetcher: BatchFetcher = (companyName, signal) => new Promise((resolve, reject) => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    const settle = () => {
+      inFlight--;
+    };
+    signal.addEventListener('abort', () => {
+      settle();
+      reject(abortError());
+    }, { once: true });
+    calls.push({
+      companyName,
+      at: Date.now(),
+      resolve: () => {
+        settle();
+        resolve({ data: dataFor(companyName) });
+      },
+      reject: (error) => {
+        settle();
+        reject(error);
+      }
+    });
+  });
+  return { fetcher, calls, maxInFlight: () => maxInFlight };
+};
+
+const statuses = (rows: BatchRow[]) => rows.map((row) => row.status);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, 'random').mockReturnValue(0.5); // No backoff jitter
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('BatchRun', () => {
+  it('never runs more than `concurrency` analyses at once', async () => {
+    const { fetcher, calls, maxInFlight } = controllableFetcher();
+    const run = new BatchRun(['A', 'B', 'C', 'D', 'E'], { concurrency: 2, fetcher });
+    const done = run.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map((c) => c.companyName)).toEqual(['A', 'B']);
+    expect(statuses(run.rows)).toEqual(['running', 'running', 'queued', 'queued', 'queued']);
+
+    for (let i = 0; i < 5; i++) {
+      calls[i].resolve();
+      await vi.advanceTimersByTimeAsync(0);
+    }
+    const rows = await done;
+    expect(maxInFlight()).toBe(2);
+    expect(statuses(rows)).toEqual(['done', 'done', 'done', 'done', 'done']);
+    expect(rows[4].data?.companyName).toBe('E');
+  });
+
+  it('clamps the concurrency to at least one', async () => {
+    const fetcher = vi.fn<BatchFetcher>(async (name) => ({ data: dataFor(name) }));
+    const rows = await new BatchRun(['A', 'B'], { concurrency: 0, fetcher }).start();
+    expect(statuses(rows)).toEqual(['done', 'done']);
+  });
+
+  it('retries a failed analysis with exponential backoff', async () => {
+    let attempts = 0;
+    const fetcher: BatchFetcher = async (name) => {
+      attempts++;
+      if (attempts < 3) throw new LLMError('network', 'fetch failed');
+      return { data: dataFor(name) };
+    };
+    const changes: BatchRow[][] = [];
+    const run = new BatchRun(['A'], { fetcher, baseDelayMs: 1000, retries: 2, onChange: (rows) => changes.push(rows) });
+    const done = run.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run.rows[0]).toMatchObject({ status: 'retrying', attempts: 1, error: { kind: 'network' } });
+    expect(run.rows[0].retryAt).toBe(Date.now() + 1000);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(attempts).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(attempts).toBe(2);
+    expect(run.rows[0].retryAt).toBe(Date.now() + 2000); // Doubled
+
+    await vi.advanceTimersByTimeAsync(2000);
+    const rows = await done;
+    expect(rows[0]).toMatchObject({ status: 'done', attempts: 3 });
+    expect(rows[0].error).toBeUndefined();
+    expect(changes.map((c) => c[0].status)).toContain('retrying');
+  });
+
+  it('fails a row once its retries are used up, without stopping the others', async () => {
+    const fetcher: BatchFetcher = async (name) => {
+      if (name === 'Bad') throw new LLMError('network', 'fetch failed');
+      return { data: dataFor(name) };
+    };
+    const done = new BatchRun(['Bad', 'Good'], { fetcher, retries: 1, baseDelayMs: 10 }).start();
+    await vi.advanceTimersByTimeAsync(100);
+    const rows = await done;
+    expect(rows[0]).toMatchObject({ status: 'failed', attempts: 2, error: { kind: 'network' } });
+    expect(rows[1].status).toBe('done');
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const fetcher = vi.fn<BatchFetcher>(async () => {
+      throw new LLMError('auth', 'API key not valid');
+    });
+    const rows = await new BatchRun(['A'], { fetcher }).start();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(rows[0]).toMatchObject({ status: 'failed', error: { kind: 'auth' } });
+  });
+
+  it('pauses every worker after a rate limit', async () => {
+    const { fetcher, calls } = controllableFetcher();
+    const run = new BatchRun(['A', 'B', 'C'], { concurrency: 2, fetcher, baseDelayMs: 1000 });
+    const done = run.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const limitedAt = Date.now();
+    calls[0].reject(new LLMError('rate-limit', 'Too many requests', undefined, 5000));
+    await vi.advanceTimersByTimeAsync(0);
+    calls[1].resolve(); // B's worker would normally pick up C straight away
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(calls).toHaveLength(2);
+    expect(statuses(run.rows)).toEqual(['retrying', 'done', 'queued']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls.slice(2).map((c) => c.companyName).sort()).toEqual(['A', 'C']);
+    calls.slice(2).forEach((call) => expect(call.at).toBeGreaterThanOrEqual(limitedAt + 5000));
+    calls.slice(2).forEach((call) => call.resolve());
+    expect(statuses(await done)).toEqual(['done', 'done', 'done']);
+  });
+
+  it('cancel() aborts running analyses, cancels queued ones and keeps finished ones', async () => {
+    const { fetcher, calls } = controllableFetcher();
+    const run = new BatchRun(['A', 'B', 'C'], { concurrency: 2, fetcher });
+    const done = run.start();
+    await vi.advanceTimersByTimeAsync(0);
+    calls[0].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses(run.rows)).toEqual(['done', 'running', 'running']);
+
+    run.cancel();
+    const rows = await done;
+    expect(statuses(rows)).toEqual(['done', 'cancelled', 'cancelled']);
+    expect(run.isRunning).toBe(false);
+  });
+
+  it('cancel() interrupts a retry backoff', async () => {
+    const fetcher: BatchFetcher = async () => {
+      throw new LLMError('timeout', 'timed out');
+    };
+    const run = new BatchRun(['A'], { fetcher, baseDelayMs: 60_000 });
+    const done = run.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run.rows[0].status).toBe('retrying');
+    run.cancel();
+    expect(statuses(await done)).toEqual(['cancelled']);
+  });
+
+  it('retryFailed() runs failed and cancelled rows again', async () => {
+    let healthy = false;
+    const fetcher = vi.fn<BatchFetcher>(async (name) => {
+      if (!healthy && name !== 'Good') throw new LLMError('auth', 'API key not valid');
+      return { data: dataFor(name) };
+    });
+    const run = new BatchRun(['A', 'Good', 'B'], { fetcher, concurrency: 1 });
+    expect(statuses(await run.start())).toEqual(['failed', 'done', 'failed']);
+
+    healthy = true;
+    fetcher.mockClear();
+    const rows = await run.retryFailed();
+    expect(statuses(rows)).toEqual(['done', 'done', 'done']);
+    expect(fetcher.mock.calls.map(([name]) => name)).toEqual(['A', 'B']);
+    expect(rows[0]).toMatchObject({ attempts: 1, error: undefined });
+  });
+
+  it('retryFailed() works after a cancel', async () => {
+    const { fetcher, calls } = controllableFetcher();
+    const run = new BatchRun(['A', 'B'], { concurrency: 1, fetcher });
+    const first = run.start();
+    await vi.advanceTimersByTimeAsync(0);
+    run.cancel();
+    expect(statuses(await first)).toEqual(['cancelled', 'cancelled']);
+
+    const second = run.retryFailed();
+    await vi.advanceTimersByTimeAsync(0);
+    calls[1].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    calls[2].resolve();
+    expect(statuses(await second)).toEqual(['done', 'done']);
+  });
+});
+
+describe('parseBatchNames', () => {
+  it('reads one name per line, skipping blanks, comments and repeats', () => {
+    expect(parseBatchNames('Nintendo\r\n\n  Alphabet  \n# watchlist\nnintendo\nSpace  X\nspace x\n')).toEqual(['Nintendo', 'Alphabet', 'Space  X']);
+  });
+
+  it('keeps commas in plain-text names', () => {
+    expect(parseBatchNames('Roadrunner, Inc.\nAcme', 'names.txt')).toEqual(['Roadrunner, Inc.', 'Acme']);
+  });
+
+  it('uses the company column of a CSV', () => {
+    const csv = 'ticker,Company Name,sector\nNTDOY,Nintendo,Games\nGOOG,"Alphabet, Inc.",Tech\n';
+    expect(parseBatchNames(csv, 'Watchlist.CSV')).toEqual(['Nintendo', 'Alphabet, Inc.']);
+  });
+
+  it('uses the first column of a CSV without a known header', () => {
+    expect(parseBatchNames('Nintendo,Games\nAlphabet,Tech\n', 'list.csv')).toEqual(['Nintendo', 'Alphabet']);
+  });
+
+  it('skips CSV rows with an empty name', () => {
+    expect(parseBatchNames('name,notes\n,none\nAcme,ok\n', 'list.csv')).toEqual(['Acme']);
+  });
+});
+
+describe('batch export', () => {
+  const rows: BatchRow[] = [
+    { id: 'row-1', companyName: 'acme', status: 'done', attempts: 1, data: ACME },
+    { id: 'row-2', companyName: 'Bad', status: 'failed', attempts: 3, error: { kind: 'network', title: 'Network error', message: 'fetch failed' } }
+  ];
+
+  it('writes one CSV line per event and a status line per failed company', () => {
+    const lines = toBatchCsv(rows).trim().split('\r\n');
+    expect(lines[0].startsWith('company,status,error,year')).toBe(true);
+    expect(lines.filter((line) => line.startsWith('Acme Corp,done,'))).toHaveLength(ACME.timeline.length);
+    expect(lines[lines.length - 1]).toMatch(/^Bad,failed,fetch failed,+$/);
+  });
+
+  it('includes data only for finished companies in JSON', () => {
+    const { companies } = JSON.parse(toBatchJson(rows));
+    expect(companies[0].data.companyName).toBe('Acme Corp');
+    expect(companies[1]).toMatchObject({ companyName: 'Bad', status: 'failed', error: { kind: 'network' } });
+    expect(companies[1].data).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+import { CompanyData, LLMErrorKind } from "../types";
+import { fetchCompanyDataCached } from "./analysisCache";
+import { AnalysisInterruptedError } from "./geminiService";
+import { describeError, errorField, isAbortError, sleep, withRetry } from "./llmErrors";
+import { parseCsv } from "./importers";
+import { CSV_COLUMNS, escapeCsvField } from "./exporters";
+
+// Runs many analyses with a bounded number in flight. No React or DOM here: the fetcher is
+// injectable, so the runner also drives the CLI and can be exercised with a fake model.
+
+export type BatchRowStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRowError {
+  kind: LLMErrorKind;
+  title: string;
+  message: string;
+}
+
+export interface BatchRow {
+  id: string;
+  companyName: string; // As entered
+  status: BatchRowStatus;
+  attempts: number;
+  data?: CompanyData;
+  fromCache?: boolean;
+  fetchedAt?: number; // When the model produced the data (earlier than finishedAt for cache hits)
+  error?: BatchRowError; // The final failure, or the last one while retrying
+  retryAt?: number; // While retrying
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchFetchResult {
+  data: CompanyData;
+  fromCache?: boolean;
+  fetchedAt?: number;
+}
+
+export type BatchFetcher = (companyName: string, signal: AbortSignal) => Promise<BatchFetchResult>;
+
+export interface BatchOptions {
+  concurrency?: number; // Analyses in flight at once; defaults to 3
+  retries?: number; // Per company, after the first attempt; defaults to 2
+  baseDelayMs?: number; // First retry backoff
+  fetcher?: BatchFetcher;
+  onChange?: (rows: BatchRow[]) => void; // Called with a new array on every status change
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+// The model-level retry is switched off so each attempt shows up in the row's status
+const defaultFetcher: BatchFetcher = (companyName, signal) =>
+  fetchCompanyDataCached(companyName, { signal, retries: 0 });
+
+const toRowError = (error: unknown): BatchRowError => {
+  const { kind, title, message } = describeError(error);
+  return { kind, title, message: kind === 'unknown' ? message : `${message} (${errorField(error, 'message') || error})` };
+};
+
+export class BatchRun {
+  rows: BatchRow[];
+  private concurrency: number;
+  private retries: number;
+  private baseDelayMs: number;
+  private fetcher: BatchFetcher;
+  private onChange?: (rows: BatchRow[]) => void;
+  private controller = new AbortController();
+  private pausedUntil = 0; // Shared cooldown after a rate limit, so other workers back off too
+  private running: Promise<BatchRow[]> | null = null;
+
+  constructor(companyNames: string[], options: BatchOptions = {}) {
+    this.rows = companyNames.map((companyName, idx) => ({ id: `row-${idx + 1}`, companyName, status: 'queued', attempts: 0 }));
+    this.concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY)));
+    this.retries = Math.max(0, options.retries ?? 2);
+    this.baseDelayMs = options.baseDelayMs ?? 2000;
+    this.fetcher = options.fetcher || defaultFetcher;
+    this.onChange = options.onChange;
+  }
+
+  get isRunning() {
+    return this.running !== null;
+  }
+
+  // Resolves with the final rows once every queued company has finished; failures never reject
+  start(): Promise<BatchRow[]> {
+    if (this.running) return this.running;
+    const queued = this.rows.filter((row) => row.status === 'queued').length;
+    const workers = Array.from({ length: Math.min(this.concurrency, queued) }, () => this.work());
+    this.running = Promise.all(workers).then(() => {
+      this.running = null;
+      return this.rows;
+    });
+    return this.running;
+  }
+
+  // Stops in-flight analyses; finished rows keep their results
+  cancel() {
+    this.controller.abort();
+    this.rows.forEach((row) => {
+      if (row.status === 'queued') this.update(row.id, { status: 'cancelled' });
+    });
+  }
+
+  // Queues failed and cancelled rows again and runs them
+  async retryFailed(): Promise<BatchRow[]> {
+    if (this.running) await this.running;
+    if (this.controller.signal.aborted) this.controller = new AbortController();
+    this.rows.forEach((row) => {
+      if (row.status === 'failed' || row.status === 'cancelled') {
+        this.update(row.id, { status: 'queued', attempts: 0, error: undefined, retryAt: undefined, finishedAt: undefined });
+      }
+    });
+    return this.start();
+  }
+
+  private update(id: string, patch: Partial<BatchRow>) {
+    this.rows = this.rows.map((row) => (row.id === id ? { ...row, ...patch } : row));
+    this.onChange?.(this.rows);
+  }
+
+  private async cooldown(signal: AbortSignal) {
+    while (Date.now() < this.pausedUntil) await sleep(this.pausedUntil - Date.now(), signal);
+  }
+
+  private async work() {
+    const signal = this.controller.signal;
+    while (!signal.aborted) {
+      try {
+        await this.cooldown(signal);
+      } catch {
+        return;
+      }
+      // Claimed synchronously, so two workers never pick the same row
+      const row = this.rows.find((r) => r.status === 'queued');
+      if (!row) return;
+      this.update(row.id, { status: 'running', startedAt: Date.now() });
+      await this.runRow(row.id, row.companyName, signal);
+    }
+  }
+
+  private async runRow(id: string, companyName: string, signal: AbortSignal) {
+    try {
+      const result = await withRetry(async (attempt) => {
+        await this.cooldown(signal);
+        this.update(id, { status: 'running', attempts: attempt + 1, retryAt: undefined });
+        try {
+          return await this.fetcher(companyName, signal);
+        } catch (error) {
+          // A stream that broke off mid-way is retried whole; its partial result is not kept
+          throw error instanceof AnalysisInterruptedError && !error.cancelled ? error.cause : error;
+        }
+      }, {
+        retries: this.retries,
+        baseDelayMs: this.baseDelayMs,
+        signal,
+        onRetry: (error, _attempt, delayMs) => {
+          if (error.kind === 'rate-limit') this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+          this.update(id, { status: 'retrying', error: toRowError(error), retryAt: Date.now() + delayMs });
+        }
+      });
+      this.update(id, {
+        status: 'done',
+        data: result.data,
+        fromCache: result.fromCache,
+        fetchedAt: result.fetchedAt ?? Date.now(),
+        error: undefined,
+        finishedAt: Date.now()
+      });
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) {
+        this.update(id, { status: 'cancelled', retryAt: undefined, finishedAt: Date.now() });
+      } else {
+        this.update(id, { status: 'failed', error: toRowError(error), retryAt: undefined, finishedAt: Date.now() });
+      }
+    }
+  }
+}
+
+// --- Input ---
+
+const NAME_COLUMNS = ['company', 'companyname', 'company name', 'name'];
+
+// One name per line, or for .csv files a "company"/"name" column (else the first column).
+// Blank lines, "#" comments and repeated names are dropped.
+export const parseBatchNames = (text: string, fileName = ''): string[] => {
+  let names: string[];
+  if (/\.csv$/i.test(fileName)) {
+    const rows = parseCsv(text);
+    const header = (rows[0] || []).map((cell) => cell.trim().toLowerCase());
+    const column = header.findIndex((cell) => NAME_COLUMNS.includes(cell));
+    names = (column === -1 ? rows : rows.slice(1)).map((row) => row[Math.max(column, 0)] || '');
+  } else {
+    names = text.split(/\r?\n/);
+  }
+  const seen = new Set<string>();
+  return names
+    .map((name) => name.trim())
+    .filter((name) => {
+      const key = name.toLowerCase().replace(/\s+/g, ' ');
+      if (!name || name.startsWith('#') || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// --- Export ---
+
+const rowSummary = (row: BatchRow) => ({
+  companyName: row.companyName,
+  status: row.status,
+  attempts: row.attempts,
+  ...(row.error && row.status !== 'done' ? { error: row.error } : {}),
+  ...(row.finishedAt ? { finishedAt: new Date(row.finishedAt).toISOString() } : {})
+});
+
+// Every company's status, plus the full data of the finished ones
+export const toBatchJson = (rows: BatchRow[]): string => JSON.stringify({
+  exportedAt: new Date().toISOString(),
+  companies: rows.map((row) => ({ ...rowSummary(row), ...(row.data ? { data: row.data } : {}) }))
+}, null, 2);
+
+export const BATCH_CSV_COLUMNS = ['company', 'status', 'error', ...CSV_COLUMNS] as const;
+
+// All timelines in one sheet, one line per event; companies without results get a status line
+export const toBatchCsv = (rows: BatchRow[]): string => {
+  const lines = rows.flatMap((row) => {
+    const prefix = [row.data?.companyName || row.companyName, row.status, row.status === 'done' ? '' : row.error?.message];
+    if (!row.data || row.data.timeline.length === 0) {
+      return [[...prefix, ...CSV_COLUMNS.map(() => '')]];
+    }
+    return [...row.data.timeline].sort((a, b) => a.year - b.year).map((event) => [
+      ...prefix,
+      ...CSV_COLUMNS.map((column) => (column === 'sourceUris' ? event.sourceUris?.join(' ') : event[column]))
+    ]);
+  });
+  return [BATCH_CSV_COLUMNS.join(','), ...lines.map((line) => line.map(escapeCsvField).join(','))].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { ChatToolOp } from '../types';
+import { applyChatTool, replayChatTools } from './chatTools';
+import { ACME } from './__fixtures__/companyData';
+
+describe('replayChatTools', () => {
+  it('applies a proposal on top of edits made after it was proposed', () => {
+    const ops: ChatToolOp[] = [{ name: 'update_timeline_event', args: { id: 'evt-found', changes: { description: 'Started in a barn.' } } }];
+    const edited = { ...ACME, summary: 'Edited by hand', timeline: [...ACME.timeline, { id: 'evt-new', year: 1990, title: 'Added by hand', description: '', category: 'general' as const }] };
+
+    const { data, skipped } = replayChatTools(edited, ops);
+    expect(skipped).toEqual([]);
+    expect(data.summary).toBe('Edited by hand');
+    expect(data.timeline.map((e) => e.id)).toEqual(['evt-ipo', 'evt-found', 'evt-buy', 'evt-new']);
+    expect(data.timeline[1].description).toBe('Started in a barn.');
+  });
+
+  it('recreates added entities with their original ids, so later calls still find them', () => {
+    const added = applyChatTool(ACME, { name: 'add_timeline_event', args: { event: { year: 2001, title: 'Opens a mine' } } });
+    const ops: ChatToolOp[] = [
+      { name: 'add_timeline_event', args: { event: { year: 2001, title: 'Opens a mine' } }, createdId: added.id },
+      { name: 'update_timeline_event', args: { id: added.id, changes: { description: 'In the desert.' } } }
+    ];
+    const { data, skipped } = replayChatTools(ACME, ops);
+    expect(skipped).toEqual([]);
+    expect(data.timeline.find((e) => e.id === added.id)?.description).toBe('In the desert.');
+  });
+
+  it('skips calls that no longer fit and applies the rest', () => {
+    const withoutFounding = { ...ACME, timeline: ACME.timeline.filter((e) => e.id !== 'evt-found') };
+    const ops: ChatToolOp[] = [
+      { name: 'remove_timeline_event', args: { id: 'evt-found' } },
+      { name: 'remove_timeline_event', args: { id: 'evt-ipo' } }
+    ];
+    const { data, skipped } = replayChatTools(withoutFounding, ops);
+    expect(skipped).toHaveLength(1);
+    expect(data.timeline.map((e) => e.id)).toEqual(['evt-buy']);
+  });
+
+  it('returns the same data when nothing applies', () => {
+    const { data } = replayChatTools(ACME, [{ name: 'remove_timeline_event', args: { id: 'evt-gone' } }]);
+    expect(data).toBe(ACME);
+  });
+});
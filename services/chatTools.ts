@@ -0,0 +1,288 @@
+import { Type, FunctionDeclaration, Schema } from "@google/genai";
+import { CompanyData, OrgNode, ChatToolOp } from "../types";
+import { normalizeTimelineEvent, normalizeOrgNode, CompanyDataValidationError, TIMELINE_CATEGORIES, ORG_ROLES, RELATIONSHIP_TYPES } from "./companyDataValidator";
+import { OrgPath, getNodeAtPath, updateNodeAtPath, addChildAtPath, removeNodeAtPath, moveNode } from "./orgTree";
+import { ModelFunctionCall } from "./providers";
+
+// Raised for a tool call that cannot be applied (unknown id, bad path, name clash...).
+// The message goes back to the model, so it says how to fix the call.
+export class ChatToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatToolError';
+  }
+}
+
+// --- Declarations ---
+
+const eventProperties: Record<string, Schema> = {
+  year: { type: Type.NUMBER },
+  dateStr: { type: Type.STRING, description: "Free-form date such as \"Oct 2024\"" },
+  title: { type: Type.STRING },
+  description: { type: Type.STRING },
+  category: { type: Type.STRING, enum: TIMELINE_CATEGORIES },
+  sourceUris: { type: Type.ARRAY, items: { type: Type.STRING }, description: "URLs of web sources backing this event" },
+  confidence: { type: Type.STRING, enum: ['high', 'medium', 'low'] }
+};
+
+const nodeProperties: Record<string, Schema> = {
+  role: { type: Type.STRING, enum: ORG_ROLES },
+  description: { type: Type.STRING },
+  relationship: { type: Type.STRING, enum: RELATIONSHIP_TYPES, description: "How the parent holds this node" },
+  ownershipPercent: { type: Type.NUMBER, description: "Share held by the parent, 0-100" },
+  acquiredDate: { type: Type.STRING },
+  crossLinks: {
+    type: Type.ARRAY,
+    description: "Holders of this node besides its tree parent, e.g. a joint venture's other partner",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        target: { type: Type.STRING, description: "Exact name of the holding node" },
+        relationship: { type: Type.STRING, enum: RELATIONSHIP_TYPES },
+        ownershipPercent: { type: Type.NUMBER }
+      },
+      required: ['target']
+    }
+  },
+  sourceUris: { type: Type.ARRAY, items: { type: Type.STRING } },
+  confidence: { type: Type.STRING, enum: ['high', 'medium', 'low'] }
+};
+
+const pathSchema = (description: string): Schema => ({
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+  description: `${description} Node names from the root down, e.g. ["Alphabet Inc.", "Google", "YouTube"].`
+});
+
+const eventIdSchema: Schema = { type: Type.STRING, description: "The event's \"id\" from the company data" };
+
+export const chatToolDeclarations: FunctionDeclaration[] = [
+  {
+    name: "add_timeline_event",
+    description: "Adds one event to the timeline. Returns the new event's id.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { event: { type: Type.OBJECT, properties: eventProperties, required: ['year', 'title', 'description', 'category'] } },
+      required: ['event']
+    }
+  },
+  {
+    name: "update_timeline_event",
+    description: "Changes fields of an existing timeline event. Only the fields given are changed.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { id: eventIdSchema, changes: { type: Type.OBJECT, properties: eventProperties } },
+      required: ['id', 'changes']
+    }
+  },
+  {
+    name: "remove_timeline_event",
+    description: "Removes a timeline event.",
+    parameters: { type: Type.OBJECT, properties: { id: eventIdSchema }, required: ['id'] }
+  },
+  {
+    name: "add_org_node",
+    description: "Adds one entity to the organizational structure under an existing node.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        parentPath: pathSchema("The node to add under."),
+        node: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, ...nodeProperties }, required: ['name', 'role'] }
+      },
+      required: ['parentPath', 'node']
+    }
+  },
+  {
+    name: "rename_org_node",
+    description: "Renames an entity in the organizational structure. Cross-links to it are updated too.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { path: pathSchema("The node to rename."), newName: { type: Type.STRING } },
+      required: ['path', 'newName']
+    }
+  },
+  {
+    name: "update_org_node",
+    description: "Changes the role, description or ownership details of an entity. Only the fields given are changed.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { path: pathSchema("The node to change."), changes: { type: Type.OBJECT, properties: nodeProperties } },
+      required: ['path', 'changes']
+    }
+  },
+  {
+    name: "move_org_node",
+    description: "Moves an entity, with everything under it, to a different parent.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { path: pathSchema("The node to move."), newParentPath: pathSchema("Its new parent.") },
+      required: ['path', 'newParentPath']
+    }
+  },
+  {
+    name: "remove_org_node",
+    description: "Removes an entity and everything under it from the organizational structure.",
+    parameters: { type: Type.OBJECT, properties: { path: pathSchema("The node to remove.") }, required: ['path'] }
+  }
+];
+
+// --- Resolving ids and paths ---
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireObject = (args: Record<string, any>, field: string): Record<string, any> => {
+  if (!isPlainObject(args[field])) throw new ChatToolError(`"${field}" must be an object.`);
+  return args[field];
+};
+
+const findEventIndex = (data: CompanyData, id: unknown): number => {
+  const idx = typeof id === 'string' ? data.timeline.findIndex((e) => e.id === id) : -1;
+  if (idx === -1) throw new ChatToolError(`No timeline event has the id ${JSON.stringify(id)}. Use an "id" from the current timeline.`);
+  return idx;
+};
+
+// Turns ["Alphabet Inc.", "Google"] into child indices; the root's name may be left out
+const resolvePath = (root: OrgNode, raw: unknown, field: string): OrgPath => {
+  if (!Array.isArray(raw) || raw.some((name) => typeof name !== 'string')) {
+    throw new ChatToolError(`"${field}" must be an array of node names from the root down.`);
+  }
+  const names = raw.length > 0 && nameKey(raw[0]) === nameKey(root.name) ? raw.slice(1) : raw;
+  const path: OrgPath = [];
+  let node = root;
+  for (const name of names as string[]) {
+    const children = node.children || [];
+    const idx = children.findIndex((c) => nameKey(c.name) === nameKey(name));
+    if (idx === -1) {
+      const known = children.map((c) => `"${c.name}"`).join(', ') || 'none';
+      throw new ChatToolError(`"${node.name}" has no child named "${name}" (its children: ${known}).`);
+    }
+    path.push(idx);
+    node = children[idx];
+  }
+  return path;
+};
+
+const assertNoSibling = (parent: OrgNode, name: string, except?: OrgNode) => {
+  const clash = (parent.children || []).find((c) => c !== except && nameKey(c.name) === nameKey(name));
+  if (clash) throw new ChatToolError(`"${parent.name}" already has a child named "${clash.name}".`);
+};
+
+const renameCrossLinks = (node: OrgNode, from: string, to: string): OrgNode => {
+  const next: OrgNode = { ...node };
+  if (node.crossLinks) {
+    next.crossLinks = node.crossLinks.map((link) => (nameKey(link.target) === nameKey(from) ? { ...link, target: to } : link));
+  }
+  if (node.children) next.children = node.children.map((child) => renameCrossLinks(child, from, to));
+  return next;
+};
+
+// --- Applying ---
+
+export interface ChatToolOutcome {
+  data: CompanyData;
+  target: 'timeline' | 'structure';
+  description: string; // Shown to the user as progress, and returned to the model
+  id?: string; // Of a created entity
+}
+
+// Validates one call against `data` and returns the changed copy. Throws ChatToolError or
+// CompanyDataValidationError when the call is invalid; `data` is never modified.
+// `createdId` replays an add with the id it got the first time.
+export const applyChatTool = (data: CompanyData, call: ModelFunctionCall, createdId?: string): ChatToolOutcome => {
+  const args = call.args || {};
+  const structure = data.structure;
+
+  switch (call.name) {
+    case 'add_timeline_event': {
+      const event = normalizeTimelineEvent({ ...requireObject(args, 'event'), id: createdId }, 'event');
+      const duplicate = data.timeline.find((e) => e.year === event.year && nameKey(e.title) === nameKey(event.title));
+      if (duplicate) {
+        throw new ChatToolError(`"${duplicate.title}" (${duplicate.year}) is already on the timeline as ${duplicate.id}; use update_timeline_event to change it.`);
+      }
+      return { data: { ...data, timeline: [...data.timeline, event] }, target: 'timeline', description: `Added "${event.title}"`, id: event.id };
+    }
+    case 'update_timeline_event': {
+      const idx = findEventIndex(data, args.id);
+      const before = data.timeline[idx];
+      const after = normalizeTimelineEvent({ ...before, ...requireObject(args, 'changes'), id: before.id }, 'changes');
+      const timeline = data.timeline.map((e, i) => (i === idx ? after : e));
+      return { data: { ...data, timeline }, target: 'timeline', description: `Updated "${after.title}"` };
+    }
+    case 'remove_timeline_event': {
+      const idx = findEventIndex(data, args.id);
+      const removed = data.timeline[idx];
+      return { data: { ...data, timeline: data.timeline.filter((_, i) => i !== idx) }, target: 'timeline', description: `Removed "${removed.title}"` };
+    }
+    case 'add_org_node': {
+      const parentPath = resolvePath(structure, args.parentPath, 'parentPath');
+      const parent = getNodeAtPath(structure, parentPath)!;
+      const node = normalizeOrgNode({ ...requireObject(args, 'node'), id: createdId }, 'node', parentPath.length + 1);
+      if (!node) throw new ChatToolError(`"node.name" is required.`);
+      assertNoSibling(parent, node.name);
+      return {
+        data: { ...data, structure: addChildAtPath(structure, parentPath, node) },
+        target: 'structure',
+        description: `Added ${node.name} under ${parent.name}`,
+        id: node.id
+      };
+    }
+    case 'rename_org_node': {
+      const path = resolvePath(structure, args.path, 'path');
+      const node = getNodeAtPath(structure, path)!;
+      const newName = typeof args.newName === 'string' ? args.newName.trim() : '';
+      if (!newName) throw new ChatToolError(`"newName" must be a non-empty string.`);
+      if (path.length > 0) assertNoSibling(getNodeAtPath(structure, path.slice(0, -1))!, newName, node);
+      const renamed = updateNodeAtPath(structure, path, (n) => ({ ...n, name: newName }));
+      return { data: { ...data, structure: renameCrossLinks(renamed, node.name, newName) }, target: 'structure', description: `Renamed ${node.name} to ${newName}` };
+    }
+    case 'update_org_node': {
+      const path = resolvePath(structure, args.path, 'path');
+      const before = getNodeAtPath(structure, path)!;
+      const changes = requireObject(args, 'changes');
+      const { children, ...fields } = before;
+      // Name and children have their own tools; everything else is re-validated together
+      const after = normalizeOrgNode({ ...fields, ...changes, id: before.id, name: before.name, children: undefined }, 'changes', path.length)!;
+      if (children) after.children = children;
+      return { data: { ...data, structure: updateNodeAtPath(structure, path, () => after) }, target: 'structure', description: `Updated ${before.name}` };
+    }
+    case 'move_org_node': {
+      const path = resolvePath(structure, args.path, 'path');
+      const newParentPath = resolvePath(structure, args.newParentPath, 'newParentPath');
+      const node = getNodeAtPath(structure, path)!;
+      const newParent = getNodeAtPath(structure, newParentPath)!;
+      assertNoSibling(newParent, node.name, node);
+      try {
+        return { data: { ...data, structure: moveNode(structure, path, newParentPath) }, target: 'structure', description: `Moved ${node.name} under ${newParent.name}` };
+      } catch (error: any) {
+        throw new ChatToolError(error.message);
+      }
+    }
+    case 'remove_org_node': {
+      const path = resolvePath(structure, args.path, 'path');
+      if (path.length === 0) throw new ChatToolError("The root node cannot be removed.");
+      const node = getNodeAtPath(structure, path)!;
+      return { data: { ...data, structure: removeNodeAtPath(structure, path) }, target: 'structure', description: `Removed ${node.name}` };
+    }
+    default:
+      throw new ChatToolError(`Unknown tool "${call.name}".`);
+  }
+};
+
+// Applies a proposal's calls to the data as it is now. Calls that no longer fit, e.g. because
+// their event was deleted in the meantime, are skipped and their errors returned.
+export const replayChatTools = (data: CompanyData, ops: ChatToolOp[]): { data: CompanyData; skipped: string[] } => {
+  const skipped: string[] = [];
+  const result = ops.reduce((current, op) => {
+    try {
+      return applyChatTool(current, op, op.createdId).data;
+    } catch (error) {
+      if (!(error instanceof ChatToolError) && !(error instanceof CompanyDataValidationError)) throw error;
+      skipped.push(error.message);
+      return current;
+    }
+  }, data);
+  return { data: result, skipped };
+};
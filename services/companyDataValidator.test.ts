@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { normalizeCompanyData, normalizeTimelineEvent, normalizeOrgNode, CompanyDataValidationError } from './companyDataValidator';
+import { parseAnalysis } from './geminiService';
+import { LLMError } from './llmErrors';
+import { VALID_OUTPUT, MALFORMED_OUTPUTS } from './__fixtures__/modelOutputs';
+
+// The JSON inside a fixture's ```json fence (or the whole text)
+const fixtureJson = (text: string) => JSON.parse(text.match(/```json\s*([\s\S]*?)\s*```/)?.[1] ?? text);
+
+const parseError = (text: string): LLMError => {
+  try {
+    parseAnalysis(text, 'Acme Corp');
+  } catch (error) {
+    return error as LLMError;
+  }
+  throw new Error('Expected parseAnalysis to fail');
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {}); // extractJson logs every failed parse
+});
+
+describe('parseAnalysis', () => {
+  it('parses a well-formed reply', () => {
+    const data = parseAnalysis(VALID_OUTPUT, 'Acme');
+    expect(data.companyName).toBe('Acme Corp');
+    expect(data.timeline.map((e) => e.year)).toEqual([1949, 1972]);
+    expect(data.structure.children?.[0]).toMatchObject({ name: 'Acme Anvils', relationship: 'wholly-owned' });
+  });
+
+  it('finds JSON wrapped in prose', () => {
+    expect(parseAnalysis(MALFORMED_OUTPUTS.proseWrapped, 'Acme').structure.name).toBe('Acme Corp');
+  });
+
+  it.each([
+    ['truncated mid-event', MALFORMED_OUTPUTS.truncated],
+    ['truncated mid-structure', MALFORMED_OUTPUTS.truncatedAfterTimeline],
+    ['no JSON at all', MALFORMED_OUTPUTS.noJson]
+  ])('reports a parse error for %s', (_label, text) => {
+    const error = parseError(text);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.kind).toBe('parse');
+  });
+
+  it('carries the field path of a validation failure', () => {
+    const error = parseError(MALFORMED_OUTPUTS.eventWithoutYear);
+    expect(error.kind).toBe('parse');
+    expect(error.message).toContain('timeline[1].year');
+  });
+});
+
+describe('normalizeCompanyData', () => {
+  it('coerces string years and falls back to the year in dateStr', () => {
+    const data = normalizeCompanyData(fixtureJson(MALFORMED_OUTPUTS.stringYears));
+    expect(data.timeline.map((e) => e.year)).toEqual([1949, 1972, 1985]);
+  });
+
+  it('maps unknown categories to general and unknown roles by depth', () => {
+    const data = normalizeCompanyData(fixtureJson(MALFORMED_OUTPUTS.unknownCategoryAndRole));
+    expect(data.timeline[0].category).toBe('general');
+    expect(data.structure.role).toBe('root');
+    expect(data.structure.children?.[0].role).toBe('child');
+  });
+
+  it('treats a null timeline as empty', () => {
+    expect(normalizeCompanyData(fixtureJson(MALFORMED_OUTPUTS.nullTimeline)).timeline).toEqual([]);
+  });
+
+  it('accepts numeric names as strings', () => {
+    const data = normalizeCompanyData(fixtureJson(MALFORMED_OUTPUTS.numericName));
+    expect(data.companyName).toBe('3');
+    expect(data.structure.name).toBe('3');
+  });
+
+  it('uses the fallback name when companyName is missing', () => {
+    expect(normalizeCompanyData({ structure: { name: 'Acme Corp' } }, ' Acme ').companyName).toBe('Acme');
+  });
+
+  it('gives every entity a unique id', () => {
+    const data = normalizeCompanyData({
+      companyName: 'Acme Corp',
+      timeline: [{ id: 'evt-1', year: 1949, title: 'Founded' }, { id: 'evt-1', year: 1950, title: 'Copied id' }],
+      structure: { name: 'Acme Corp', children: [{ name: 'Acme Anvils' }] }
+    });
+    const ids = [...data.timeline.map((e) => e.id), data.structure.id, data.structure.children![0].id];
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(data.timeline[0].id).toBe('evt-1');
+  });
+
+  it.each([
+    ['a missing structure', MALFORMED_OUTPUTS.missingStructure, 'structure'],
+    ['a string structure', MALFORMED_OUTPUTS.structureString, 'structure'],
+    ['a root without a name', MALFORMED_OUTPUTS.rootWithoutName, 'structure.name'],
+    ['non-array children', MALFORMED_OUTPUTS.childrenObject, 'structure.children'],
+    ['a timeline object', MALFORMED_OUTPUTS.timelineObject, 'timeline'],
+    ['a timeline string', MALFORMED_OUTPUTS.timelineString, 'timeline'],
+    ['an event without a title', MALFORMED_OUTPUTS.eventWithoutTitle, 'timeline[0].title'],
+    ['an event string', MALFORMED_OUTPUTS.eventString, 'timeline[0]'],
+    ['an array instead of an object', MALFORMED_OUTPUTS.arrayRoot, '$']
+  ])('rejects %s', (_label, text, path) => {
+    const run = () => normalizeCompanyData(fixtureJson(text));
+    expect(run).toThrow(CompanyDataValidationError);
+    try {
+      run();
+    } catch (error) {
+      expect((error as CompanyDataValidationError).path).toBe(path);
+    }
+  });
+
+  it('rejects data without any company name', () => {
+    expect(() => normalizeCompanyData({ structure: { name: 'Acme' } })).toThrow(/companyName/);
+  });
+});
+
+describe('normalizeTimelineEvent', () => {
+  it('trims text, keeps valid attribution and drops malformed attribution', () => {
+    const event = normalizeTimelineEvent({
+      year: 2001,
+      title: '  IPO  ',
+      description: 42,
+      category: 'PRODUCT',
+      sourceUris: ['https://a.example', '', 7, 'https://a.example'],
+      confidence: 'certain'
+    }, 'timeline[0]');
+    expect(event).toMatchObject({ year: 2001, title: 'IPO', description: '42', category: 'product', sourceUris: ['https://a.example'] });
+    expect(event.confidence).toBeUndefined();
+  });
+
+  it('truncates fractional years', () => {
+    expect(normalizeTimelineEvent({ year: 1999.7, title: 'Launch' }, 'e').year).toBe(1999);
+  });
+
+  it.each([
+    [null, 'timeline[2]'],
+    [{ year: 1999 }, 'timeline[2].title'],
+    [{ title: 'Launch' }, 'timeline[2].year'],
+    [{ title: 'Launch', year: 'soon' }, 'timeline[2].year']
+  ])('rejects %j at %s', (raw, path) => {
+    expect(() => normalizeTimelineEvent(raw, 'timeline[2]')).toThrow(expect.objectContaining({ path }));
+  });
+});
+
+describe('normalizeOrgNode', () => {
+  it('drops empty and nameless children', () => {
+    const root = normalizeOrgNode(fixtureJson(MALFORMED_OUTPUTS.emptyNodes).structure)!;
+    expect(root.children?.map((c) => c.name)).toEqual(['Acme Rockets']);
+  });
+
+  it('omits children when none survive', () => {
+    expect(normalizeOrgNode({ name: 'Acme', children: [{ name: ' ' }] })!.children).toBeUndefined();
+  });
+
+  it('returns null for an unusable child but throws for an unusable root', () => {
+    expect(normalizeOrgNode({ role: 'child' }, 'structure.children[0]', 1)).toBeNull();
+    expect(() => normalizeOrgNode('Acme')).toThrow(CompanyDataValidationError);
+  });
+
+  it('coerces ownership fields and drops out-of-range percentages', () => {
+    const root = normalizeOrgNode({
+      name: 'Acme',
+      children: [
+        { name: 'Anvils', relationship: 'Wholly Owned', ownershipPercent: '100%' },
+        { name: 'Rockets', relationship: 'JV', ownershipPercent: 140 },
+        { name: 'Paint', relationship: 'leased' }
+      ]
+    })!;
+    expect(root.children![0]).toMatchObject({ relationship: 'wholly-owned', ownershipPercent: 100 });
+    expect(root.children![1].relationship).toBe('joint-venture');
+    expect(root.children![1].ownershipPercent).toBeUndefined();
+    expect(root.children![2].relationship).toBeUndefined();
+  });
+
+  it('keeps cross-links given as strings or objects', () => {
+    const node = normalizeOrgNode({ name: 'JV', crossLinks: ['Partner A', { target: 'Partner B', relationship: 'minority' }, {}] })!;
+    expect(node.crossLinks).toEqual([{ target: 'Partner A' }, { target: 'Partner B', relationship: 'minority' }]);
+  });
+});
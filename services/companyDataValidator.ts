@@ -0,0 +1,231 @@
+import { CompanyData, TimelineEvent, OrgNode, OrgCrossLink, Confidence, NodeProvenance, RelationshipType } from "../types";
+import { createEntityId, ensureEntityIds, eventContentId, nodeContentId } from "./entityIds";
+
+export const TIMELINE_CATEGORIES: TimelineEvent['category'][] = ['founding', 'product', 'acquisition', 'scandal', 'general'];
+export const ORG_ROLES: OrgNode['role'][] = ['root', 'parent', 'subsidiary', 'department', 'child'];
+export const RELATIONSHIP_TYPES: RelationshipType[] = ['wholly-owned', 'majority', 'minority', 'joint-venture', 'divested'];
+
+// How entries without an id get one: model output uses ids derived from the content, so the
+// same entry keeps its id from the first streamed chunk to the final parse; entries added
+// interactively get random ones
+export type NewIdSource = 'random' | 'content';
+
+// Raised when the model output cannot be repaired into a usable shape.
+// `path` points at the offending field, e.g. "timeline[3].year".
+export class CompanyDataValidationError extends Error {
+  path: string;
+
+  constructor(path: string, reason: string) {
+    super(`Invalid company data at ${path}: ${reason}`);
+    this.name = 'CompanyDataValidationError';
+    this.path = path;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asTrimmedString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+};
+
+// Accepts 1998, "1998", "c. 1998" or falls back to a year found in dateStr ("Oct 1998")
+const coerceYear = (value: unknown, dateStr?: string): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.trunc(value);
+  const candidates = [asTrimmedString(value), dateStr];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (/^-?\d+$/.test(candidate)) return parseInt(candidate, 10);
+    const match = candidate.match(/\b(\d{4})\b/);
+    if (match) return parseInt(match[1], 10);
+  }
+  return undefined;
+};
+
+const CONFIDENCE_LEVELS: Confidence[] = ['high', 'medium', 'low'];
+
+// Attribution fields are optional; anything malformed is dropped rather than rejected
+const copyAttribution = (raw: Record<string, any>, target: { sourceUris?: string[]; confidence?: Confidence }) => {
+  if (Array.isArray(raw.sourceUris)) {
+    const uris = raw.sourceUris.filter((uri: unknown): uri is string => typeof uri === 'string' && uri.trim() !== '');
+    if (uris.length > 0) target.sourceUris = Array.from(new Set(uris));
+  }
+  const confidence = asTrimmedString(raw.confidence)?.toLowerCase();
+  if (CONFIDENCE_LEVELS.includes(confidence as Confidence)) target.confidence = confidence as Confidence;
+};
+
+// App-generated timestamp, kept through chat updates and JSON round-trips
+const copyLastVerified = (raw: Record<string, any>, target: { lastVerified?: number }) => {
+  if (typeof raw.lastVerified === 'number' && Number.isFinite(raw.lastVerified)) target.lastVerified = raw.lastVerified;
+};
+
+// Provenance is app-generated, so it is kept only when fully intact
+const asProvenance = (raw: unknown): NodeProvenance | undefined => {
+  if (!isPlainObject(raw)) return undefined;
+  const { analysisId, companyName, fetchedAt } = raw;
+  if (typeof analysisId !== 'string' || typeof companyName !== 'string' || typeof fetchedAt !== 'number') return undefined;
+  return { analysisId, companyName, fetchedAt };
+};
+
+// "51%", "51.0" and 51 are all accepted; anything outside 0-100 is dropped
+const coercePercent = (value: unknown): number | undefined => {
+  const text = asTrimmedString(value)?.replace(/%$/, '').trim();
+  if (!text) return undefined;
+  const percent = Number(text);
+  return Number.isFinite(percent) && percent >= 0 && percent <= 100 ? percent : undefined;
+};
+
+// Models write "Wholly Owned", "JV", "minority stake"...
+const RELATIONSHIP_ALIASES: Record<string, RelationshipType> = {
+  'wholly owned': 'wholly-owned',
+  'wholly-owned subsidiary': 'wholly-owned',
+  'majority stake': 'majority',
+  'majority-owned': 'majority',
+  'minority stake': 'minority',
+  'minority-owned': 'minority',
+  'jv': 'joint-venture',
+  'joint venture': 'joint-venture',
+  'sold': 'divested'
+};
+
+const coerceRelationship = (value: unknown): RelationshipType | undefined => {
+  const text = asTrimmedString(value)?.toLowerCase().replace(/_/g, '-');
+  if (!text) return undefined;
+  if (RELATIONSHIP_TYPES.includes(text as RelationshipType)) return text as RelationshipType;
+  return RELATIONSHIP_ALIASES[text] || RELATIONSHIP_ALIASES[text.replace(/-/g, ' ')];
+};
+
+// Edge fields are optional; malformed values are dropped rather than rejected
+const copyOwnership = (raw: Record<string, any>, target: { relationship?: RelationshipType; ownershipPercent?: number }) => {
+  const relationship = coerceRelationship(raw.relationship);
+  if (relationship) target.relationship = relationship;
+  const percent = coercePercent(raw.ownershipPercent);
+  if (percent !== undefined) target.ownershipPercent = percent;
+};
+
+const normalizeCrossLinks = (raw: unknown): OrgCrossLink[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item) => {
+    const target = isPlainObject(item) ? asTrimmedString(item.target) : asTrimmedString(item);
+    if (!target) return [];
+    const link: OrgCrossLink = { target };
+    if (isPlainObject(item)) copyOwnership(item, link);
+    return [link];
+  });
+};
+
+const coerceCategory = (value: unknown): TimelineEvent['category'] => {
+  const category = asTrimmedString(value)?.toLowerCase();
+  return TIMELINE_CATEGORIES.includes(category as TimelineEvent['category'])
+    ? category as TimelineEvent['category']
+    : 'general';
+};
+
+const coerceRole = (value: unknown, depth: number): OrgNode['role'] => {
+  const role = asTrimmedString(value)?.toLowerCase();
+  if (ORG_ROLES.includes(role as OrgNode['role'])) return role as OrgNode['role'];
+  return depth === 0 ? 'root' : 'child';
+};
+
+export const normalizeTimelineEvent = (raw: unknown, path: string, newIds: NewIdSource = 'random'): TimelineEvent => {
+  if (!isPlainObject(raw)) {
+    throw new CompanyDataValidationError(path, 'expected an object');
+  }
+
+  const title = asTrimmedString(raw.title);
+  if (!title) {
+    throw new CompanyDataValidationError(`${path}.title`, 'missing title');
+  }
+
+  const dateStr = asTrimmedString(raw.dateStr) || undefined;
+  const year = coerceYear(raw.year, dateStr);
+  if (year === undefined) {
+    throw new CompanyDataValidationError(`${path}.year`, `expected a year, got ${JSON.stringify(raw.year)}`);
+  }
+
+  const event: TimelineEvent = {
+    id: asTrimmedString(raw.id) || (newIds === 'content' ? eventContentId({ year, title }) : createEntityId('evt')),
+    year,
+    title,
+    description: asTrimmedString(raw.description) || '',
+    category: coerceCategory(raw.category),
+  };
+  if (dateStr) event.dateStr = dateStr;
+  copyAttribution(raw, event);
+  copyLastVerified(raw, event);
+  return event;
+};
+
+export const normalizeTimeline = (raw: unknown, path = 'timeline', newIds: NewIdSource = 'random'): TimelineEvent[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    throw new CompanyDataValidationError(path, 'expected an array');
+  }
+  return raw.map((item, idx) => normalizeTimelineEvent(item, `${path}[${idx}]`, newIds));
+};
+
+// Nodes without a usable name are dropped (returns null) unless they are the root
+export const normalizeOrgNode = (raw: unknown, path = 'structure', depth = 0, newIds: NewIdSource = 'random'): OrgNode | null => {
+  if (!isPlainObject(raw)) {
+    if (depth === 0) throw new CompanyDataValidationError(path, 'expected an object');
+    return null;
+  }
+
+  const name = asTrimmedString(raw.name);
+  if (!name) {
+    if (depth === 0) throw new CompanyDataValidationError(`${path}.name`, 'missing name');
+    return null;
+  }
+
+  const id = asTrimmedString(raw.id) || (newIds === 'content' ? nodeContentId({ name }) : createEntityId('node'));
+  const node: OrgNode = { id, name, role: coerceRole(raw.role, depth) };
+
+  const description = asTrimmedString(raw.description);
+  if (description) node.description = description;
+  copyOwnership(raw, node);
+  const acquiredDate = asTrimmedString(raw.acquiredDate);
+  if (acquiredDate) node.acquiredDate = acquiredDate;
+  const crossLinks = normalizeCrossLinks(raw.crossLinks);
+  if (crossLinks.length > 0) node.crossLinks = crossLinks;
+  copyAttribution(raw, node);
+  const provenance = asProvenance(raw.provenance);
+  if (provenance) node.provenance = provenance;
+  copyLastVerified(raw, node);
+
+  if (raw.children !== undefined && raw.children !== null) {
+    if (!Array.isArray(raw.children)) {
+      throw new CompanyDataValidationError(`${path}.children`, 'expected an array');
+    }
+    const children = raw.children
+      .map((child: unknown, idx: number) => normalizeOrgNode(child, `${path}.children[${idx}]`, depth + 1, newIds))
+      .filter((child: OrgNode | null): child is OrgNode => child !== null);
+    if (children.length > 0) node.children = children;
+  }
+
+  return node;
+};
+
+export const normalizeCompanyData = (raw: unknown, fallbackName?: string): Omit<CompanyData, 'sources'> => {
+  if (!isPlainObject(raw)) {
+    throw new CompanyDataValidationError('$', 'expected a JSON object');
+  }
+
+  const companyName = asTrimmedString(raw.companyName) || fallbackName?.trim();
+  if (!companyName) {
+    throw new CompanyDataValidationError('companyName', 'missing company name');
+  }
+
+  if (raw.structure === undefined || raw.structure === null) {
+    throw new CompanyDataValidationError('structure', 'missing organizational structure');
+  }
+
+  // Models sometimes copy an id onto a new entry; duplicates get fresh ones
+  return ensureEntityIds({
+    companyName,
+    summary: asTrimmedString(raw.summary) || '',
+    timeline: normalizeTimeline(raw.timeline, 'timeline', 'content'),
+    structure: normalizeOrgNode(raw.structure, 'structure', 0, 'content') as OrgNode,
+  });
+};
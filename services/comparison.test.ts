@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { findCrossReferences, normalizeEntityName } from './comparison';
+import { ACME } from './__fixtures__/companyData';
+
+const coyote = {
+  ...ACME,
+  companyName: 'Coyote Holdings',
+  structure: { id: 'c', name: 'Coyote Holdings', role: 'root' as const, children: [{ id: 'c-jv', name: 'Desert Rockets JV', role: 'subsidiary' as const }] }
+};
+
+describe('normalizeEntityName', () => {
+  it('ignores case, punctuation and corporate suffixes', () => {
+    expect(normalizeEntityName('Nintendo Co., Ltd.')).toBe('nintendo');
+    expect(normalizeEntityName('  ACME   Corp ')).toBe('acme');
+  });
+});
+
+describe('findCrossReferences', () => {
+  it('lists the names each company shares with another', () => {
+    const shared = findCrossReferences([{ id: 'a', data: ACME }, { id: 'b', data: coyote }]);
+    expect([...shared.get('a')!]).toEqual(['desert rockets jv']);
+    expect([...shared.get('b')!]).toEqual(['desert rockets jv']);
+  });
+
+  it('keeps two analyses of the same company apart', () => {
+    const shared = findCrossReferences([{ id: 'first', data: ACME }, { id: 'second', data: ACME }]);
+    expect(shared.size).toBe(2);
+    expect(shared.get('first')).toEqual(shared.get('second'));
+  });
+});
@@ -0,0 +1,68 @@
+import { CompanyData, OrgNode } from "../types";
+import { fetchCompanyDataCached } from "./analysisCache";
+import { describeError } from "./llmErrors";
+import { createAnalysisId } from "./analysisStore";
+
+export const MAX_COMPARED_COMPANIES = 4;
+
+const CORPORATE_SUFFIXES = /\b(inc|incorporated|corp|corporation|co|company|ltd|limited|llc|plc|ag|sa|gmbh|kk|holdings?|group)\b/g;
+
+// "Nintendo Co., Ltd." and "Nintendo" compare equal
+export const normalizeEntityName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[.,'’&()]/g, ' ')
+    .replace(CORPORATE_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const collectNames = (node: OrgNode, into: Set<string>) => {
+  into.add(normalizeEntityName(node.name));
+  node.children?.forEach((child) => collectNames(child, into));
+  return into;
+};
+
+// One analysis in a comparison. The id tells apart two entries for the same company name.
+export interface ComparedCompany {
+  id: string;
+  data: CompanyData;
+}
+
+// For each company (by id), the normalized names of its org nodes that also appear in
+// another loaded company — a shared parent, a common subsidiary, or the other company itself.
+export const findCrossReferences = (companies: ComparedCompany[]): Map<string, Set<string>> => {
+  const namesByCompany = companies.map(({ data }) => {
+    const names = collectNames(data.structure, new Set());
+    names.add(normalizeEntityName(data.companyName));
+    return names;
+  });
+
+  const result = new Map<string, Set<string>>();
+  companies.forEach((company, idx) => {
+    const shared = new Set<string>();
+    namesByCompany[idx].forEach((name) => {
+      if (namesByCompany.some((others, otherIdx) => otherIdx !== idx && others.has(name))) {
+        shared.add(name);
+      }
+    });
+    result.set(company.id, shared);
+  });
+  return result;
+};
+
+export interface ComparisonResult {
+  query: string;
+  company?: ComparedCompany;
+  error?: string;
+}
+
+// Loads every company in parallel; one failure does not discard the others
+export const fetchComparison = async (names: string[]): Promise<ComparisonResult[]> => {
+  const queries = names.map((n) => n.trim()).filter(Boolean).slice(0, MAX_COMPARED_COMPANIES);
+  const settled = await Promise.allSettled(queries.map(async (q) => (await fetchCompanyDataCached(q)).data));
+  return settled.map((outcome, idx) =>
+    outcome.status === 'fulfilled'
+      ? { query: queries[idx], company: { id: createAnalysisId(), data: outcome.value } }
+      : { query: queries[idx], error: describeError(outcome.reason, "Failed to fetch company data.").message }
+  );
+};
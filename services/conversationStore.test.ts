@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ChatMessage } from '../types';
+import { listConversations, saveConversation, deleteConversation, adoptTranscript, conversationTitle } from './conversationStore';
+
+const message = (role: ChatMessage['role'], text: string, at = 0): ChatMessage => ({ id: `${role}-${text}`, role, text, timestamp: new Date(at) });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('conversationStore', () => {
+  it('keeps every conversation of a company, newest first, under any spelling of its name', () => {
+    vi.useFakeTimers({ now: 1000 });
+    saveConversation('Globex Corp', 'first', [message('user', 'Who founded it?')]);
+    vi.setSystemTime(2000);
+    saveConversation('globex corp.', 'second', [message('user', 'List the subsidiaries')]);
+
+    expect(listConversations('GLOBEX CORP').map((c) => c.id)).toEqual(['second', 'first']);
+    expect(listConversations('Initech')).toEqual([]);
+  });
+
+  it('updates a conversation in place and keeps when it started', () => {
+    vi.useFakeTimers({ now: 1000 });
+    saveConversation('Hooli', 'chat', [message('user', 'Hi')]);
+    vi.setSystemTime(5000);
+    saveConversation('Hooli', 'chat', [message('user', 'Hi'), message('model', 'Hello')]);
+
+    const [conversation, ...rest] = listConversations('Hooli');
+    expect(rest).toEqual([]);
+    expect(conversation).toMatchObject({ createdAt: 1000, updatedAt: 5000 });
+    expect(conversation.messages).toHaveLength(2);
+  });
+
+  it('deletes one conversation without touching the others', () => {
+    saveConversation('Vandelay', 'keep', [message('user', 'a')]);
+    saveConversation('Vandelay', 'drop', [message('user', 'b')]);
+    deleteConversation('drop');
+    expect(listConversations('Vandelay').map((c) => c.id)).toEqual(['keep']);
+  });
+
+  it('adopts the transcript of an older record once', () => {
+    const transcript = [message('model', 'Hi!', 100), message('user', 'What changed in 2020?', 200)];
+    adoptTranscript('Soylent', 'analysis-1', transcript, 50);
+    adoptTranscript('Soylent', 'analysis-1', [...transcript, message('user', 'again', 300)], 50);
+
+    expect(listConversations('Soylent')).toEqual([
+      expect.objectContaining({ id: 'chat-analysis-1', title: 'What changed in 2020?', createdAt: 50, updatedAt: 200, messages: transcript })
+    ]);
+  });
+
+  it('does not adopt a transcript without a question', () => {
+    adoptTranscript('Cyberdyne', 'analysis-2', [message('model', 'Hi!')], 50);
+    expect(listConversations('Cyberdyne')).toEqual([]);
+  });
+});
+
+describe('conversationTitle', () => {
+  it('uses the first question, shortened', () => {
+    expect(conversationTitle([message('model', 'Hi'), message('user', '  Who   owns it? ')])).toBe('Who owns it?');
+    expect(conversationTitle([message('user', 'x'.repeat(80))])).toHaveLength(60);
+    expect(conversationTitle([message('model', 'Hi')])).toBe('Conversation');
+  });
+});
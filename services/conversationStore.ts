@@ -0,0 +1,98 @@
+import { ChatMessage, Conversation } from "../types";
+import { normalizeEntityName } from "./comparison";
+import { logger } from "./logger";
+
+// Chat conversations, listed per company so a re-analysis or drill-down of the same company
+// can pick up an earlier chat. "New conversation" adds one; nothing is overwritten.
+
+const STORAGE_KEY = "corporate-chronicles:conversations";
+const MAX_TITLE_LENGTH = 60;
+
+// localStorage when available so chats survive reloads; memory otherwise (and in Node)
+const storage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+let conversations: Conversation[] | null = null;
+
+// JSON round-trips turn Date into strings; restore chat timestamps on read
+const revive = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  messages: conversation.messages.map((msg) => ({ ...msg, timestamp: new Date(msg.timestamp) }))
+});
+
+const load = (): Conversation[] => {
+  if (conversations) return conversations;
+  conversations = [];
+  try {
+    const parsed = JSON.parse(storage()?.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(parsed)) conversations = parsed.filter((c) => c && Array.isArray(c.messages)).map(revive);
+  } catch (e) {
+    logger.warn("Ignoring unreadable chat conversations", e);
+  }
+  return conversations;
+};
+
+const persist = (next: Conversation[]) => {
+  conversations = next;
+  try {
+    storage()?.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    logger.warn("Could not save chat conversations", e);
+  }
+};
+
+export const createConversationId = (): string =>
+  `chat-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const conversationTitle = (messages: ChatMessage[]): string => {
+  const first = messages.find((msg) => msg.role === 'user')?.text.trim().replace(/\s+/g, ' ') || 'Conversation';
+  return first.length > MAX_TITLE_LENGTH ? `${first.slice(0, MAX_TITLE_LENGTH - 1)}…` : first;
+};
+
+// Most recently active first
+export const listConversations = (companyName: string): Conversation[] => {
+  const key = normalizeEntityName(companyName);
+  return load()
+    .filter((conversation) => conversation.companyKey === key)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Adds the conversation or replaces the stored one with the same id
+export const saveConversation = (companyName: string, id: string, messages: ChatMessage[]): Conversation => {
+  const now = Date.now();
+  const conversation: Conversation = {
+    id,
+    companyKey: normalizeEntityName(companyName),
+    title: conversationTitle(messages),
+    messages,
+    createdAt: load().find((c) => c.id === id)?.createdAt ?? now,
+    updatedAt: now
+  };
+  persist([...load().filter((c) => c.id !== id), conversation]);
+  return conversation;
+};
+
+export const deleteConversation = (id: string) => {
+  persist(load().filter((c) => c.id !== id));
+};
+
+// Records saved before conversations were kept per company carry their own transcript; it
+// becomes a conversation the first time the record is listed or opened
+export const adoptTranscript = (companyName: string, analysisId: string, transcript: ChatMessage[] | undefined, createdAt: number) => {
+  const id = `chat-${analysisId}`;
+  if (!transcript?.some((msg) => msg.role === 'user') || load().some((c) => c.id === id)) return;
+  const lastActive = transcript[transcript.length - 1].timestamp.getTime();
+  persist([...load(), {
+    id,
+    companyKey: normalizeEntityName(companyName),
+    title: conversationTitle(transcript),
+    messages: transcript,
+    createdAt,
+    updatedAt: Number.isFinite(lastActive) ? lastActive : createdAt
+  }]);
+};
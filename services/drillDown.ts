@@ -0,0 +1,50 @@
+import { CompanyData, OrgNode, NodeProvenance, SavedAnalysis } from "../types";
+import { normalizeEntityName } from "./comparison";
+import { mergeStructure } from "./importers";
+import { OrgPath, getNodeAtPath, updateNodeAtPath } from "./orgTree";
+
+// The drilled analysis may place the entity under its own parent group; find it by name
+export const findEntitySubtree = (root: OrgNode, name: string): OrgNode | null => {
+  if (normalizeEntityName(root.name) === normalizeEntityName(name)) return root;
+  for (const child of root.children || []) {
+    const found = findEntitySubtree(child, name);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Merges the drilled entity's structure under the node at `path`. Existing children
+// (and any manual edits to them) win over the fresh analysis when names collide.
+export const graftDrillDown = (
+  parent: CompanyData,
+  path: OrgPath,
+  drilled: CompanyData,
+  provenance: NodeProvenance
+): CompanyData => {
+  const node = getNodeAtPath(parent.structure, path);
+  if (!node) throw new Error(`No org node at path [${path.join(', ')}]`);
+
+  const subtree = findEntitySubtree(drilled.structure, node.name) || drilled.structure;
+  const structure = updateNodeAtPath(parent.structure, path, (current) => ({
+    ...mergeStructure(current, { ...subtree, name: current.name }),
+    provenance
+  }));
+
+  return {
+    ...parent,
+    structure,
+    sources: Array.from(new Map([...parent.sources, ...drilled.sources].map((s) => [s.uri, s])).values())
+  };
+};
+
+// Ancestors first, ending with `id`; stops on missing records or cycles
+export const analysisLineage = (records: SavedAnalysis[], id: string): SavedAnalysis[] => {
+  const byId = new Map(records.map((r) => [r.id, r]));
+  const chain: SavedAnalysis[] = [];
+  let current = byId.get(id);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.parent ? byId.get(current.parent.id) : undefined;
+  }
+  return chain;
+};
@@ -0,0 +1,53 @@
+import { CompanyData, TimelineEvent, OrgNode, SavedAnalysis } from "../types";
+
+type EntityPrefix = 'evt' | 'node';
+
+// Short enough for the model to copy back into tool calls
+export const createEntityId = (prefix: EntityPrefix): string =>
+  `${prefix}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Missing ids are derived from the content, so the same event gets the same id in every
+// version of a record saved before ids existed
+const contentId = (prefix: EntityPrefix, text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  return `${prefix}-${hash.toString(36).padStart(6, '0').slice(-6)}`;
+};
+
+export const eventContentId = (event: Pick<TimelineEvent, 'year' | 'title'>): string =>
+  contentId('evt', `${event.year}|${event.title.toLowerCase()}`);
+
+export const nodeContentId = (node: Pick<OrgNode, 'name'>): string => contentId('node', node.name.toLowerCase());
+
+// Gives every event and node an id, replacing missing and duplicate ones. Entries that already
+// have a unique id are returned as-is, so object identity survives for unchanged data.
+export const ensureEntityIds = <T extends { timeline: TimelineEvent[]; structure: OrgNode }>(data: T): T => {
+  const seen = new Set<string>();
+  const claim = (id: string | undefined, prefix: EntityPrefix, derived: () => string) => {
+    let next = id || derived();
+    while (seen.has(next)) next = createEntityId(prefix);
+    seen.add(next);
+    return next;
+  };
+  const visit = (node: OrgNode): OrgNode => {
+    const id = claim(node.id, 'node', () => nodeContentId(node));
+    const children = node.children?.map(visit);
+    const childrenChanged = !!children && children.some((child, idx) => child !== node.children![idx]);
+    if (id === node.id && !childrenChanged) return node;
+    return children ? { ...node, id, children } : { ...node, id };
+  };
+  const timeline = data.timeline.map((event) => {
+    const id = claim(event.id, 'evt', () => eventContentId(event));
+    return id === event.id ? event : { ...event, id };
+  });
+  const structure = visit(data.structure);
+  const unchanged = structure === data.structure && timeline.every((event, idx) => event === data.timeline[idx]);
+  return unchanged ? data : { ...data, timeline, structure };
+};
+
+// Records saved before ids existed get them on load
+export const migrateEntityIds = (record: SavedAnalysis): SavedAnalysis => {
+  if (!record.history) return { ...record, data: ensureEntityIds(record.data) };
+  const versions = record.history.versions.map((version) => ({ ...version, data: ensureEntityIds(version.data) as CompanyData }));
+  return { ...record, data: versions[record.history.index].data, history: { ...record.history, versions } };
+};
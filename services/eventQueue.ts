@@ -0,0 +1,47 @@
+// Bridges callback-style producers to an async iterator consumed with `for await`
+
+export interface EventQueue<T> extends AsyncIterable<T> {
+  push(event: T): void;
+  close(): void;
+  fail(error: unknown): void;
+}
+
+export const createEventQueue = <T>(): EventQueue<T> => {
+  const buffered: T[] = [];
+  let closed = false;
+  let failure: { error: unknown } | null = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  return {
+    push(event: T) {
+      if (closed) return;
+      buffered.push(event);
+      notify();
+    },
+    close() {
+      closed = true;
+      notify();
+    },
+    fail(error: unknown) {
+      failure = { error };
+      closed = true;
+      notify();
+    },
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        if (buffered.length > 0) {
+          yield buffered.shift()!;
+          continue;
+        }
+        if (failure) throw failure.error;
+        if (closed) return;
+        await new Promise<void>((resolve) => { wake = resolve; });
+      }
+    }
+  };
+};
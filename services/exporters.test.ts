@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { toJson, toCsv, toMarkdown, escapeCsvField, toFileSlug, CSV_COLUMNS } from './exporters';
+import { parseImportFile, parseCsv, parseTimelineCsv } from './importers';
+import { ACME } from './__fixtures__/companyData';
+
+describe('toJson', () => {
+  it('round-trips through the importer unchanged', () => {
+    const imported = parseImportFile(toJson(ACME), 'acme.json');
+    expect(imported).toEqual({ kind: 'company', data: ACME });
+  });
+
+  it('keeps ids, so a re-import is the same analysis', () => {
+    const imported = parseImportFile(toJson(ACME), 'acme.json');
+    if (imported.kind !== 'company') throw new Error('expected company data');
+    expect(imported.data.timeline.map((e) => e.id)).toEqual(ACME.timeline.map((e) => e.id));
+    expect(imported.data.structure.children?.[1].id).toBe('node-jv');
+  });
+});
+
+describe('escapeCsvField', () => {
+  it.each([
+    ['plain', 'plain'],
+    ['a, b', '"a, b"'],
+    ['say "hi"', '"say ""hi"""'],
+    ['two\nlines', '"two\nlines"'],
+    ['cr\r\nlf', '"cr\r\nlf"'],
+    [1972, '1972'],
+    [undefined, ''],
+    [null, '']
+  ])('escapes %j as %j', (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+});
+
+describe('toCsv', () => {
+  const csv = toCsv(ACME);
+
+  it('writes a header and one row per event, sorted by year', () => {
+    const rows = parseCsv(csv);
+    expect(rows[0]).toEqual([...CSV_COLUMNS]);
+    expect(rows.slice(1).map((row) => row[0])).toEqual(['1949', '1972', '1985']);
+  });
+
+  it('quotes commas, quotes and newlines so every row has the same columns', () => {
+    const rows = parseCsv(csv);
+    rows.forEach((row) => expect(row).toHaveLength(CSV_COLUMNS.length));
+    const deal = rows[2];
+    expect(deal[CSV_COLUMNS.indexOf('title')]).toBe('Buys Roadrunner, Inc.');
+    expect(deal[CSV_COLUMNS.indexOf('description')]).toBe('The "beep beep" deal,\nsigned in two parts | closed later.');
+    expect(deal[CSV_COLUMNS.indexOf('sourceUris')]).toBe('https://news.example/deal https://unlisted.example/x');
+    expect(csv).toContain('"The ""beep beep"" deal,\nsigned in two parts | closed later."');
+  });
+
+  it('ends every line with CRLF', () => {
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csv.split('\r\n')).toHaveLength(ACME.timeline.length + 2);
+  });
+
+  it('reads back as the same timeline', () => {
+    const events = parseTimelineCsv(csv);
+    const byId = (id: string) => events.find((e) => e.id === id);
+    ACME.timeline.forEach((event) => expect(byId(event.id)).toEqual(event));
+  });
+});
+
+describe('toMarkdown', () => {
+  const markdown = toMarkdown(ACME);
+  const lines = markdown.split('\n');
+
+  it('starts with the name and summary', () => {
+    expect(lines.slice(0, 3)).toEqual(['# Acme Corp', '', ACME.summary]);
+  });
+
+  it('renders the structure as an indented list, one level per depth', () => {
+    const start = lines.indexOf('## Organizational Structure') + 2;
+    expect(lines.slice(start, start + 4)).toEqual([
+      '- **Acme Corp** (root) [1]',
+      '  - **Acme Anvils** (subsidiary; Wholly owned) — Heavy goods _unsourced_',
+      '    - **Acme Forge** (department) _unsourced_',
+      '  - **Desert Rockets JV** (subsidiary; Joint venture, 50%) — also held by Coyote Holdings (Joint venture, 50%) _unsourced_'
+    ]);
+  });
+
+  it('escapes pipes and newlines in timeline cells and numbers citations by the source list', () => {
+    const row = lines.find((line) => line.startsWith('| 1972 |'));
+    expect(row).toBe(
+      '| 1972 |  | acquisition | Buys Roadrunner, Inc. | The "beep beep" deal, signed in two parts \\| closed later. | [2][link](https://unlisted.example/x) (medium) |'
+    );
+  });
+
+  it('lists numbered sources', () => {
+    expect(markdown).toContain('1. [IPO coverage](https://news.example/ipo)\n2. [Deal announcement](https://news.example/deal)\n');
+  });
+
+  it('says so when there are no events or sources', () => {
+    const empty = toMarkdown({ ...ACME, timeline: [], sources: [] });
+    expect(empty).toContain('_No timeline events._');
+    expect(empty).toContain('_No source metadata returned._');
+  });
+});
+
+describe('toFileSlug', () => {
+  it('keeps letters and digits only', () => {
+    expect(toFileSlug('  Acme, Corp. (2024) ')).toBe('acme-corp-2024');
+    expect(toFileSlug('***')).toBe('company');
+  });
+});
@@ -0,0 +1,81 @@
+import { CompanyData, OrgNode, GroundingSource } from "../types";
+import { describeEdge } from "./ownership";
+
+// Pure serializers for CompanyData. No DOM access, so they also run headlessly.
+
+export const toFileSlug = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'company';
+
+// Round-trippable: the output parses back into the same CompanyData
+export const toJson = (data: CompanyData): string => JSON.stringify(data, null, 2);
+
+const sortedTimeline = (data: CompanyData) => [...data.timeline].sort((a, b) => a.year - b.year);
+
+// --- CSV ---
+
+export const CSV_COLUMNS = ['year', 'dateStr', 'category', 'title', 'description', 'confidence', 'sourceUris', 'id'] as const;
+
+export const escapeCsvField = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (data: CompanyData): string => {
+  const rows = sortedTimeline(data).map((event) =>
+    CSV_COLUMNS.map((column) => escapeCsvField(column === 'sourceUris' ? event.sourceUris?.join(' ') : event[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// --- Markdown ---
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+// "[1][3] (high)" using the numbering of the Sources section; flags unsourced facts
+const renderCitations = (item: { sourceUris?: string[]; confidence?: string }, sources: GroundingSource[]): string => {
+  if (!item.sourceUris || item.sourceUris.length === 0) return '_unsourced_';
+  const refs = item.sourceUris.map((uri) => {
+    const idx = sources.findIndex((s) => s.uri === uri);
+    return idx === -1 ? `[link](${uri})` : `[${idx + 1}]`;
+  }).join('');
+  return item.confidence ? `${refs} (${item.confidence})` : refs;
+};
+
+const renderOrgTree = (node: OrgNode, sources: GroundingSource[], depth = 0): string[] => {
+  const description = node.description ? ` — ${node.description}` : '';
+  const edge = describeEdge(node);
+  const role = edge ? `${node.role}; ${edge}` : node.role;
+  const holders = (node.crossLinks || [])
+    .map((link) => `also held by ${link.target}${describeEdge(link) ? ` (${describeEdge(link)})` : ''}`)
+    .join('; ');
+  const line = `${'  '.repeat(depth)}- **${node.name}** (${role})${description}${holders ? ` — ${holders}` : ''} ${renderCitations(node, sources)}`;
+  return [line, ...(node.children || []).flatMap((child) => renderOrgTree(child, sources, depth + 1))];
+};
+
+export const toMarkdown = (data: CompanyData): string => {
+  const lines: string[] = [`# ${data.companyName}`, '', data.summary, ''];
+
+  lines.push('## Timeline', '');
+  if (data.timeline.length === 0) {
+    lines.push('_No timeline events._', '');
+  } else {
+    lines.push('| Year | Date | Category | Event | Details | Sources |', '| --- | --- | --- | --- | --- | --- |');
+    for (const event of sortedTimeline(data)) {
+      lines.push(`| ${event.year} | ${escapeTableCell(event.dateStr || '')} | ${event.category} | ${escapeTableCell(event.title)} | ${escapeTableCell(event.description)} | ${escapeTableCell(renderCitations(event, data.sources))} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Organizational Structure', '', ...renderOrgTree(data.structure, data.sources), '');
+
+  lines.push('## Sources', '');
+  if (data.sources.length === 0) {
+    lines.push('_No source metadata returned._');
+  } else {
+    data.sources.forEach((source, idx) => {
+      lines.push(`${idx + 1}. [${source.title || source.uri}](${source.uri})`);
+    });
+  }
+
+  return lines.join('\n') + '\n';
+};
@@ -1,7 +1,15 @@
-import { GoogleGenAI, Type, FunctionDeclaration, Tool } from "@google/genai";
-import { CompanyData, TimelineEvent, OrgNode, GroundingSource } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { CompanyData, PartialCompanyData, GroundingSource, ChatMessage, ChatToolOp } from "../types";
+import { normalizeCompanyData, CompanyDataValidationError } from "./companyDataValidator";
+import { createPartialAnalysisParser, completePartialCompanyData } from "./partialJson";
+import { getProvider, ProviderChat, ChatStreamHandlers, ChatTurn, FunctionResult, ModelResponse } from "./providers";
+import { createEventQueue } from "./eventQueue";
+import { attributeSources } from "./sourceAttribution";
+import { LLMError, classifyError, isAbortError, withRetry, withTimeout } from "./llmErrors";
+import { applyChatTool, ChatToolError } from "./chatTools";
+import { buildAnalyzeRequest, buildChatOptions } from "./prompts";
+import { formatCompanyState } from "./stateSummary";
+import { recordUsage } from "./usageTracker";
+import { logger } from "./logger";
 
 // Helper to extract JSON from a potentially messy markdown response
 const extractJson = (text: string): any => {
@@ -16,205 +24,316 @@ const extractJson = (text: string): any => {
     if (text.trim().startsWith('{')) {
       return JSON.parse(text);
     }
+    // Last resort: the outermost braces, for replies that wrap the JSON in prose
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(text.slice(start, end + 1));
+    }
     throw new Error("No JSON found");
   } catch (e) {
-    console.error("Failed to parse JSON from Gemini response", e);
+    logger.error("Failed to parse JSON from Gemini response", e);
     return null;
   }
 };
 
-export const fetchCompanyData = async (companyName: string): Promise<CompanyData> => {
-  const modelId = "gemini-2.5-flash"; 
-  
-  const prompt = `
-    I need a comprehensive analysis of the company "${companyName}".
-    
-    Please perform a Google Search to find:
-    1. A brief summary of the company.
-    2. Key historical milestones (founding, IPO, major product launches, major acquisitions, crises). Dates are important.
-    3. The organizational structure (parent company, major subsidiaries, key divisions).
-    
-    Output the result as a strict JSON object wrapped in a \`\`\`json\`\`\` code block.
-    The JSON must adhere to this schema:
-    {
-      "companyName": "Exact Company Name",
-      "summary": "Brief 2-3 sentence overview.",
-      "timeline": [
-        { "year": 2024, "dateStr": "Oct 2024", "title": "Event Title", "description": "Details...", "category": "general" }
-      ],
-      "structure": {
-        "name": "${companyName}",
-        "role": "root",
-        "description": "Headquarters",
-        "children": [
-           { "name": "Subsidiary A", "role": "subsidiary", "description": "..." }
-        ]
-      }
-    }
-    
-    For the "timeline" category, use one of: 'founding', 'product', 'acquisition', 'scandal', 'general'.
-    Ensure the "structure" is a tree starting with the main company as root. If it has a parent company, make the parent the root and the searched company a child.
-  `;
+// Thrown when streaming stops early (failure or cancel); carries whatever was usable
+export class AnalysisInterruptedError extends Error {
+  partial: CompanyData | null;
+  cancelled: boolean;
+  cause: unknown;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        systemInstruction: "You are a corporate historian and data analyst. You provide accurate, factual data based on search results.",
-      }
-    });
+  constructor(message: string, partial: CompanyData | null, cancelled: boolean, cause: unknown) {
+    super(message);
+    this.name = 'AnalysisInterruptedError';
+    this.partial = partial;
+    this.cancelled = cancelled;
+    this.cause = cause;
+  }
+}
 
-    const text = response.text || "";
-    const parsedData = extractJson(text);
+const ANALYSIS_TIMEOUT_MS = 120_000;
+const REPAIR_TIMEOUT_MS = 60_000;
 
-    if (!parsedData) {
-      throw new Error("Could not parse structured data from the AI response.");
-    }
+export interface FetchCompanyOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per attempt; transient failures are retried before anything has streamed
+  retries?: number; // Defaults to 2; callers with their own retry loop pass 0
+  onProgress?: (partial: PartialCompanyData) => void; // Called as the summary, timeline events and structure arrive
+  since?: string; // Update checks: stress developments after this date while still returning complete data
+}
 
-    // Extract grounding metadata
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources: GroundingSource[] = groundingChunks
-      .map((chunk: any) => {
-        if (chunk.web) {
-          return { title: chunk.web.title, uri: chunk.web.uri };
+export const fetchCompanyData = async (companyName: string, options: FetchCompanyOptions = {}): Promise<CompanyData> => {
+  let streamed = "";
+  const progress = createPartialAnalysisParser();
+  let response: ModelResponse;
+  try {
+    response = await withRetry(() => withTimeout(async (signal) => {
+      const result = await getProvider().analyzeCompany(buildAnalyzeRequest({ companyName, since: options.since }), {
+        signal,
+        onTextChunk: (delta) => {
+          streamed += delta;
+          const before = progress.snapshot();
+          const after = progress.push(delta);
+          if (after !== before) options.onProgress?.(after);
         }
-        return null;
-      })
-      .filter((s: GroundingSource | null) => s !== null) as GroundingSource[];
+      });
+      // Blocked and empty replies are billed too
+      recordUsage(companyName, options.since ? 'update-check' : 'analysis', result.usage, result.model);
+      if (result.blockReason) throw new LLMError('safety', `Response blocked (${result.blockReason})`);
+      if (!result.text.trim()) throw new LLMError('empty', 'The model returned an empty response');
+      return result;
+    }, options.timeoutMs ?? ANALYSIS_TIMEOUT_MS, options.signal), {
+      signal: options.signal,
+      retries: options.retries,
+      // A retry would restart the stream the user is already watching
+      canRetry: () => !streamed.trim(),
+      onRetry: (error, attempt, delayMs) => logger.warn(`Analysis attempt ${attempt} failed (${error.kind}), retrying in ${Math.round(delayMs)}ms`)
+    });
+  } catch (error: any) {
+    logger.error("Gemini API Error:", error);
+    const cancelled = isAbortError(error) || !!options.signal?.aborted;
+    if (!streamed.trim() && !cancelled) throw classifyError(error);
 
-    const uniqueSources = Array.from(new Map(sources.map(s => [s.uri, s])).values());
+    // Keep whatever arrived before the stream stopped
+    const partial = streamed ? completePartialCompanyData(progress.snapshot(), companyName) : null;
+    const reason = cancelled ? "Analysis cancelled" : `Analysis stopped early (${error?.message || "unknown error"})`;
+    throw new AnalysisInterruptedError(
+      partial ? `${reason}. Showing the partial results received so far.` : `${reason}.`,
+      partial,
+      cancelled,
+      error
+    );
+  }
 
-    return {
-      ...parsedData,
-      sources: uniqueSources
-    };
+  let data: Omit<CompanyData, 'sources'>;
+  try {
+    data = parseAnalysis(response.text, companyName);
+  } catch (error) {
+    if (!(error instanceof LLMError) || error.kind !== 'parse') throw error;
+    data = await repairAnalysis(response.text, error.message, companyName, options.since, options.signal);
+  }
+
+  return {
+    ...attributeSources(data, response.text, response.supports),
+    sources: response.sources
+  };
+};
 
+// Missing or invalid JSON becomes a 'parse' LLMError
+export const parseAnalysis = (text: string, companyName: string): Omit<CompanyData, 'sources'> => {
+  const parsedData = extractJson(text);
+  if (!parsedData) throw new LLMError('parse', "Could not parse structured data from the AI response.");
+  try {
+    return normalizeCompanyData(parsedData, companyName);
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (error instanceof CompanyDataValidationError) throw new LLMError('parse', error.message, error);
     throw error;
   }
 };
 
+// One attempt at getting the model to fix its own malformed reply
+const repairAnalysis = async (text: string, problem: string, companyName: string, since: string | undefined, signal?: AbortSignal): Promise<Omit<CompanyData, 'sources'>> => {
+  try {
+    const repaired = await withTimeout(
+      (attemptSignal) => getProvider().analyzeCompany(buildAnalyzeRequest({ companyName, since, repair: { previousReply: text, problem } }), { signal: attemptSignal }),
+      REPAIR_TIMEOUT_MS,
+      signal
+    );
+    recordUsage(companyName, 'repair', repaired.usage, repaired.model);
+    return parseAnalysis(repaired.text, companyName);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new LLMError('parse', `Still no valid company data after a repair attempt: ${problem}`, error);
+  }
+};
+
 // --- Chat Functionality ---
 
-const updateDataTool: FunctionDeclaration = {
-  name: "update_company_data",
-  description: "Updates the company's timeline or organizational structure visualization. Use this when the user corrects information, asks to add missing events, or provides new details that should be reflected in the visual charts.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      timeline: {
-        type: Type.ARRAY,
-        description: "The COMPLETE updated list of timeline events. You must include existing unchanged events plus the new/modified ones.",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            year: { type: Type.NUMBER },
-            dateStr: { type: Type.STRING },
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            category: { type: Type.STRING, enum: ['founding', 'product', 'acquisition', 'scandal', 'general'] }
-          },
-          required: ['year', 'title', 'description', 'category']
-        }
-      },
-      structure: {
-        type: Type.OBJECT,
-        description: "The COMPLETE updated organizational structure tree. Includes root and all children.",
-        properties: {
-          name: { type: Type.STRING },
-          role: { type: Type.STRING },
-          description: { type: Type.STRING },
-          children: { 
-            type: Type.ARRAY,
-            items: { type: Type.OBJECT, description: "Recursive structure nodes (simplified schema for tool)" }
-          }
-        },
-        required: ['name', 'role']
-      }
-    }
-  }
+// Receives a turn's validated tool calls and returns the id of the version it proposes
+export type UpdateHandler = (ops: ChatToolOp[]) => string | void;
+
+export interface ChatReply {
+  text: string;
+  updateIds: string[]; // Versions proposed during this turn, in call order
+  sources: GroundingSource[]; // Web sources grounding this turn's answer
+  failed?: boolean;
+  error?: LLMError; // Why the turn failed
+}
+
+// Progress of a streamed chat turn; always ends with 'done'
+export type ChatEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'searching'; queries: string[] }
+  | { type: 'updating'; target: 'timeline' | 'structure'; description: string }
+  | { type: 'update-proposed'; updateId: string }
+  | { type: 'done'; reply: ChatReply };
+
+const CHAT_TIMEOUT_MS = 90_000;
+
+// Replays a saved transcript as model history: failed replies are dropped and the greeting
+// before the first question is skipped, since providers expect alternating turns from the user
+export const transcriptToHistory = (messages: ChatMessage[]): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  messages.filter((m) => !m.error && m.text.trim()).forEach((m) => {
+    const last = turns[turns.length - 1];
+    if (!last && m.role === 'model') return;
+    if (last?.role === m.role) last.text += `\n\n${m.text}`;
+    else turns.push({ role: m.role, text: m.text });
+  });
+  return turns;
 };
 
+export interface ChatSessionOptions {
+  transcript?: ChatMessage[]; // Earlier messages of a conversation being resumed
+}
+
 export class CompanyChatSession {
-  private chat: any;
-  private onUpdate: (data: Partial<CompanyData>) => void;
-
-  constructor(initialData: CompanyData, onUpdate: (data: Partial<CompanyData>) => void) {
-    this.onUpdate = onUpdate;
-    this.chat = ai.chats.create({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: `You are an intelligent assistant helping a user analyze a company. 
-        Current Context: You have access to the following company data which is currently displayed to the user:
-        ${JSON.stringify(initialData)}
-        
-        Your Goal: Answer user questions about the company. You can use Google Search to find latest info.
-        
-        CRITICAL: If the user provides corrections, asks to add specific events/nodes, or if you discover through search that the current data is outdated or incorrect, YOU MUST use the 'update_company_data' tool to update the visualization.
-        When using the tool, provide the COMPLETE updated arrays/objects, not just the diff.
-        `,
-        tools: [
-          { googleSearch: {} },
-          { functionDeclarations: [updateDataTool] }
-        ]
-      }
-    });
+  private chat: ProviderChat;
+  private onUpdate?: UpdateHandler;
+  private current: CompanyData;
+  private usageCompanies: string[]; // The turns are billed to these, split evenly in a comparison
+  private comparisonSummary: string; // Comparisons are read-only, so their data is summarized once
+  // State summary the model last saw; a new one is sent with the next message when it changes
+  private sentSummary = "";
+
+  // Pass several companies for a read-only comparison session across the set
+  constructor(context: CompanyData | CompanyData[], onUpdate?: UpdateHandler, options: ChatSessionOptions = {}) {
+    const companies = Array.isArray(context) ? context : [context];
+    const isComparison = companies.length > 1;
+    this.onUpdate = isComparison ? undefined : onUpdate;
+    this.current = companies[0];
+    this.usageCompanies = companies.map((c) => c.companyName);
+    this.comparisonSummary = isComparison ? companies.map(formatCompanyState).join("\n\n") : "";
+    this.chat = getProvider().createChat(buildChatOptions({
+      companyNames: this.usageCompanies,
+      editable: !!this.onUpdate,
+      history: options.transcript ? transcriptToHistory(options.transcript) : undefined
+    }));
+  }
+
+  // Records the data now on screen (manual edits, imports, accepted or undone updates).
+  // The model is told about it with the next message.
+  syncData(data: CompanyData) {
+    this.current = data;
+  }
+
+  // Streams one conversational turn, including any tool-call round trips
+  async *streamMessage(message: string): AsyncGenerator<ChatEvent> {
+    const queue = createEventQueue<ChatEvent>();
+    this.runTurn(message, (event) => queue.push(event)).then(
+      (reply) => {
+        queue.push({ type: 'done', reply });
+        queue.close();
+      },
+      (error) => queue.fail(error)
+    );
+    yield* queue;
   }
 
-  async sendMessage(message: string): Promise<string> {
+  async sendMessage(message: string): Promise<ChatReply> {
+    return this.runTurn(message, () => {});
+  }
+
+  private async runTurn(message: string, emit: (event: ChatEvent) => void): Promise<ChatReply> {
+    const updateIds: string[] = [];
+    const sources = new Map<string, GroundingSource>();
+    let text = "";
+    const handlers: ChatStreamHandlers = {
+      onTextChunk: (delta) => {
+        text += delta;
+        emit({ type: 'text', delta });
+      },
+      onSearch: (queries) => emit({ type: 'searching', queries })
+    };
+    const collectSources = (response: ModelResponse) => response.sources.forEach((s) => sources.set(s.uri, s));
+    // Each model call gets a timeout, and is retried while it has not streamed any text yet.
+    // Every call is billed, including each round trip of the function-call loop.
+    const call = (send: (handlers: ChatStreamHandlers) => Promise<ModelResponse>) => {
+      const streamedBefore = text.length;
+      return withRetry(() => withTimeout(async (signal) => {
+        const response = await send({ ...handlers, signal });
+        recordUsage(this.usageCompanies, 'chat', response.usage, response.model);
+        if (response.blockReason) throw new LLMError('safety', `Response blocked (${response.blockReason})`);
+        return response;
+      }, CHAT_TIMEOUT_MS), { canRetry: () => text.length === streamedBefore });
+    };
+
+    // Tool calls edit a draft of the displayed data, so later calls see earlier ones; the turn's
+    // valid calls are proposed as one update
+    let draft: CompanyData | null = null;
+    const ops: ChatToolOp[] = [];
+    const proposeDraft = () => {
+      if (ops.length === 0 || !this.onUpdate) return;
+      const updateId = this.onUpdate(ops.splice(0));
+      if (updateId) {
+        updateIds.push(updateId);
+        emit({ type: 'update-proposed', updateId });
+      }
+      // The user may reject the proposal, so resend the real state next turn
+      this.sentSummary = "";
+    };
+
     try {
-      let response = await this.chat.sendMessage({ message });
+      let context: string | undefined;
+      const summary = this.onUpdate ? formatCompanyState(this.current) : this.comparisonSummary;
+      if (summary && summary !== this.sentSummary) {
+        context = `[Current data]\n${summary}`;
+        this.sentSummary = summary;
+      }
+      let response = await call((h) => this.chat.sendMessage(message, h, context));
+      collectSources(response);
       
       // Handle potential function calls (loop until text is returned)
-      // Note: The SDK might handle automatic function calling if configured, 
-      // but for manual state updates, we often intercept.
-      // However, @google/genai typically returns functionCalls in the response candidates.
-      
-      // We need to check if the model wants to call a tool
       let functionCalls = response.functionCalls;
 
-      while (functionCalls && functionCalls.length > 0) {
-        const functionResponses = [];
+      while (functionCalls.length > 0 && this.onUpdate) {
+        const functionResponses: FunctionResult[] = [];
 
-        for (const call of functionCalls) {
-          if (call.name === 'update_company_data') {
-            console.log("Executing Update Tool:", call.args);
-            // Execute the update on the client side
-            this.onUpdate(call.args as Partial<CompanyData>);
-            
+        for (const toolCall of functionCalls) {
+          try {
+            const outcome = applyChatTool(draft || this.current, toolCall);
+            draft = outcome.data;
+            ops.push({ name: toolCall.name, args: toolCall.args, ...(outcome.id && { createdId: outcome.id }) });
+            emit({ type: 'updating', target: outcome.target, description: outcome.description });
             functionResponses.push({
-              name: call.name,
-              id: call.id,
-              response: { result: "success: visualization updated" }
+              name: toolCall.name,
+              id: toolCall.id,
+              response: { result: `${outcome.description}. Pending the user's review with the rest of this reply's changes.`, ...(outcome.id && { id: outcome.id }) }
+            });
+          } catch (validationError) {
+            if (!(validationError instanceof ChatToolError) && !(validationError instanceof CompanyDataValidationError)) throw validationError;
+            // Let the model see what was wrong so it can send a corrected call
+            functionResponses.push({
+              name: toolCall.name,
+              id: toolCall.id,
+              response: { error: validationError.message }
             });
           }
         }
 
         // Send function execution results back to the model
-        if (functionResponses.length > 0) {
-          response = await this.chat.sendMessage({
-            message: functionResponses.map((fr: any) => ({
-              functionResponse: {
-                name: fr.name,
-                response: fr.response,
-                id: fr.id
-              }
-            }))
-          });
-          // Re-check for more function calls or final text
-          functionCalls = response.functionCalls;
-        } else {
-          break;
-        }
+        response = await call((h) => this.chat.sendFunctionResponses(functionResponses, h));
+        collectSources(response);
+        // Re-check for more function calls or final text
+        functionCalls = response.functionCalls;
       }
 
-      return response.text || "I updated the information.";
+      proposeDraft();
+      return { text: text || "I updated the information.", updateIds, sources: Array.from(sources.values()) };
     } catch (error) {
-      console.error("Chat Error:", error);
-      return "I encountered an error processing your request.";
+      logger.error("Chat Error:", error);
+      // The model may never have received this turn's state summary
+      this.sentSummary = "";
+      // Edits already validated this turn are still offered for review
+      proposeDraft();
+      return {
+        text: text || "I encountered an error processing your request.",
+        updateIds,
+        sources: Array.from(sources.values()),
+        failed: true,
+        error: classifyError(error)
+      };
     }
   }
-}
\ No newline at end of file
+}
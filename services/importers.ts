@@ -0,0 +1,151 @@
+import { CompanyData, TimelineEvent, OrgNode, GroundingSource } from "../types";
+import { normalizeCompanyData, normalizeTimeline, CompanyDataValidationError } from "./companyDataValidator";
+import { CSV_COLUMNS } from "./exporters";
+import { createEntityId } from "./entityIds";
+
+export type ImportedData =
+  | { kind: 'company'; data: CompanyData }
+  | { kind: 'timeline'; timeline: TimelineEvent[] };
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+// Accepts the columns written by toCsv, in any order and case
+export const parseTimelineCsv = (text: string): TimelineEvent[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new CompanyDataValidationError('csv', 'file is empty');
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const indexOf = (name: string) => columns.indexOf(name.toLowerCase());
+  for (const required of ['year', 'title']) {
+    if (indexOf(required) === -1) throw new CompanyDataValidationError('csv', `missing "${required}" column`);
+  }
+
+  const records = rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    for (const column of CSV_COLUMNS) {
+      const idx = indexOf(column);
+      if (idx !== -1 && cells[idx] !== undefined) record[column] = cells[idx];
+    }
+    // toCsv writes source URIs space-separated in one cell
+    if (typeof record.sourceUris === 'string') record.sourceUris = record.sourceUris.split(/\s+/).filter(Boolean);
+    return record;
+  });
+  return normalizeTimeline(records, 'csv');
+};
+
+const normalizeSources = (raw: unknown): GroundingSource[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter((s) => s && typeof s.uri === 'string')
+        .map((s) => ({ title: typeof s.title === 'string' ? s.title : s.uri, uri: s.uri }))
+    : [];
+
+export const parseImportFile = (text: string, fileName: string): ImportedData => {
+  const looksLikeJson = fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('{');
+  if (!looksLikeJson) {
+    return { kind: 'timeline', timeline: parseTimelineCsv(text) };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new CompanyDataValidationError('$', 'file is not valid JSON');
+  }
+  return {
+    kind: 'company',
+    data: { ...normalizeCompanyData(raw), sources: normalizeSources(raw?.sources) }
+  };
+};
+
+// --- Merging ---
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+const eventKey = (event: TimelineEvent) => `${event.year}:${nameKey(event.title)}`;
+
+// Existing events win over imported duplicates (same year and title)
+export const mergeTimeline = (current: TimelineEvent[], incoming: TimelineEvent[]): TimelineEvent[] => {
+  const seen = new Set(current.map(eventKey));
+  return [...current, ...incoming.filter((event) => !seen.has(eventKey(event)))];
+};
+
+// Nodes with the same name are merged recursively; anything else is appended as a child
+export const mergeStructure = (current: OrgNode, incoming: OrgNode): OrgNode => {
+  if (nameKey(current.name) !== nameKey(incoming.name)) {
+    return { ...current, children: [...(current.children || []), incoming] };
+  }
+  const children = [...(current.children || [])];
+  for (const child of incoming.children || []) {
+    const idx = children.findIndex((c) => nameKey(c.name) === nameKey(child.name));
+    if (idx === -1) children.push(child);
+    else children[idx] = mergeStructure(children[idx], child);
+  }
+  const merged: OrgNode = { ...current, description: current.description || incoming.description };
+  if (children.length > 0) merged.children = children;
+  return merged;
+};
+
+export const mergeCompanyData = (current: CompanyData, imported: ImportedData): CompanyData => {
+  if (imported.kind === 'timeline') {
+    return { ...current, timeline: mergeTimeline(current.timeline, imported.timeline) };
+  }
+  const incoming = imported.data;
+  return {
+    ...current,
+    summary: current.summary || incoming.summary,
+    timeline: mergeTimeline(current.timeline, incoming.timeline),
+    structure: mergeStructure(current.structure, incoming.structure),
+    sources: Array.from(new Map([...current.sources, ...incoming.sources].map((s) => [s.uri, s])).values())
+  };
+};
+
+// Seeds a new analysis from a file; a bare timeline CSV takes its company name from the file name
+export const importedToCompanyData = (imported: ImportedData, fileName: string): CompanyData => {
+  if (imported.kind === 'company') return imported.data;
+  const companyName = fileName.replace(/\.[^.]+$/, '').replace(/-timeline$/i, '').replace(/[-_]+/g, ' ').trim() || 'Imported company';
+  return {
+    companyName,
+    summary: '',
+    timeline: imported.timeline,
+    structure: { id: createEntityId('node'), name: companyName, role: 'root' },
+    sources: []
+  };
+};
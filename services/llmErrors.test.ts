@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LLMError, classifyError, describeError } from './llmErrors';
+import { setProvider } from './providers';
+import { ProxyProvider } from './providers/proxy';
+import { MockProvider } from './providers/mock';
+import { GeminiProvider } from './providers/gemini';
+
+afterEach(() => {
+  setProvider(new MockProvider('gemini-2.5-flash'));
+});
+
+describe('classifyError', () => {
+  it.each([
+    [{ status: 401, message: 'Unauthorized' }, 'auth'],
+    [new Error('API key not valid. Please pass a valid API key.'), 'auth'],
+    [{ status: 429, message: 'Please retry in 12.5s' }, 'rate-limit'],
+    [new Error('fetch failed'), 'network'],
+    [{ status: 503, message: 'overloaded' }, 'network'],
+    [new Error('DEADLINE_EXCEEDED'), 'timeout'],
+    [new Error('Response was blocked due to SAFETY'), 'safety'],
+    [new Error('something odd'), 'unknown']
+  ])('classifies %j as %s', (error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it('reads the suggested retry delay of a rate limit', () => {
+    expect(classifyError({ status: 429, message: 'Please retry in 12.5s' }).retryAfterMs).toBe(12_500);
+  });
+});
+
+describe('describeError', () => {
+  const authError = new LLMError('auth', 'API key not valid');
+
+  it('points app users at the model proxy', () => {
+    setProvider(new ProxyProvider('gemini-2.5-flash'));
+    expect(describeError(authError).message).toMatch(/model proxy.*npm run server/);
+  });
+
+  it('points direct Gemini callers at their own environment', () => {
+    setProvider(new GeminiProvider('gemini-2.5-flash', 'bad-key'));
+    const { message } = describeError(authError);
+    expect(message).toMatch(/GEMINI_API_KEY in the environment/);
+    expect(message).not.toMatch(/npm run server/);
+  });
+
+  it('keeps the own message of errors outside the taxonomy', () => {
+    expect(describeError(new Error('file is not valid JSON'))).toMatchObject({ kind: 'unknown', message: 'file is not valid JSON' });
+  });
+});
@@ -0,0 +1,204 @@
+import { LLMErrorKind } from "../types";
+import { getProvider } from "./providers";
+
+const RETRYABLE: Record<LLMErrorKind, boolean> = {
+  auth: false,
+  'rate-limit': true,
+  network: true,
+  timeout: true,
+  safety: false,
+  parse: false, // Handled by the repair attempt instead
+  empty: true,
+  unknown: false
+};
+
+// Every failure of a model call is surfaced as one of these
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  retryable: boolean;
+  retryAfterMs?: number; // Server-suggested wait for rate limits
+  cause: unknown;
+
+  constructor(kind: LLMErrorKind, message: string, cause?: unknown, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryable = RETRYABLE[kind];
+    this.cause = cause;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Reads a field off anything thrown; SDK and fetch failures are not always Error instances
+export const errorField = (error: unknown, key: 'message' | 'status' | 'code' | 'name'): unknown =>
+  typeof error === 'object' && error !== null && key in error ? error[key] : undefined;
+
+export const isAbortError = (error: unknown) =>
+  errorField(error, 'name') === 'AbortError';
+
+// "Please retry in 12.5s" or a RetryInfo "retryDelay": "12s" in the error body
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry in ([\d.]+)\s*s/i) || message.match(/"retryDelay":\s*"([\d.]+)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Maps SDK, fetch and validation failures onto the taxonomy; LLMErrors pass through
+export const classifyError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+  const rawMessage = errorField(error, 'message');
+  const message = rawMessage ? String(rawMessage) : String(error);
+  const status = Number(errorField(error, 'status') ?? errorField(error, 'code'));
+
+  if (status === 401 || status === 403 || /api[_ ]?key|API_KEY_INVALID|PERMISSION_DENIED|unauthenticated/i.test(message)) {
+    return new LLMError('auth', message, error);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) {
+    return new LLMError('rate-limit', message, error, parseRetryAfter(message));
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(message)) {
+    return new LLMError('safety', message, error);
+  }
+  if (status === 408 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) {
+    return new LLMError('timeout', message, error);
+  }
+  if (
+    (status >= 500 && status < 600) ||
+    /UNAVAILABLE|overloaded|failed to fetch|fetch failed|network|ECONNRESET|ENOTFOUND|socket hang up/i.test(message)
+  ) {
+    return new LLMError('network', message, error);
+  }
+  return new LLMError('unknown', message, error);
+};
+
+// --- Guidance shown to the user ---
+
+export interface ErrorGuidance {
+  kind: LLMErrorKind;
+  title: string;
+  message: string;
+  retryable: boolean;
+}
+
+// The key lives with whoever calls Gemini: the model proxy for the app, the process itself for the CLI
+const authMessage = () =>
+  getProvider().name === 'proxy'
+    ? 'Gemini rejected the API key held by the model proxy, or none is configured there. Set GEMINI_API_KEY in .env.local where the proxy runs and restart it (npm run server).'
+    : 'Gemini rejected the API key, or none is configured. Set GEMINI_API_KEY in the environment or in .env.local and try again.';
+
+const GUIDANCE: Record<LLMErrorKind, { title: string; message: string | (() => string) }> = {
+  auth: {
+    title: 'API key problem',
+    message: authMessage
+  },
+  'rate-limit': {
+    title: 'Rate limit reached',
+    message: 'The Gemini quota or rate limit was hit. Wait a minute and retry, or check the quota of your plan.'
+  },
+  network: {
+    title: 'Connection problem',
+    message: 'The Gemini API could not be reached or is temporarily unavailable. Check your connection and retry.'
+  },
+  timeout: {
+    title: 'Request timed out',
+    message: 'The model took too long to answer. Retry, or try a more specific request.'
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    message: 'The model declined this request. Rephrase it or try a different company.'
+  },
+  parse: {
+    title: 'Unreadable response',
+    message: "The model's reply could not be turned into company data, even after asking it to fix it. Retrying usually helps."
+  },
+  empty: {
+    title: 'No results',
+    message: 'The model returned nothing. Check the spelling of the company name and retry.'
+  },
+  unknown: {
+    title: 'Something went wrong',
+    message: 'The request failed unexpectedly.'
+  }
+};
+
+// Errors outside the taxonomy (e.g. a bad import file) keep their own message
+export const describeError = (error: unknown, fallback?: string): ErrorGuidance => {
+  const classified = classifyError(error);
+  const guidance = GUIDANCE[classified.kind];
+  const text = typeof guidance.message === 'function' ? guidance.message() : guidance.message;
+  const ownMessage = errorField(error, 'message');
+  const message = classified.kind === 'unknown'
+    ? (typeof ownMessage === 'string' && ownMessage) || fallback || text
+    : text;
+  return { kind: classified.kind, title: guidance.title, message, retryable: classified.retryable };
+};
+
+// --- Timeouts and retries ---
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+// Aborts `run` after timeoutMs (or when `outer` aborts). Races the call as well, so providers
+// that ignore the signal still give up on time.
+export const withTimeout = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  if (outer?.aborted) throw abortError();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onOuterAbort = () => controller.abort();
+  outer?.addEventListener('abort', onOuterAbort, { once: true });
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(abortError()), { once: true });
+  });
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } catch (error) {
+    if (timedOut) throw new LLMError('timeout', `No complete response within ${Math.round(timeoutMs / 1000)}s`, error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onOuterAbort);
+  }
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  canRetry?: (error: LLMError) => boolean; // Extra veto, e.g. once output has streamed to the user
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+// Retries transient failures with exponential backoff and jitter; rethrows everything as LLMError
+// (aborts are rethrown untouched so callers can tell a cancel apart)
+export const withRetry = async <T>(run: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 2, baseDelayMs = 1000, signal, canRetry, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (raw) {
+      if (isAbortError(raw) || signal?.aborted) throw raw;
+      const error = classifyError(raw);
+      if (attempt >= retries || !error.retryable || (canRetry && !canRetry(error))) throw error;
+      const backoff = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const delay = Math.min(30_000, Math.max(backoff, error.retryAfterMs || 0));
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
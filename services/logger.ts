@@ -0,0 +1,17 @@
+// Diagnostics from the service layer. They go to the console by default; the CLI turns them
+// off (unless --verbose) so its stderr only carries its own messages.
+
+let enabled = true;
+
+export const setServiceLogging = (on: boolean) => {
+  enabled = on;
+};
+
+export const logger = {
+  warn: (...args: unknown[]) => {
+    if (enabled) console.warn(...args);
+  },
+  error: (...args: unknown[]) => {
+    if (enabled) console.error(...args);
+  }
+};
@@ -0,0 +1,67 @@
+import { OrgNode } from "../types";
+
+// Child indices from the root, e.g. [0, 2] is the third child of the root's first child
+export type OrgPath = number[];
+
+export const getNodeAtPath = (root: OrgNode, path: OrgPath): OrgNode | undefined => {
+  let node: OrgNode | undefined = root;
+  for (const idx of path) {
+    node = node?.children?.[idx];
+  }
+  return node;
+};
+
+// Returns a new tree with the node at `path` replaced by `update(node)`; untouched branches are shared
+export const updateNodeAtPath = (root: OrgNode, path: OrgPath, update: (node: OrgNode) => OrgNode): OrgNode => {
+  if (path.length === 0) return update(root);
+  const [idx, ...rest] = path;
+  const children = root.children || [];
+  if (!children[idx]) throw new Error(`No org node at path [${path.join(', ')}]`);
+  return {
+    ...root,
+    children: children.map((child, i) => (i === idx ? updateNodeAtPath(child, rest, update) : child))
+  };
+};
+
+const withChildren = (node: OrgNode, children: OrgNode[]): OrgNode => {
+  const { children: _omit, ...rest } = node;
+  return children.length > 0 ? { ...rest, children } : rest;
+};
+
+export const addChildAtPath = (root: OrgNode, parentPath: OrgPath, child: OrgNode): OrgNode =>
+  updateNodeAtPath(root, parentPath, (parent) => withChildren(parent, [...(parent.children || []), child]));
+
+export const removeNodeAtPath = (root: OrgNode, path: OrgPath): OrgNode => {
+  if (path.length === 0) throw new Error("The root node cannot be removed.");
+  const parentPath = path.slice(0, -1);
+  const idx = path[path.length - 1];
+  return updateNodeAtPath(root, parentPath, (parent) =>
+    withChildren(parent, (parent.children || []).filter((_, i) => i !== idx))
+  );
+};
+
+const isPrefix = (prefix: OrgPath, path: OrgPath) =>
+  prefix.length <= path.length && prefix.every((idx, i) => path[i] === idx);
+
+// Moves a subtree under a new parent. Paths refer to the tree before the move.
+export const moveNode = (root: OrgNode, fromPath: OrgPath, toParentPath: OrgPath): OrgNode => {
+  if (fromPath.length === 0) throw new Error("The root node cannot be moved.");
+  if (isPrefix(fromPath, toParentPath)) throw new Error("A node cannot be moved under itself.");
+
+  const node = getNodeAtPath(root, fromPath);
+  const newParent = getNodeAtPath(root, toParentPath);
+  if (!node || !newParent) throw new Error("Invalid move: node not found.");
+
+  // Removing the node shifts later siblings, which may be ancestors of the target
+  const removed = removeNodeAtPath(root, fromPath);
+  const depth = fromPath.length - 1;
+  const adjustedTarget = [...toParentPath];
+  if (
+    toParentPath.length > depth &&
+    isPrefix(fromPath.slice(0, -1), toParentPath) &&
+    toParentPath[depth] > fromPath[depth]
+  ) {
+    adjustedTarget[depth] -= 1;
+  }
+  return addChildAtPath(removed, adjustedTarget, node);
+};
@@ -0,0 +1,62 @@
+import { OrgNode, OrgCrossLink, RelationshipType } from "../types";
+import { normalizeEntityName } from "./comparison";
+
+export const RELATIONSHIP_LABELS: Record<RelationshipType, string> = {
+  'wholly-owned': 'Wholly owned',
+  majority: 'Majority stake',
+  minority: 'Minority stake',
+  'joint-venture': 'Joint venture',
+  divested: 'Divested'
+};
+
+const SHORT_LABELS: Record<RelationshipType, string> = {
+  'wholly-owned': '',
+  majority: 'maj.',
+  minority: 'min.',
+  'joint-venture': 'JV',
+  divested: 'divested'
+};
+
+type Edge = Pick<OrgNode, 'relationship' | 'ownershipPercent' | 'acquiredDate'>;
+
+// Compact edge label, e.g. "JV 50%", "100% · 2012", "divested"; empty for plain tree edges
+export const formatEdgeLabel = (edge: Edge): string => {
+  const stake = [
+    edge.relationship ? SHORT_LABELS[edge.relationship] : '',
+    edge.ownershipPercent !== undefined ? `${edge.ownershipPercent}%` : ''
+  ].filter(Boolean).join(' ');
+  const year = edge.acquiredDate?.match(/\b(\d{4})\b/)?.[1] || edge.acquiredDate;
+  return [stake, year].filter(Boolean).join(' · ');
+};
+
+// Long form for tooltips and exports, e.g. "Joint venture, 50%, acquired Mar 2012"
+export const describeEdge = (edge: Edge): string =>
+  [
+    edge.relationship ? RELATIONSHIP_LABELS[edge.relationship] : '',
+    edge.ownershipPercent !== undefined ? `${edge.ownershipPercent}%` : '',
+    edge.acquiredDate ? `acquired ${edge.acquiredDate}` : ''
+  ].filter(Boolean).join(', ');
+
+export interface ResolvedCrossLink {
+  source: OrgNode;
+  target: OrgNode;
+  link: OrgCrossLink;
+}
+
+// Cross-links name their target; links to names missing from the tree (or to the node itself) are skipped
+export const resolveCrossLinks = (root: OrgNode): ResolvedCrossLink[] => {
+  const byName = new Map<string, OrgNode>();
+  const all: OrgNode[] = [];
+  const visit = (node: OrgNode) => {
+    all.push(node);
+    const key = normalizeEntityName(node.name);
+    if (!byName.has(key)) byName.set(key, node);
+    node.children?.forEach(visit);
+  };
+  visit(root);
+
+  return all.flatMap((source) => (source.crossLinks || []).flatMap((link) => {
+    const target = byName.get(normalizeEntityName(link.target));
+    return target && target !== source ? [{ source, target, link }] : [];
+  }));
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { PartialCompanyData } from '../types';
+import { createPartialAnalysisParser, extractPartialCompanyData, completePartialCompanyData } from './partialJson';
+import { parseAnalysis } from './geminiService';
+import { VALID_OUTPUT, MALFORMED_OUTPUTS } from './__fixtures__/modelOutputs';
+
+// Feeds a reply in chunks of `size` characters, keeping every distinct snapshot
+const stream = (text: string, size: number) => {
+  const parser = createPartialAnalysisParser();
+  const snapshots: PartialCompanyData[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    const next = parser.push(text.slice(i, i + size));
+    if (next !== snapshots[snapshots.length - 1]) snapshots.push(next);
+  }
+  return snapshots;
+};
+
+describe('createPartialAnalysisParser', () => {
+  it('ends with the same data as the final parse, ids included', () => {
+    const snapshots = stream(VALID_OUTPUT, 7);
+    const last = snapshots[snapshots.length - 1];
+    const final = parseAnalysis(VALID_OUTPUT, 'Acme');
+    expect(last).toEqual({ companyName: final.companyName, summary: final.summary, timeline: final.timeline, structure: final.structure });
+  });
+
+  it('gives an event the same id in every snapshot', () => {
+    const ids = new Set(stream(VALID_OUTPUT, 3).flatMap((s) => s.timeline.map((e) => e.id)));
+    expect(ids.size).toBe(2);
+  });
+
+  it('adds an event once its object closes and keeps earlier events by identity', () => {
+    const snapshots = stream(VALID_OUTPUT, 1);
+    const counts = snapshots.map((s) => s.timeline.length);
+    expect(counts).toEqual([...counts].sort());
+    const withOne = snapshots.find((s) => s.timeline.length === 1)!;
+    const withTwo = snapshots.find((s) => s.timeline.length === 2)!;
+    expect(withTwo.timeline[0]).toBe(withOne.timeline[0]);
+  });
+
+  it('shows the structure as soon as its object closes, before the document ends', () => {
+    const text = VALID_OUTPUT.slice(0, VALID_OUTPUT.lastIndexOf('}'));
+    const partial = extractPartialCompanyData(text);
+    expect(partial.structure?.children?.[0].name).toBe('Acme Anvils');
+  });
+
+  it('streams the summary while it is still arriving', () => {
+    const parser = createPartialAnalysisParser();
+    expect(parser.push('{"companyName": "Acme", "summary": "Maker of a').summary).toBe('Maker of a');
+    expect(parser.push('nvils \\').summary).toBe('Maker of anvils ');
+    expect(parser.push('"new\\u00').summary).toBe('Maker of anvils '); // Half an escape
+    expect(parser.push('e9 ok').summary).toBe('Maker of anvils "newé ok');
+  });
+
+  it('returns the same snapshot when a chunk adds nothing usable', () => {
+    const parser = createPartialAnalysisParser();
+    const first = parser.push('{"companyName": "Acme", "timeline": [{"year": 19');
+    expect(parser.push('49, "title": "Fou')).toBe(first);
+  });
+
+  it('skips invalid events and keeps the rest', () => {
+    expect(extractPartialCompanyData(MALFORMED_OUTPUTS.eventWithoutYear).timeline.map((e) => e.title)).toEqual(['Founded']);
+    expect(extractPartialCompanyData(MALFORMED_OUTPUTS.eventString).timeline).toEqual([]);
+  });
+
+  it('drops an event cut off mid-way', () => {
+    const partial = extractPartialCompanyData(MALFORMED_OUTPUTS.truncated);
+    expect(partial).toMatchObject({ companyName: 'Acme Corp', summary: 'Maker of anvils.', timeline: [] });
+  });
+
+  it('ignores prose before and after the document', () => {
+    const partial = extractPartialCompanyData(MALFORMED_OUTPUTS.proseWrapped);
+    expect(partial.structure?.name).toBe('Acme Corp');
+    expect(extractPartialCompanyData(MALFORMED_OUTPUTS.noJson)).toEqual({ timeline: [] });
+  });
+});
+
+describe('completePartialCompanyData', () => {
+  it('keeps a structure received before the stream stopped', () => {
+    const text = VALID_OUTPUT.slice(0, VALID_OUTPUT.lastIndexOf('}'));
+    const data = completePartialCompanyData(extractPartialCompanyData(text), 'Acme')!;
+    expect(data.structure.children).toHaveLength(1);
+    expect(data.timeline).toHaveLength(2);
+  });
+
+  it('uses a placeholder root when no structure arrived', () => {
+    const data = completePartialCompanyData(extractPartialCompanyData(MALFORMED_OUTPUTS.truncatedAfterTimeline), 'Acme')!;
+    expect(data.structure).toMatchObject({ name: 'Acme Corp', role: 'root', description: expect.stringMatching(/not received/) });
+    expect(data.timeline.map((e) => e.title)).toEqual(['Founded']);
+  });
+
+  it('returns null when nothing usable arrived', () => {
+    expect(completePartialCompanyData({ timeline: [] }, 'Acme')).toBeNull();
+  });
+});
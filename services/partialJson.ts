@@ -0,0 +1,199 @@
+import { CompanyData, PartialCompanyData } from "../types";
+import { normalizeTimelineEvent, normalizeOrgNode, CompanyDataValidationError } from "./companyDataValidator";
+import { createEntityId } from "./entityIds";
+
+// Incremental reader for an analysis that is still being streamed. Each push scans only the
+// new text; a top-level value or timeline event is parsed once, when it closes, so the cost
+// of a chunk does not grow with the length of the response. Ids come from the content, so an
+// event keeps the same id in every snapshot and in the final parse.
+
+export interface PartialAnalysisParser {
+  push: (delta: string) => PartialCompanyData; // Same object as before unless something changed
+  snapshot: () => PartialCompanyData;
+}
+
+type ValueKind = 'string' | 'container' | 'primitive' | 'done';
+
+const tryParse = (text: string): { ok: true; value: any } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+// Invalid entries are skipped; anything else is a bug and propagates
+const orSkip = <T>(normalize: () => T): T | undefined => {
+  try {
+    return normalize();
+  } catch (e) {
+    if (e instanceof CompanyDataValidationError) return undefined;
+    throw e;
+  }
+};
+
+export const createPartialAnalysisParser = (): PartialAnalysisParser => {
+  let text = '';
+  let pos = 0;
+  let depth = 0; // 1 = inside the root object
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+
+  // Position within the root object
+  let expectKey = false;
+  let keyStart = -1;
+  let key: string | undefined;
+  let valueStart = -1;
+  let valueKind: ValueKind | undefined;
+  let eventStart = -1; // Start of the timeline event being read
+
+  let partial: PartialCompanyData = { timeline: [] };
+  const seenEventIds = new Set<string>();
+
+  const update = (changes: Partial<PartialCompanyData>) => {
+    partial = { ...partial, ...changes };
+  };
+
+  const addEvent = (end: number) => {
+    const raw = tryParse(text.slice(eventStart, end));
+    if (!raw.ok) return;
+    const event = orSkip(() => normalizeTimelineEvent(raw.value, `timeline[${partial.timeline.length}]`, 'content'));
+    if (!event) return;
+    // Same rule as ensureEntityIds: a repeated id is replaced
+    while (seenEventIds.has(event.id)) event.id = createEntityId('evt');
+    seenEventIds.add(event.id);
+    update({ timeline: [...partial.timeline, event] });
+  };
+
+  const finishValue = (end: number) => {
+    const raw = tryParse(text.slice(valueStart, end));
+    valueKind = 'done';
+    if (!raw.ok) return;
+    const value = raw.value;
+    if (key === 'companyName' && typeof value === 'string' && value.trim()) update({ companyName: value.trim() });
+    else if (key === 'summary' && typeof value === 'string') update({ summary: value });
+    else if (key === 'structure') {
+      const structure = orSkip(() => normalizeOrgNode(value, 'structure', 0, 'content'));
+      if (structure) update({ structure });
+    }
+  };
+
+  const startValue = (index: number, kind: ValueKind) => {
+    if (depth !== 1 || expectKey || valueKind) return;
+    valueStart = index;
+    valueKind = kind;
+  };
+
+  // The summary is shown while it is still arriving; a half-received escape keeps the text so far
+  const streamingSummary = (previous: string | undefined): string | undefined => {
+    let body = text.slice(valueStart, pos);
+    if (escaped) body = body.slice(0, -1);
+    const parsed = tryParse(body + '"');
+    return parsed.ok && typeof parsed.value === 'string' ? parsed.value : previous;
+  };
+
+  const scan = () => {
+    for (; pos < text.length && !finished; pos++) {
+      const char = text[pos];
+      if (depth === 0) {
+        // Skips a code fence or prose before the document
+        if (char === '{') {
+          depth = 1;
+          expectKey = true;
+        }
+        continue;
+      }
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') {
+          inString = false;
+          if (depth === 1 && keyStart >= 0) {
+            const parsed = tryParse(text.slice(keyStart, pos + 1));
+            key = parsed.ok ? parsed.value : undefined;
+            keyStart = -1;
+          } else if (depth === 1 && valueKind === 'string') {
+            finishValue(pos + 1);
+          }
+        }
+        continue;
+      }
+      switch (char) {
+        case '"':
+          inString = true;
+          if (depth === 1 && expectKey) keyStart = pos;
+          else startValue(pos, 'string');
+          break;
+        case '{':
+        case '[':
+          startValue(pos, 'container');
+          if (depth === 2 && key === 'timeline' && char === '{') eventStart = pos;
+          depth++;
+          break;
+        case '}':
+        case ']':
+          depth--;
+          if (depth === 0) {
+            if (valueKind === 'primitive') finishValue(pos);
+            finished = true; // Ignore the closing code fence and anything after
+          } else if (depth === 1 && valueKind === 'container') {
+            finishValue(pos + 1);
+          } else if (depth === 2 && key === 'timeline' && eventStart >= 0) {
+            addEvent(pos + 1);
+            eventStart = -1;
+          }
+          break;
+        case ':':
+          if (depth === 1) expectKey = false;
+          break;
+        case ',':
+          if (depth === 1) {
+            if (valueKind === 'primitive') finishValue(pos);
+            expectKey = true;
+            key = undefined;
+            valueKind = undefined;
+          } else if (depth === 2 && key === 'timeline') {
+            eventStart = -1; // Drops a non-object entry
+          }
+          break;
+        default:
+          if (!/\s/.test(char)) startValue(pos, 'primitive');
+      }
+    }
+  };
+
+  let last = partial;
+  const snapshot = (): PartialCompanyData => {
+    const streaming = key === 'summary' && valueKind === 'string' && inString;
+    const next = streaming ? { ...partial, summary: streamingSummary(last.summary) } : partial;
+    const changed = (Object.keys(next) as (keyof PartialCompanyData)[]).some((field) => next[field] !== last[field]);
+    if (changed || Object.keys(next).length !== Object.keys(last).length) last = next;
+    return last;
+  };
+
+  return {
+    push: (delta) => {
+      text += delta;
+      scan();
+      return snapshot();
+    },
+    snapshot
+  };
+};
+
+// One-shot form for a complete or truncated response
+export const extractPartialCompanyData = (text: string): PartialCompanyData => createPartialAnalysisParser().push(text);
+
+// Turns an interrupted stream into usable data, or null if nothing meaningful arrived
+export const completePartialCompanyData = (partial: PartialCompanyData, fallbackName: string): CompanyData | null => {
+  if (!partial.summary && partial.timeline.length === 0 && !partial.structure) return null;
+  const companyName = partial.companyName || fallbackName.trim();
+  return {
+    companyName,
+    summary: partial.summary || '',
+    timeline: partial.timeline,
+    structure: partial.structure || { id: createEntityId('node'), name: companyName, role: 'root', description: 'Structure not received before the analysis stopped' },
+    sources: partial.sources || []
+  };
+};
@@ -0,0 +1,114 @@
+import { CompanyData, OrgLayout } from "../types";
+import { parseImportFile, importedToCompanyData } from "./importers";
+
+// Everything a link restores besides the timeline filter, which timelineFilter.ts reads and
+// writes itself (layout, hide, from, to, q)
+
+export type AppView = 'timeline' | 'structure';
+
+export interface OrgZoom {
+  x: number;
+  y: number;
+  k: number; // Scale
+}
+
+export interface OrgChartView {
+  layout: OrgLayout;
+  query: string;
+  zoom: OrgZoom | null; // null fits the chart to the screen
+}
+
+export const DEFAULT_ORG_VIEW: OrgChartView = { layout: 'horizontal', query: '', zoom: null };
+
+export interface AppRoute {
+  company?: string; // Re-fetched (or found in local storage) when the analysis id is unknown here
+  analysisId?: string; // Saved analysis on this device
+  view: AppView;
+  chat: boolean;
+  org: OrgChartView;
+}
+
+const ROUTE_KEYS = ['company', 'analysis', 'view', 'chat', 'org', 'find', 'zoom'];
+const ORG_LAYOUTS: OrgLayout[] = ['horizontal', 'vertical', 'radial', 'indented'];
+
+const parseZoom = (value: string | null): OrgZoom | null => {
+  const [x, y, k] = (value || '').split(',').map(Number);
+  return [x, y, k].every(Number.isFinite) && k > 0 ? { x, y, k } : null;
+};
+
+export const readRoute = (params: URLSearchParams): AppRoute => {
+  const layout = params.get('org') as OrgLayout;
+  return {
+    company: params.get('company')?.trim() || undefined,
+    analysisId: params.get('analysis') || undefined,
+    view: params.get('view') === 'structure' ? 'structure' : 'timeline',
+    chat: params.get('chat') === '1',
+    org: {
+      layout: ORG_LAYOUTS.includes(layout) ? layout : DEFAULT_ORG_VIEW.layout,
+      query: params.get('find') || '',
+      zoom: parseZoom(params.get('zoom'))
+    }
+  };
+};
+
+// Mutates `params` like writeTimelineFilter: unrelated keys stay, defaults are omitted
+export const writeRoute = (params: URLSearchParams, route: AppRoute): URLSearchParams => {
+  ROUTE_KEYS.forEach((key) => params.delete(key));
+  if (route.company) params.set('company', route.company);
+  if (route.analysisId) params.set('analysis', route.analysisId);
+  if (route.view !== 'timeline') params.set('view', route.view);
+  if (route.chat) params.set('chat', '1');
+  if (route.org.layout !== DEFAULT_ORG_VIEW.layout) params.set('org', route.org.layout);
+  if (route.org.query.trim()) params.set('find', route.org.query.trim());
+  if (route.org.zoom) {
+    const { x, y, k } = route.org.zoom;
+    params.set('zoom', [Math.round(x), Math.round(y), k.toFixed(2)].join(','));
+  }
+  return params;
+};
+
+export const sameOrgView = (a: OrgChartView, b: OrgChartView) =>
+  a.layout === b.layout &&
+  a.query === b.query &&
+  JSON.stringify(a.zoom) === JSON.stringify(b.zoom);
+
+// --- Snapshots in the hash ---
+
+const SNAPSHOT_PREFIX = '#snapshot=';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+// Deflated JSON in base64url; a typical analysis fits in a few kilobytes of URL
+export const encodeSnapshot = async (data: CompanyData): Promise<string> =>
+  toBase64Url(await pipe(new TextEncoder().encode(JSON.stringify(data)), new CompressionStream('deflate-raw')));
+
+// Runs the decoded JSON through the import validator, so a tampered link cannot inject bad data
+export const decodeSnapshot = async (encoded: string): Promise<CompanyData> => {
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new Error("This snapshot link is damaged or incomplete.");
+  }
+  return importedToCompanyData(parseImportFile(json, 'snapshot.json'), 'snapshot.json');
+};
+
+export const readSnapshotHash = (hash: string): string | null =>
+  hash.startsWith(SNAPSHOT_PREFIX) ? hash.slice(SNAPSHOT_PREFIX.length) : null;
+
+export const buildSnapshotHash = async (data: CompanyData): Promise<string> =>
+  SNAPSHOT_PREFIX + await encodeSnapshot(data);
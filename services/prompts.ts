@@ -0,0 +1,94 @@
+import { AnalysisTask, AnalyzeRequest, ChatTask, ChatOptions } from "./providers";
+import { chatToolDeclarations } from "./chatTools";
+
+// Every prompt the app sends, built from what the request is about. The proxy builds them on
+// the server from the same fields, so clients can only ask for analyses and chats, not send
+// arbitrary prompts through its key.
+
+// Bump whenever the analysis prompt or its JSON shape changes; it is part of the cache key
+export const ANALYSIS_PROMPT_VERSION = 3;
+
+const ANALYST_INSTRUCTION = "You are a corporate historian and data analyst. You provide accurate, factual data based on search results.";
+
+const analysisPrompt = (companyName: string, since?: string) => `
+    I need a comprehensive analysis of the company "${companyName}".
+    
+    Please perform a Google Search to find:
+    1. A brief summary of the company.
+    2. Key historical milestones (founding, IPO, major product launches, major acquisitions, crises). Dates are important.
+    3. The organizational structure (parent company, major subsidiaries, key divisions).
+    
+    Output the result as a strict JSON object wrapped in a \`\`\`json\`\`\` code block.
+    The JSON must adhere to this schema:
+    {
+      "companyName": "Exact Company Name",
+      "summary": "Brief 2-3 sentence overview.",
+      "timeline": [
+        { "year": 2024, "dateStr": "Oct 2024", "title": "Event Title", "description": "Details...", "category": "general" }
+      ],
+      "structure": {
+        "name": "${companyName}",
+        "role": "root",
+        "description": "Headquarters",
+        "children": [
+           { "name": "Subsidiary A", "role": "subsidiary", "description": "...", "relationship": "wholly-owned", "ownershipPercent": 100, "acquiredDate": "Mar 2012" },
+           { "name": "Venture B", "role": "subsidiary", "description": "...", "relationship": "joint-venture", "ownershipPercent": 50, "crossLinks": [{ "target": "Subsidiary A", "relationship": "minority", "ownershipPercent": 20 }] }
+        ]
+      }
+    }
+    
+    For the "timeline" category, use one of: 'founding', 'product', 'acquisition', 'scandal', 'general'.
+    ${since ? `Pay particular attention to acquisitions, divestitures, leadership changes and other developments since ${since}, but still return the complete timeline and structure.` : ''}
+    Ensure the "structure" is a tree starting with the main company as root. If it has a parent company, make the parent the root and the searched company a child.
+    On each non-root node, "relationship" describes how its parent holds it: one of 'wholly-owned', 'majority', 'minority', 'joint-venture', 'divested'. Add "ownershipPercent" and "acquiredDate" when known and omit them otherwise.
+    Use "crossLinks" only for ownership the tree cannot show: each entry is another holder of the node besides its tree parent, such as a joint venture's other partner. "target" must be the exact name of a node elsewhere in the structure.
+  `;
+
+// One attempt at getting the model to fix its own malformed reply
+const repairPrompt = (companyName: string, previousReply: string, problem: string) => `
+    Your previous analysis of "${companyName}" could not be read: ${problem}
+    Return the same data again as one valid JSON object wrapped in a \`\`\`json\`\`\` code block, with no other text.
+    Keep the schema of the original (companyName, summary, timeline, structure) and do not add new facts.
+
+    Previous reply:
+    ${previousReply}
+  `;
+
+export const buildAnalyzeRequest = (task: AnalysisTask): AnalyzeRequest => ({
+  ...task,
+  prompt: task.repair
+    ? repairPrompt(task.companyName, task.repair.previousReply, task.repair.problem)
+    : analysisPrompt(task.companyName, task.since),
+  systemInstruction: ANALYST_INSTRUCTION
+});
+
+const singleCompanyInstruction = (companyName: string) => `You are an intelligent assistant helping a user analyze ${companyName}. 
+        Current Context: Messages may start with a "[Current data]" block: the company data displayed to the user at that moment, including any edits made since you last saw it. Always answer from the most recent block; the user does not see it.
+        
+        Your Goal: Answer user questions about the company. You can use Google Search to find latest info.
+        Nodes marked "analyzed separately" were grafted into this tree from their own analysis; treat the combined tree as one group.
+        
+        CRITICAL: If the user provides corrections, asks to add specific events/nodes, or if you discover through search that the current data is outdated or incorrect, YOU MUST use the editing tools to update the visualization.
+        Make one tool call per change: timeline events are addressed by their "id", org nodes by their path of names from the root. Never resend data that did not change.
+        If a call returns an error, read it, fix the arguments and call again.
+        All changes of one reply are shown to the user together as a proposal they can accept or reject, so describe what you changed.
+        `;
+
+// The analyses themselves arrive with the messages, like the current data of a single company
+const comparisonInstruction = (companyNames: string[]) => `You are an intelligent assistant helping a user compare ${companyNames.length} companies side by side: ${companyNames.join(", ")}.
+        Current Context: Messages may start with a "[Current data]" block holding the analyses the user is viewing, shown as parallel timelines and org charts. Always answer from the most recent block; the user does not see it.
+        
+        Your Goal: Answer questions across the whole set — contrast histories, point out overlapping subsidiaries, shared parents or acquisitions between them. You can use Google Search to find latest info.
+        The data is read-only in this view; do not offer to update the charts.
+        `;
+
+// Only single-company chats get the editing tools; comparisons are read-only
+export const buildChatOptions = (task: ChatTask): ChatOptions => {
+  const editable = task.editable && task.companyNames.length === 1;
+  return {
+    ...task,
+    editable,
+    systemInstruction: task.companyNames.length > 1 ? comparisonInstruction(task.companyNames) : singleCompanyInstruction(task.companyNames[0]),
+    functionDeclarations: editable ? chatToolDeclarations : []
+  };
+};
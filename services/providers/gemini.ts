@@ -0,0 +1,200 @@
+import { GoogleGenAI } from "@google/genai";
+import { GroundingSource } from "../../types";
+import { LLMProvider, ProviderChat, ModelResponse, AnalyzeRequest, AnalyzeOptions, ChatOptions, ChatStreamHandlers, FunctionResult, ModelFunctionCall, GroundingSupport, TokenUsage } from "./types";
+import { LLMError } from "../llmErrors";
+
+// Extract de-duplicated web sources from grounding metadata
+const extractSources = (response: any): GroundingSource[] => {
+  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const sources: GroundingSource[] = groundingChunks
+    .map((chunk: any) => {
+      if (chunk.web) {
+        return { title: chunk.web.title, uri: chunk.web.uri };
+      }
+      return null;
+    })
+    .filter((s: GroundingSource | null) => s !== null) as GroundingSource[];
+
+  return Array.from(new Map(sources.map(s => [s.uri, s])).values());
+};
+
+// Resolves each support's chunk indices to source URIs from the same response
+const extractSupports = (response: any): GroundingSupport[] => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = metadata?.groundingChunks || [];
+  return (metadata?.groundingSupports || []).map((support: any) => {
+    const indices: number[] = support.groundingChunkIndices || [];
+    const pairs = indices
+      .map((idx, i) => ({ uri: chunks[idx]?.web?.uri as string | undefined, score: support.confidenceScores?.[i] }))
+      .filter((p) => !!p.uri);
+    return {
+      startIndex: support.segment?.startIndex,
+      endIndex: support.segment?.endIndex,
+      text: support.segment?.text,
+      sourceUris: pairs.map((p) => p.uri!),
+      confidenceScores: pairs.map((p) => (typeof p.score === "number" ? p.score : 0.5))
+    };
+  });
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// A blocked prompt has promptFeedback; a reply stopped by the filters ends with a blocking finishReason
+const extractBlockReason = (response: any): string | undefined => {
+  if (response.promptFeedback?.blockReason) return response.promptFeedback.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return BLOCKING_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+};
+
+// Streamed chunks carry running totals, so the last usageMetadata seen is the call's usage
+const extractUsage = (response: any, searchQueries: Set<string>): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    candidateTokens: meta.candidatesTokenCount || 0,
+    toolTokens: meta.toolUsePromptTokenCount || 0,
+    thoughtTokens: meta.thoughtsTokenCount || 0,
+    totalTokens: meta.totalTokenCount || 0,
+    searchQueries: searchQueries.size
+  };
+};
+
+const collectSearchQueries = (response: any, into: Set<string>): string[] => {
+  const queries: string[] = response.candidates?.[0]?.groundingMetadata?.webSearchQueries || [];
+  queries.forEach((q) => into.add(q));
+  return queries;
+};
+
+const extractFunctionCalls = (response: any): ModelFunctionCall[] =>
+  (response.functionCalls || []).map((call: any) => ({
+    id: call.id,
+    name: call.name,
+    args: call.args || {}
+  }));
+
+class GeminiChat implements ProviderChat {
+  private chat: any;
+  private model: string;
+
+  constructor(ai: GoogleGenAI, model: string, options: ChatOptions) {
+    this.model = model;
+    this.chat = ai.chats.create({
+      model,
+      config: {
+        systemInstruction: options.systemInstruction,
+        tools: options.functionDeclarations.length > 0
+          ? [{ googleSearch: {} }, { functionDeclarations: options.functionDeclarations }]
+          : [{ googleSearch: {} }]
+      },
+      history: (options.history || []).map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] }))
+    });
+  }
+
+  private async stream(message: any, handlers: ChatStreamHandlers = {}): Promise<ModelResponse> {
+    const stream = await this.chat.sendMessageStream({ message, config: { abortSignal: handlers.signal } });
+
+    let text = "";
+    let blockReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    const searchQueries = new Set<string>();
+    const functionCalls: ModelFunctionCall[] = [];
+    const sources = new Map<string, GroundingSource>();
+    for await (const chunk of stream) {
+      const searched = searchQueries.size > 0;
+      const queries = collectSearchQueries(chunk, searchQueries);
+      if (!searched && queries.length > 0) handlers.onSearch?.(queries);
+      usage = extractUsage(chunk, searchQueries) || usage;
+      functionCalls.push(...extractFunctionCalls(chunk));
+      extractSources(chunk).forEach((s) => sources.set(s.uri, s));
+      blockReason = blockReason || extractBlockReason(chunk);
+      // Reading .text on a function-call-only chunk makes the SDK warn, so check the parts first
+      const hasText = chunk.candidates?.[0]?.content?.parts?.some((part: any) => typeof part.text === "string");
+      const delta = hasText ? chunk.text || "" : "";
+      if (delta) {
+        text += delta;
+        handlers.onTextChunk?.(delta);
+      }
+    }
+
+    if (usage) usage.searchQueries = searchQueries.size;
+    return { text, functionCalls, sources: Array.from(sources.values()), blockReason, usage, model: this.model };
+  }
+
+  sendMessage(message: string, handlers?: ChatStreamHandlers, context?: string): Promise<ModelResponse> {
+    return this.stream(context ? [{ text: context }, { text: message }] : message, handlers);
+  }
+
+  sendFunctionResponses(results: FunctionResult[], handlers?: ChatStreamHandlers): Promise<ModelResponse> {
+    return this.stream(results.map((fr) => ({
+      functionResponse: {
+        name: fr.name,
+        response: fr.response,
+        id: fr.id
+      }
+    })), handlers);
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  readonly model: string;
+  private ai: GoogleGenAI;
+  private hasApiKey: boolean;
+
+  constructor(model: string, apiKey?: string) {
+    this.model = model;
+    this.hasApiKey = !!apiKey;
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  // Fails fast instead of sending a request the API will reject
+  private requireApiKey() {
+    if (!this.hasApiKey) throw new LLMError('auth', 'No Gemini API key is configured (GEMINI_API_KEY).');
+  }
+
+  get displayName(): string {
+    return `Google ${this.model}`;
+  }
+
+  async analyzeCompany(request: AnalyzeRequest, options: AnalyzeOptions = {}): Promise<ModelResponse> {
+    this.requireApiKey();
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: request.prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        systemInstruction: request.systemInstruction,
+        abortSignal: options.signal,
+      }
+    });
+
+    let text = "";
+    let blockReason: string | undefined;
+    const sources = new Map<string, GroundingSource>();
+    const supports: GroundingSupport[] = [];
+    const searchQueries = new Set<string>();
+    let usage: TokenUsage | undefined;
+    for await (const chunk of stream) {
+      blockReason = blockReason || extractBlockReason(chunk);
+      collectSearchQueries(chunk, searchQueries);
+      usage = extractUsage(chunk, searchQueries) || usage;
+      const delta = chunk.text || "";
+      if (delta) {
+        text += delta;
+        options.onTextChunk?.(delta);
+      }
+      // Grounding metadata usually arrives with the final chunks
+      extractSources(chunk).forEach((s) => sources.set(s.uri, s));
+      supports.push(...extractSupports(chunk));
+    }
+
+    if (usage) usage.searchQueries = searchQueries.size;
+    return { text, functionCalls: [], sources: Array.from(sources.values()), supports, blockReason, usage, model: this.model };
+  }
+
+  createChat(options: ChatOptions): ProviderChat {
+    this.requireApiKey();
+    return new GeminiChat(this.ai, this.model, options);
+  }
+}
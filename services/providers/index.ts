@@ -0,0 +1,36 @@
+import { LLMProvider } from "./types";
+import { GeminiProvider } from "./gemini";
+import { MockProvider } from "./mock";
+import { ProxyProvider } from "./proxy";
+
+export * from "./types";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// Provider and model come from LLM_PROVIDER / LLM_MODEL (see vite.config.ts). In Node (the CLI)
+// these and the key are read from the real environment instead.
+export const createProvider = (name = process.env.LLM_PROVIDER, model = process.env.LLM_MODEL): LLMProvider => {
+  const modelId = model || DEFAULT_MODEL;
+  switch (name || "gemini") {
+    case "gemini":
+      return new GeminiProvider(modelId, process.env.API_KEY || process.env.GEMINI_API_KEY);
+    case "mock":
+      return new MockProvider(modelId);
+    case "proxy":
+      return new ProxyProvider(modelId, process.env.LLM_PROXY_URL || undefined);
+    default:
+      throw new Error(`Unknown LLM provider "${name}". Expected "gemini", "mock" or "proxy".`);
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) activeProvider = createProvider();
+  return activeProvider;
+};
+
+// Overrides the configured provider, e.g. to force the mock in a demo
+export const setProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,100 @@
+import { LLMProvider, ProviderChat, ModelResponse, AnalyzeRequest, AnalyzeOptions, ChatOptions, ChatStreamHandlers, FunctionResult, TokenUsage } from "./types";
+import { getMockFixture, getDefaultChatReply, MockChatTurn } from "./mockFixtures";
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const abortError = () => new DOMException("The analysis was cancelled.", "AbortError");
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Roughly four characters per token, so usage tracking has something to show offline
+const simulateUsage = (input: string, response: ModelResponse): TokenUsage => {
+  const promptTokens = Math.ceil(input.length / 4);
+  const candidateTokens = Math.ceil((response.text.length + JSON.stringify(response.functionCalls).length) / 4);
+  return {
+    promptTokens,
+    candidateTokens,
+    toolTokens: 0,
+    thoughtTokens: 0,
+    totalTokens: promptTokens + candidateTokens,
+    searchQueries: response.sources.length > 0 ? 1 : 0,
+    simulated: true
+  };
+};
+
+// Emits a recorded reply's text in chunks, as a streaming provider would
+const replay = async (input: string, response: ModelResponse, handlers: ChatStreamHandlers = {}): Promise<ModelResponse> => {
+  for (let i = 0; i < response.text.length; i += STREAM_CHUNK_SIZE) {
+    await wait(STREAM_CHUNK_DELAY_MS);
+    handlers.onTextChunk?.(response.text.slice(i, i + STREAM_CHUNK_SIZE));
+  }
+  return { ...response, usage: simulateUsage(input, response) };
+};
+
+// Replays recorded responses so the app runs without network access or an API key
+class MockChat implements ProviderChat {
+  private companyName: string;
+  private model: string;
+  private pending: ModelResponse[] = [];
+
+  constructor(options: ChatOptions, model: string) {
+    this.companyName = options.companyNames.join(" vs ");
+    this.model = model;
+  }
+
+  async sendMessage(message: string, handlers?: ChatStreamHandlers, context?: string): Promise<ModelResponse> {
+    const input = context ? `${context}\n\n${message}` : message;
+    const lower = message.toLowerCase();
+    const turn: MockChatTurn | undefined = getMockFixture(this.companyName).chat
+      .find((t) => t.keywords.some((k) => lower.includes(k)));
+
+    if (!turn) {
+      this.pending = [];
+      return replay(input, { ...getDefaultChatReply(this.companyName), model: this.model }, handlers);
+    }
+    const [first, ...rest] = turn.responses;
+    this.pending = rest;
+    return replay(input, { ...first, model: this.model }, handlers);
+  }
+
+  async sendFunctionResponses(results: FunctionResult[], handlers?: ChatStreamHandlers): Promise<ModelResponse> {
+    return replay(JSON.stringify(results), { ...(this.pending.shift() || { text: "Done.", functionCalls: [], sources: [] }), model: this.model }, handlers);
+  }
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly model: string;
+  readonly displayName = "Offline mock provider";
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  // Replays the recording in small chunks to exercise progressive rendering
+  async analyzeCompany(request: AnalyzeRequest, options: AnalyzeOptions = {}): Promise<ModelResponse> {
+    const response = getMockFixture(request.companyName).analysis;
+    for (let i = 0; i < response.text.length; i += STREAM_CHUNK_SIZE) {
+      await wait(STREAM_CHUNK_DELAY_MS, options.signal);
+      options.onTextChunk?.(response.text.slice(i, i + STREAM_CHUNK_SIZE));
+    }
+    return { ...response, usage: simulateUsage(`${request.systemInstruction}\n\n${request.prompt}`, response), model: this.model };
+  }
+
+  createChat(options: ChatOptions): ProviderChat {
+    return new MockChat(options, this.model);
+  }
+}
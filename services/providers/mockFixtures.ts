@@ -0,0 +1,123 @@
+import { ModelResponse, GroundingSupport } from "./types";
+
+// Recorded model outputs replayed by MockProvider. Keys are lower-cased company names.
+
+export interface MockChatTurn {
+  // Case-insensitive keywords; the first turn whose keyword appears in the user message is replayed
+  keywords: string[];
+  // Replies in order: the first answers the user message, the rest answer each round of function responses
+  responses: ModelResponse[];
+}
+
+export interface MockFixture {
+  analysis: ModelResponse;
+  chat: MockChatTurn[];
+}
+
+const fenced = (value: unknown) => "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+const text = (value: string, sources: ModelResponse['sources'] = []): ModelResponse => ({
+  text: value,
+  functionCalls: [],
+  sources
+});
+
+const nintendoData = {
+  companyName: "Nintendo Co., Ltd.",
+  summary: "Nintendo is a Japanese multinational video game company headquartered in Kyoto. Founded in 1889 as a playing card maker, it became one of the most influential developers of consoles and game franchises.",
+  timeline: [
+    { year: 1889, dateStr: "Sep 1889", title: "Founded as Nintendo Koppai", description: "Fusajiro Yamauchi founds the company in Kyoto to produce handmade hanafuda playing cards.", category: "founding" },
+    { year: 1983, dateStr: "Jul 1983", title: "Family Computer launches", description: "The Famicom launches in Japan, later released internationally as the Nintendo Entertainment System.", category: "product" },
+    { year: 1989, dateStr: "Apr 1989", title: "Game Boy released", description: "The Game Boy handheld debuts and goes on to sell over 118 million units including the Game Boy Color.", category: "product" },
+    { year: 2006, dateStr: "Nov 2006", title: "Wii launches", description: "The motion-controlled Wii console broadens the gaming audience and sells over 100 million units.", category: "product" },
+    { year: 2017, dateStr: "Mar 2017", title: "Nintendo Switch launches", description: "The hybrid home/portable Switch console is released worldwide.", category: "product" },
+    { year: 2022, dateStr: "Jul 2022", title: "Acquires Dynamo Pictures", description: "Nintendo acquires the CG studio Dynamo Pictures, renaming it Nintendo Pictures.", category: "acquisition" }
+  ],
+  structure: {
+    name: "Nintendo Co., Ltd.",
+    role: "root",
+    description: "Headquarters in Kyoto, Japan",
+    children: [
+      { name: "Nintendo of America", role: "subsidiary", description: "North American operations", relationship: "wholly-owned", ownershipPercent: 100 },
+      { name: "Nintendo of Europe", role: "subsidiary", description: "European operations", relationship: "wholly-owned", ownershipPercent: 100 },
+      { name: "Nintendo EPD", role: "department", description: "Entertainment Planning & Development" },
+      { name: "Nintendo Pictures", role: "subsidiary", description: "Animation studio, formerly Dynamo Pictures", relationship: "wholly-owned", ownershipPercent: 100, acquiredDate: "Jul 2022" },
+      { name: "Retro Studios", role: "subsidiary", description: "First-party developer in Austin, Texas", relationship: "wholly-owned", acquiredDate: "2002" },
+      { name: "The Pokémon Company", role: "subsidiary", description: "Co-owned with Game Freak and Creatures", relationship: "joint-venture", ownershipPercent: 32 }
+    ]
+  }
+};
+
+const nintendoSources = [
+  { title: "Nintendo - Company History", uri: "https://www.nintendo.co.jp/corporate/en/history/index.html" },
+  { title: "Nintendo - Wikipedia", uri: "https://en.wikipedia.org/wiki/Nintendo" }
+];
+
+// Grounding supports keyed by segment text, mirroring what search grounding returns
+const support = (segment: string, sourceUris: string[], confidenceScores: number[]): GroundingSupport =>
+  ({ text: segment, sourceUris, confidenceScores });
+
+const [historyUri, wikipediaUri] = nintendoSources.map((s) => s.uri);
+const nintendoSupports = [
+  support('"title": "Founded as Nintendo Koppai"', [historyUri, wikipediaUri], [0.94, 0.88]),
+  support('"title": "Family Computer launches"', [historyUri], [0.91]),
+  support('"title": "Game Boy released"', [wikipediaUri], [0.72]),
+  support('"title": "Wii launches"', [wikipediaUri], [0.41]),
+  support('"title": "Acquires Dynamo Pictures"', [wikipediaUri], [0.66]),
+  support('"name": "Nintendo of America"', [wikipediaUri], [0.85]),
+  support('"name": "Nintendo EPD"', [wikipediaUri], [0.58])
+];
+
+const fixtures: Record<string, MockFixture> = {
+  "nintendo": {
+    analysis: { ...text(fenced(nintendoData), nintendoSources), supports: nintendoSupports },
+    chat: [
+      {
+        keywords: ["add", "missing", "forgot", "correct"],
+        responses: [
+          {
+            text: "",
+            sources: [],
+            functionCalls: [{
+              id: "mock-call-1",
+              name: "add_timeline_event",
+              args: {
+                event: { year: 2025, dateStr: "Jun 2025", title: "Nintendo Switch 2 launches", description: "The successor to the Switch is released worldwide.", category: "product" }
+              }
+            }]
+          },
+          text("I've added the Nintendo Switch 2 launch (June 2025) to the timeline.")
+        ]
+      }
+    ]
+  }
+};
+
+// Fallback used for companies without a recording: a minimal but schema-valid analysis
+const genericFixture = (companyName: string): MockFixture => ({
+  analysis: text(fenced({
+    companyName,
+    summary: `${companyName} is a company analyzed with the offline mock provider. No live search was performed.`,
+    timeline: [
+      { year: 2000, dateStr: "2000", title: `${companyName} founded`, description: "Placeholder founding event from the mock provider.", category: "founding" },
+      { year: 2010, title: "First major product", description: "Placeholder product milestone.", category: "product" }
+    ],
+    structure: {
+      name: companyName,
+      role: "root",
+      description: "Headquarters",
+      children: [{ name: `${companyName} Research`, role: "department", description: "Placeholder division" }]
+    }
+  })),
+  chat: []
+});
+
+export const getDefaultChatReply = (companyName: string): ModelResponse =>
+  text(`(Mock provider) I can only replay recorded answers for "${companyName}". Try asking me to add a missing event.`);
+
+// "Nintendo Co., Ltd." (the name the analysis returns) resolves to the "nintendo" recording
+export const getMockFixture = (companyName: string): MockFixture => {
+  const normalized = companyName.trim().toLowerCase();
+  const key = Object.keys(fixtures).find((k) => normalized === k || normalized.startsWith(`${k} `));
+  return key ? fixtures[key] : genericFixture(companyName.trim());
+};
@@ -0,0 +1,180 @@
+import { LLMErrorKind } from "../../types";
+import { LLMProvider, ProviderChat, ModelResponse, AnalyzeRequest, AnalyzeOptions, ChatOptions, ChatStreamHandlers, ChatTurn, FunctionResult } from "./types";
+import { LLMError } from "../llmErrors";
+
+// Talks to the local proxy (server/), which holds the API key and calls the real provider.
+// Replies stream back as newline-delimited JSON events. Only what a request is about is sent;
+// the server builds the prompts itself.
+
+export type ProxyEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'search'; queries: string[] }
+  | { type: 'done'; response: ModelResponse }
+  | { type: 'error'; error: ProxyErrorBody };
+
+export interface ProxyErrorBody {
+  kind: LLMErrorKind;
+  message: string;
+  retryAfterMs?: number;
+}
+
+// A repair asks the server to fix the last reply it sent this client for the same analysis
+export interface ProxyAnalyzeRequest {
+  companyName: string;
+  since?: string;
+  repair?: boolean;
+}
+
+export interface ProxyChatOptions {
+  companyNames: string[];
+  editable: boolean;
+  history?: ChatTurn[];
+}
+
+export interface ProxyChatRequest {
+  message?: string;
+  context?: string;
+  functionResponses?: FunctionResult[];
+}
+
+const toError = (body: ProxyErrorBody | undefined, fallback: string) =>
+  new LLMError(body?.kind || 'network', body?.message || fallback, undefined, body?.retryAfterMs);
+
+const post = async (url: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw error;
+    throw new LLMError('network', `The model proxy at ${url} could not be reached (${error?.message || error})`, error);
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => undefined);
+    throw toError(body?.error, `The model proxy answered ${res.status} ${res.statusText}`);
+  }
+  return res;
+};
+
+// Reads the event stream until 'done'; text and search events go to the handlers on the way
+const readEvents = async (res: Response, handlers: ChatStreamHandlers = {}): Promise<ModelResponse> => {
+  if (!res.body) throw new LLMError('network', 'The model proxy sent no response body');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as ProxyEvent;
+      if (event.type === 'text') handlers.onTextChunk?.(event.delta);
+      else if (event.type === 'search') handlers.onSearch?.(event.queries);
+      else if (event.type === 'error') throw toError(event.error, 'The model proxy failed');
+      else return event.response;
+    }
+    if (done) throw new LLMError('network', 'The model proxy closed the stream before the reply was complete');
+  }
+};
+
+// Chats live on the server; it is created lazily so a construction failure surfaces on the first turn
+class ProxyChat implements ProviderChat {
+  private baseUrl: string;
+  private options: ProxyChatOptions;
+  private onResponse: (response: ModelResponse) => void;
+  private sessionId: Promise<string> | null = null;
+
+  constructor(baseUrl: string, { companyNames, editable, history }: ChatOptions, onResponse: (response: ModelResponse) => void) {
+    this.baseUrl = baseUrl;
+    this.options = { companyNames, editable, history };
+    this.onResponse = onResponse;
+  }
+
+  private session(signal?: AbortSignal): Promise<string> {
+    if (!this.sessionId) {
+      this.sessionId = post(`${this.baseUrl}/chat`, this.options, signal)
+        .then((res) => res.json())
+        .then((body) => body.sessionId as string);
+      this.sessionId.catch(() => {
+        this.sessionId = null;
+      });
+    }
+    return this.sessionId;
+  }
+
+  private async send(body: ProxyChatRequest, handlers: ChatStreamHandlers = {}): Promise<ModelResponse> {
+    const id = await this.session(handlers.signal);
+    const response = await readEvents(await post(`${this.baseUrl}/chat/${encodeURIComponent(id)}`, body, handlers.signal), handlers);
+    this.onResponse(response);
+    return response;
+  }
+
+  sendMessage(message: string, handlers?: ChatStreamHandlers, context?: string): Promise<ModelResponse> {
+    return this.send({ message, context }, handlers);
+  }
+
+  sendFunctionResponses(functionResponses: FunctionResult[], handlers?: ChatStreamHandlers): Promise<ModelResponse> {
+    return this.send({ functionResponses }, handlers);
+  }
+}
+
+// The server decides the model. The configured one is only a stand-in until /health or a
+// reply reports the real one, so cache keys and prices follow what the server uses.
+export class ProxyProvider implements LLMProvider {
+  readonly name = "proxy";
+  private configuredModel: string;
+  private serverModel: string | null = null;
+  private health: Promise<string> | null = null;
+  private baseUrl: string;
+
+  constructor(model: string, baseUrl = "/api") {
+    this.configuredModel = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  get model(): string {
+    return this.serverModel || this.configuredModel;
+  }
+
+  // Asked once; a failed lookup is retried on the next call and falls back to the stand-in
+  resolveModel(): Promise<string> {
+    if (!this.health) {
+      this.health = fetch(`${this.baseUrl}/health`)
+        .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`${res.status} ${res.statusText}`))))
+        .then((body) => {
+          if (typeof body?.model === 'string') this.serverModel = body.model;
+          return this.model;
+        });
+      this.health.catch(() => {
+        this.health = null;
+      });
+    }
+    return this.health.catch(() => this.model);
+  }
+
+  private noteModel = (response: ModelResponse) => {
+    if (response.model) this.serverModel = response.model;
+  };
+
+  get displayName(): string {
+    return `Google ${this.model}`;
+  }
+
+  async analyzeCompany(request: AnalyzeRequest, options: AnalyzeOptions = {}): Promise<ModelResponse> {
+    const body: ProxyAnalyzeRequest = { companyName: request.companyName, since: request.since, repair: request.repair ? true : undefined };
+    const res = await post(`${this.baseUrl}/analyze`, body, options.signal);
+    const response = await readEvents(res, { onTextChunk: options.onTextChunk });
+    this.noteModel(response);
+    return response;
+  }
+
+  createChat(options: ChatOptions): ProviderChat {
+    return new ProxyChat(this.baseUrl, options, this.noteModel);
+  }
+}
@@ -0,0 +1,107 @@
+import { FunctionDeclaration } from "@google/genai";
+import { GroundingSource } from "../../types";
+
+export interface ModelFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface FunctionResult {
+  id?: string;
+  name: string;
+  response: Record<string, any>;
+}
+
+// A span of the reply text backed by specific web sources
+export interface GroundingSupport {
+  startIndex?: number; // UTF-8 byte offsets into the reply text
+  endIndex?: number;
+  text?: string;
+  sourceUris: string[];
+  confidenceScores: number[]; // 0..1, parallel to sourceUris
+}
+
+// Billing-relevant counts reported for one model call
+export interface TokenUsage {
+  promptTokens: number;
+  candidateTokens: number;
+  toolTokens: number; // Tool-use prompt tokens, e.g. search results fed back to the model
+  thoughtTokens: number;
+  totalTokens: number;
+  searchQueries: number; // Grounded web searches the model ran for this call
+  simulated?: boolean; // Counted by the mock provider, not billed
+}
+
+// Provider-neutral shape of a single model reply
+export interface ModelResponse {
+  text: string;
+  functionCalls: ModelFunctionCall[];
+  sources: GroundingSource[];
+  supports?: GroundingSupport[];
+  blockReason?: string; // Set when safety filters blocked the prompt or cut the reply short
+  usage?: TokenUsage; // Absent when the provider reports none (or the reply came from a cache)
+  model?: string; // The model that produced it, which is the one to price the usage at
+}
+
+// What an analysis is about. Prompts are built from it (services/prompts.ts), and it is all
+// the proxy accepts from a client.
+export interface AnalysisTask {
+  companyName: string;
+  since?: string; // Update checks: stress developments after this date
+  repair?: { previousReply: string; problem: string }; // Ask the model to fix its own malformed reply
+}
+
+export interface AnalyzeRequest extends AnalysisTask {
+  prompt: string;
+  systemInstruction: string;
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onTextChunk?: (delta: string) => void; // Called as the reply streams in
+}
+
+// An earlier exchange, replayed when a saved conversation is resumed
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// What a chat is about; like AnalysisTask, the instruction and tools are built from it
+export interface ChatTask {
+  companyNames: string[]; // Several for a comparison
+  editable: boolean; // Offer the tools that edit the company data
+  history?: ChatTurn[]; // Starts with a user turn; roles alternate
+}
+
+export interface ChatOptions extends ChatTask {
+  systemInstruction: string;
+  functionDeclarations: FunctionDeclaration[];
+}
+
+export interface ChatStreamHandlers {
+  onTextChunk?: (delta: string) => void;
+  onSearch?: (queries: string[]) => void; // The model ran a grounded web search
+  signal?: AbortSignal;
+}
+
+// Both calls stream through the optional handlers and resolve with the complete reply.
+// `context` is background the model should read before the message (e.g. the current data);
+// it is sent alongside the message but is not part of what the user typed.
+export interface ProviderChat {
+  sendMessage(message: string, handlers?: ChatStreamHandlers, context?: string): Promise<ModelResponse>;
+  sendFunctionResponses(results: FunctionResult[], handlers?: ChatStreamHandlers): Promise<ModelResponse>;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly displayName: string;
+  // For providers whose model is chosen elsewhere (the proxy's server): looks it up, after which
+  // `model` reports it. The others know their model from the start.
+  resolveModel?(): Promise<string>;
+  // Streams the reply through onTextChunk and resolves with the complete response
+  analyzeCompany(request: AnalyzeRequest, options?: AnalyzeOptions): Promise<ModelResponse>;
+  createChat(options: ChatOptions): ProviderChat;
+}
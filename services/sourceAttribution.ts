@@ -0,0 +1,112 @@
+import { CompanyData, TimelineEvent, OrgNode, Confidence } from "../types";
+import { GroundingSupport } from "./providers";
+
+// Maps grounding supports (spans of the raw reply backed by web sources) onto the
+// timeline events and org nodes parsed from that reply.
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const HIGH_CONFIDENCE = 0.8;
+const MEDIUM_CONFIDENCE = 0.5;
+
+export const toConfidence = (score: number): Confidence =>
+  score >= HIGH_CONFIDENCE ? 'high' : score >= MEDIUM_CONFIDENCE ? 'medium' : 'low';
+
+// Grounding segments use UTF-8 byte offsets; convert to a JS string index
+const byteToCharIndex = (text: string, byteOffset: number): number => {
+  let bytes = 0;
+  let idx = 0;
+  for (const char of text) {
+    if (bytes >= byteOffset) break;
+    const code = char.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    idx += char.length;
+  }
+  return idx;
+};
+
+// Prefer the segment text (robust to offset quirks); fall back to byte offsets
+const locateSupport = (text: string, support: GroundingSupport): Span | null => {
+  if (support.text) {
+    const start = text.indexOf(support.text);
+    if (start !== -1) return { start, end: start + support.text.length };
+  }
+  if (support.endIndex !== undefined) {
+    return { start: byteToCharIndex(text, support.startIndex || 0), end: byteToCharIndex(text, support.endIndex) };
+  }
+  return null;
+};
+
+// A fact's span runs from its JSON-encoded key string to the end of its description, if present
+const locateFact = (text: string, key: string, description: string | undefined, from: number): Span | null => {
+  const encodedKey = JSON.stringify(key);
+  const start = text.indexOf(encodedKey, from);
+  if (start === -1) return null;
+  let end = start + encodedKey.length;
+  if (description) {
+    const encodedDescription = JSON.stringify(description);
+    const descStart = text.indexOf(encodedDescription, end);
+    // Only accept a description that belongs to this object, not a later one
+    if (descStart !== -1 && !text.slice(end, descStart).includes('}')) end = descStart + encodedDescription.length;
+  }
+  return { start, end };
+};
+
+const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+interface LocatedSupport {
+  span: Span;
+  support: GroundingSupport;
+}
+
+// Unions model-declared URIs with the grounded ones; confidence comes from the best score
+const attribute = <T extends TimelineEvent | OrgNode>(item: T, span: Span | null, supports: LocatedSupport[]): T => {
+  if (!span) return item;
+  const uris = new Set(item.sourceUris || []);
+  let bestScore = -1;
+  supports.forEach(({ span: supportSpan, support }) => {
+    if (!overlaps(span, supportSpan)) return;
+    support.sourceUris.forEach((uri, i) => {
+      uris.add(uri);
+      bestScore = Math.max(bestScore, support.confidenceScores[i] ?? 0);
+    });
+  });
+  if (bestScore < 0) return item;
+  return { ...item, sourceUris: Array.from(uris), confidence: toConfidence(bestScore) };
+};
+
+export const attributeSources = <T extends Omit<CompanyData, 'sources'>>(
+  data: T,
+  responseText: string,
+  supports: GroundingSupport[] = []
+): T => {
+  const located = supports
+    .map((support) => ({ support, span: locateSupport(responseText, support) }))
+    .filter((s): s is LocatedSupport => s.span !== null && s.support.sourceUris.length > 0);
+  if (located.length === 0) return data;
+
+  // Walk forward so repeated titles/names resolve to successive occurrences
+  let cursor = 0;
+  const timeline = data.timeline.map((event) => {
+    const span = locateFact(responseText, event.title, event.description, cursor);
+    if (span) cursor = span.end;
+    return attribute(event, span, located);
+  });
+
+  // The structure follows the timeline in the reply; start the node search there
+  let nodeCursor = Math.max(0, responseText.indexOf('"structure"'));
+  const walk = (node: OrgNode): OrgNode => {
+    const span = locateFact(responseText, node.name, node.description, nodeCursor);
+    if (span) nodeCursor = span.end;
+    const attributed = attribute(node, span, located);
+    return node.children ? { ...attributed, children: node.children.map(walk) } : attributed;
+  };
+
+  return { ...data, timeline, structure: walk(data.structure) };
+};
+
+// True when a fact has no web source backing it
+export const isUnsourced = (item: { sourceUris?: string[] }) => !item.sourceUris || item.sourceUris.length === 0;
@@ -0,0 +1,34 @@
+import { CompanyData, OrgNode, TimelineEvent } from "../types";
+import { describeEdge } from "./ownership";
+
+const MAX_DESCRIPTION = 140;
+
+const clip = (text: string) => (text.length > MAX_DESCRIPTION ? `${text.slice(0, MAX_DESCRIPTION - 1)}…` : text);
+
+const formatEvent = (event: TimelineEvent) => {
+  const date = event.dateStr && event.dateStr !== String(event.year) ? `${event.year} (${event.dateStr})` : String(event.year);
+  const notes = [event.category, event.confidence && `${event.confidence} confidence`].filter(Boolean).join(', ');
+  return `- [${event.id}] ${date} ${event.title} (${notes})${event.description ? `: ${clip(event.description)}` : ''}`;
+};
+
+const formatNode = (node: OrgNode, depth: number): string[] => {
+  const details = [
+    node.role,
+    describeEdge(node),
+    ...(node.crossLinks || []).map((link) => `also held by ${link.target}${describeEdge(link) ? ` (${describeEdge(link)})` : ''}`),
+    node.provenance && 'analyzed separately'
+  ].filter(Boolean).join('; ');
+  const line = `${'  '.repeat(depth)}- ${node.name} [${node.id}] (${details})${node.description ? `: ${clip(node.description)}` : ''}`;
+  return [line, ...(node.children || []).flatMap((child) => formatNode(child, depth + 1))];
+};
+
+// Plain-text view of the data for the model: every id and path it needs for the editing tools,
+// at a fraction of the size of the JSON
+export const formatCompanyState = (data: CompanyData): string => [
+  `Company: ${data.companyName}`,
+  data.summary && `Summary: ${data.summary}`,
+  `Timeline (${data.timeline.length} events, [id] year title):`,
+  ...[...data.timeline].sort((a, b) => a.year - b.year).map(formatEvent),
+  'Structure (indentation shows the tree):',
+  ...formatNode(data.structure, 0)
+].filter(Boolean).join('\n');
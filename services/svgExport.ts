@@ -0,0 +1,83 @@
+// Browser-only helpers for exporting rendered D3 charts and downloading files
+
+const INLINED_STYLE_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility'
+];
+
+const BACKGROUND_COLOR = '#0f172a';
+
+// Clones the chart with computed styles inlined, so it renders the same outside the page (Tailwind classes included)
+export const serializeSvg = (svg: SVGSVGElement): { markup: string; width: number; height: number } => {
+  const bounds = svg.getBoundingClientRect();
+  const width = Math.ceil(Number(svg.getAttribute('width')) || bounds.width);
+  const height = Math.ceil(Number(svg.getAttribute('height')) || bounds.height);
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const sourceElements = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+  sourceElements.forEach((source, idx) => {
+    const computed = window.getComputedStyle(source);
+    const target = cloneElements[idx] as SVGElement;
+    const inline = INLINED_STYLE_PROPERTIES
+      .map((prop) => `${prop}:${computed.getPropertyValue(prop)}`)
+      .join(';');
+    target.setAttribute('style', inline);
+    target.removeAttribute('class');
+  });
+
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', BACKGROUND_COLOR);
+  clone.insertBefore(background, clone.firstChild);
+
+  const markup = '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(clone);
+  return { markup, width, height };
+};
+
+export const svgToPng = (markup: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not supported in this browser."));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to rasterize chart."))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to load chart SVG for rasterization."));
+    };
+    image.src = url;
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, filename: string, mimeType: string) =>
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
@@ -0,0 +1,91 @@
+import * as d3 from "d3";
+import { TimelineEvent } from "../types";
+import { TIMELINE_CATEGORIES } from "./companyDataValidator";
+
+export type TimelineLayout = 'ordinal' | 'time';
+
+export interface TimelineFilter {
+  layout: TimelineLayout;
+  hiddenCategories: TimelineEvent['category'][];
+  yearRange: [number, number] | null; // Inclusive; null shows every year
+  query: string; // Highlights matches rather than hiding the rest
+}
+
+export const DEFAULT_TIMELINE_FILTER: TimelineFilter = {
+  layout: 'ordinal',
+  hiddenCategories: [],
+  yearRange: null,
+  query: ''
+};
+
+export const isDefaultFilter = (filter: TimelineFilter) =>
+  filter.layout === 'ordinal' && filter.hiddenCategories.length === 0 && !filter.yearRange && !filter.query.trim();
+
+// --- Dates ---
+
+// Formats the model tends to use for dateStr ("Sep 1889", "March 3, 2017", "2017-03-03")
+const DATE_PARSERS = ['%Y-%m-%d', '%Y-%m', '%b %Y', '%B %Y', '%b %d, %Y', '%B %d, %Y', '%d %b %Y', '%d %B %Y']
+  .map((format) => d3.timeParse(format));
+
+const startOfYear = (year: number) => {
+  const date = new Date(2000, 0, 1);
+  date.setFullYear(year); // Date(year, ...) maps 0-99 onto the 1900s
+  return date;
+};
+
+// Uses dateStr when it parses to the event's own year, otherwise January 1st of `year`
+export const parseEventDate = (event: TimelineEvent): Date => {
+  const dateStr = event.dateStr?.trim();
+  if (dateStr) {
+    for (const parse of DATE_PARSERS) {
+      const date = parse(dateStr);
+      if (date && date.getFullYear() === event.year) return date;
+    }
+  }
+  return startOfYear(event.year);
+};
+
+// --- Filtering ---
+
+export const matchesQuery = (event: TimelineEvent, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return false;
+  return [event.title, event.description, event.dateStr || '', String(event.year)]
+    .some((field) => field.toLowerCase().includes(needle));
+};
+
+// Returns the original event objects so callers can match them by reference
+export const applyTimelineFilter = (events: TimelineEvent[], filter: TimelineFilter): TimelineEvent[] =>
+  events.filter((event) =>
+    !filter.hiddenCategories.includes(event.category) &&
+    (!filter.yearRange || (event.year >= filter.yearRange[0] && event.year <= filter.yearRange[1]))
+  );
+
+// --- URL sync ---
+
+export const readTimelineFilter = (params: URLSearchParams): TimelineFilter => {
+  const hidden = (params.get('hide') || '')
+    .split(',')
+    .filter((c): c is TimelineEvent['category'] => TIMELINE_CATEGORIES.includes(c as TimelineEvent['category']));
+  const from = parseInt(params.get('from') || '', 10);
+  const to = parseInt(params.get('to') || '', 10);
+  return {
+    layout: params.get('layout') === 'time' ? 'time' : 'ordinal',
+    hiddenCategories: hidden,
+    yearRange: Number.isFinite(from) && Number.isFinite(to) ? [Math.min(from, to), Math.max(from, to)] : null,
+    query: params.get('q') || ''
+  };
+};
+
+// Mutates `params`, leaving unrelated keys alone and omitting defaults
+export const writeTimelineFilter = (params: URLSearchParams, filter: TimelineFilter): URLSearchParams => {
+  ['layout', 'hide', 'from', 'to', 'q'].forEach((key) => params.delete(key));
+  if (filter.layout !== 'ordinal') params.set('layout', filter.layout);
+  if (filter.hiddenCategories.length > 0) params.set('hide', filter.hiddenCategories.join(','));
+  if (filter.yearRange) {
+    params.set('from', String(filter.yearRange[0]));
+    params.set('to', String(filter.yearRange[1]));
+  }
+  if (filter.query.trim()) params.set('q', filter.query.trim());
+  return params;
+};
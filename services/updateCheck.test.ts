@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { OrgNode } from '../types';
+import { buildRefreshProposal, collectCuratedKeys, defaultRefreshSelection } from './updateCheck';
+import { createHistory, pushVersion, currentVersion } from './versionHistory';
+import { ACME } from './__fixtures__/companyData';
+
+describe('collectCuratedKeys', () => {
+  it('does not bring back a node the user renamed', () => {
+    const [anvils, jv] = ACME.structure.children!;
+    const structure: OrgNode = { ...ACME.structure, children: [{ ...anvils, name: 'Acme Heavy Industries' }, jv] };
+    const history = pushVersion(createHistory(ACME), { ...ACME, structure }, { source: 'manual', label: 'Renamed a division' });
+
+    // The fresh analysis still uses the old name
+    const proposal = buildRefreshProposal(currentVersion(history).data, ACME, collectCuratedKeys(history));
+    const readded = proposal.changes.find((c) => c.id === 'node-added:acme anvils');
+    expect(readded?.curated).toBe(true);
+    expect(defaultRefreshSelection(proposal).has('node-added:acme anvils')).toBe(false);
+  });
+});
@@ -0,0 +1,234 @@
+import { CompanyData, TimelineEvent, OrgNode, VersionHistory, RefreshChange, RefreshProposal } from "../types";
+import { fetchCompanyData } from "./geminiService";
+import { diffCompanyData } from "./versionHistory";
+import { normalizeEntityName } from "./comparison";
+
+const titleKey = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+const nodeKey = normalizeEntityName;
+
+// --- Hand-curated facts ---
+
+export interface CuratedKeys {
+  events: Set<string>; // Title keys
+  nodes: Set<string>; // Entity name keys
+}
+
+// Facts touched by manual edits or file imports up to the current version. Deletions count
+// too, so an update check never brings back something the user removed.
+export const collectCuratedKeys = (history: VersionHistory): CuratedKeys => {
+  const keys: CuratedKeys = { events: new Set(), nodes: new Set() };
+  history.versions.slice(1, history.index + 1).forEach((version, i) => {
+    if (version.source !== 'manual' && version.source !== 'import') return;
+    const diff = diffCompanyData(history.versions[i].data, version.data);
+    [...diff.timeline.added, ...diff.timeline.removed].forEach((e) => keys.events.add(titleKey(e.title)));
+    diff.timeline.modified.forEach(({ before, after }) => {
+      keys.events.add(titleKey(before.title));
+      keys.events.add(titleKey(after.title));
+    });
+    [...diff.structure.added, ...diff.structure.removed, ...diff.structure.moved].forEach((n) => keys.nodes.add(nodeKey(n.name)));
+    diff.structure.modified.forEach(({ before, after }) => {
+      keys.nodes.add(nodeKey(before.name));
+      keys.nodes.add(nodeKey(after.name));
+    });
+  });
+  return keys;
+};
+
+// --- Matching ---
+
+const titleWords = (title: string) => new Set(title.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+
+// Re-runs rarely word titles identically ("Wii launches" vs "Launch of the Wii")
+const similarTitles = (a: string, b: string) => {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+  let shared = 0;
+  wordsA.forEach((w) => { if (wordsB.has(w)) shared++; });
+  return shared / Math.min(wordsA.size, wordsB.size) >= 0.5;
+};
+
+// Pairs existing events with fresh ones: same title first, then a similar title within a year
+const matchEvents = (current: TimelineEvent[], fresh: TimelineEvent[]): Map<TimelineEvent, TimelineEvent> => {
+  const matches = new Map<TimelineEvent, TimelineEvent>();
+  const unmatched = [...fresh];
+  const take = (predicate: (f: TimelineEvent) => boolean) => {
+    const idx = unmatched.findIndex(predicate);
+    return idx === -1 ? undefined : unmatched.splice(idx, 1)[0];
+  };
+  current.forEach((event) => {
+    const found = take((f) => titleKey(f.title) === titleKey(event.title));
+    if (found) matches.set(event, found);
+  });
+  current.forEach((event) => {
+    if (matches.has(event)) return;
+    const found = take((f) => Math.abs(f.year - event.year) <= 1 && similarTitles(f.title, event.title));
+    if (found) matches.set(event, found);
+  });
+  return matches;
+};
+
+// Wording changes are ignored; only a moved date counts as a changed event
+const eventChanged = (before: TimelineEvent, after: TimelineEvent) =>
+  before.year !== after.year || (!!before.dateStr && !!after.dateStr && before.dateStr !== after.dateStr);
+
+interface FlatNode {
+  node: OrgNode;
+  parent: OrgNode | null;
+  grafted: boolean; // Inside a drilled-down subtree, which a fresh parent analysis rarely covers
+}
+
+const flattenTree = (root: OrgNode): Map<string, FlatNode> => {
+  const nodes = new Map<string, FlatNode>();
+  const visit = (node: OrgNode, parent: OrgNode | null, grafted: boolean) => {
+    const key = nodeKey(node.name);
+    if (!nodes.has(key)) nodes.set(key, { node, parent, grafted });
+    node.children?.forEach((child) => visit(child, node, grafted || !!node.provenance));
+  };
+  visit(root, null, false);
+  return nodes;
+};
+
+const EDGE_FIELDS = ['relationship', 'ownershipPercent', 'acquiredDate'] as const;
+
+// Ownership details the fresh analysis reports differently; fields it omits are not changes
+const nodeUpdate = (before: OrgNode, fresh: OrgNode): Partial<OrgNode> | null => {
+  const update: Partial<OrgNode> = {};
+  EDGE_FIELDS.forEach((field) => {
+    if (fresh[field] !== undefined && fresh[field] !== before[field]) (update as any)[field] = fresh[field];
+  });
+  return Object.keys(update).length > 0 ? update : null;
+};
+
+const withoutChildren = ({ children: _omit, ...rest }: OrgNode): OrgNode => rest;
+
+// --- Proposal ---
+
+export const buildRefreshProposal = (
+  current: CompanyData,
+  fresh: CompanyData,
+  curated: CuratedKeys,
+  since?: string
+): RefreshProposal => {
+  const changes: RefreshChange[] = [];
+
+  const matches = matchEvents(current.timeline, fresh.timeline);
+  const matchedFresh = new Set(matches.values());
+  matches.forEach((after, before) => {
+    if (!eventChanged(before, after)) return;
+    changes.push({
+      id: `event-changed:${titleKey(before.title)}`,
+      curated: curated.events.has(titleKey(before.title)),
+      kind: 'event-changed',
+      before,
+      after: { ...before, year: after.year, dateStr: after.dateStr || before.dateStr }
+    });
+  });
+  fresh.timeline.filter((e) => !matchedFresh.has(e)).forEach((event) => {
+    changes.push({ id: `event-added:${titleKey(event.title)}`, curated: curated.events.has(titleKey(event.title)), kind: 'event-added', event });
+  });
+
+  // The roots are the same company even when the names are spelled differently
+  const currentNodes = flattenTree(current.structure);
+  const freshNodes = flattenTree({ ...fresh.structure, name: current.structure.name });
+
+  freshNodes.forEach(({ node, parent }, key) => {
+    const existing = currentNodes.get(key);
+    if (!existing) {
+      changes.push({ id: `node-added:${key}`, curated: curated.nodes.has(key), kind: 'node-added', node: withoutChildren(node), parent: parent!.name });
+      return;
+    }
+    const update = nodeUpdate(existing.node, node);
+    if (update) {
+      changes.push({ id: `node-changed:${key}`, curated: curated.nodes.has(key), kind: 'node-changed', before: existing.node, after: { ...existing.node, ...update } });
+    }
+  });
+  currentNodes.forEach(({ node, parent, grafted }, key) => {
+    if (!parent || grafted || freshNodes.has(key)) return;
+    changes.push({ id: `node-removed:${key}`, curated: curated.nodes.has(key), kind: 'node-removed', node: withoutChildren(node), parent: parent.name });
+  });
+
+  return { fresh, checkedAt: Date.now(), since, changes };
+};
+
+// Everything not hand-curated, except removals: a fact missing from one search is weak evidence
+export const defaultRefreshSelection = (proposal: RefreshProposal): Set<string> =>
+  new Set(proposal.changes.filter((c) => !c.curated && c.kind !== 'node-removed').map((c) => c.id));
+
+export const checkForUpdates = async (current: CompanyData, history: VersionHistory, since?: string): Promise<RefreshProposal> => {
+  const fresh = await fetchCompanyData(current.companyName, { since });
+  return buildRefreshProposal(current, fresh, collectCuratedKeys(history), since);
+};
+
+// --- Applying ---
+
+// Applies the selected changes and stamps lastVerified on every fact the fresh analysis confirmed.
+// Works against `current` by name, so edits made while the review was open are kept.
+export const applyRefresh = (current: CompanyData, proposal: RefreshProposal, selected: Set<string>): CompanyData => {
+  const verifiedAt = proposal.checkedAt;
+  const picked = proposal.changes.filter((c) => selected.has(c.id) && !c.curated);
+  const isPicked = (id: string) => picked.some((c) => c.id === id);
+  const disputed = new Set(proposal.changes.filter((c) => c.kind === 'event-changed' || c.kind === 'node-changed').map((c) => c.id));
+
+  const matches = matchEvents(current.timeline, proposal.fresh.timeline);
+  const timeline = current.timeline.map((event) => {
+    const changeId = `event-changed:${titleKey(event.title)}`;
+    const change = picked.find((c) => c.id === changeId);
+    if (change && change.kind === 'event-changed') return { ...event, year: change.after.year, dateStr: change.after.dateStr, lastVerified: verifiedAt };
+    if (disputed.has(changeId) || !matches.has(event)) return event;
+    return { ...event, lastVerified: verifiedAt };
+  });
+  picked.forEach((c) => {
+    if (c.kind === 'event-added') timeline.push({ ...c.event, lastVerified: verifiedAt });
+  });
+
+  const freshNodes = flattenTree({ ...proposal.fresh.structure, name: current.structure.name });
+  const existing = flattenTree(current.structure);
+  const additions = new Map<string, OrgNode[]>();
+  const addedKeys = new Set(picked.flatMap((c) => (c.kind === 'node-added' ? [nodeKey(c.node.name)] : [])));
+  picked.forEach((c) => {
+    if (c.kind !== 'node-added') return;
+    // Parents missing from both trees (e.g. a removed group) fall back to the root
+    const parentKey = existing.has(nodeKey(c.parent)) || addedKeys.has(nodeKey(c.parent)) ? nodeKey(c.parent) : nodeKey(current.structure.name);
+    additions.set(parentKey, [...(additions.get(parentKey) || []), { ...c.node, lastVerified: verifiedAt }]);
+  });
+
+  const withAdditions = (node: OrgNode): OrgNode => {
+    const added = (additions.get(nodeKey(node.name)) || []).map(withAdditions);
+    if (added.length === 0) return node;
+    return { ...node, children: [...(node.children || []), ...added] };
+  };
+
+  const rebuild = (node: OrgNode, isRoot: boolean): OrgNode | null => {
+    const key = nodeKey(node.name);
+    if (!isRoot && isPicked(`node-removed:${key}`)) return null;
+
+    let next: OrgNode = { ...node };
+    const change = picked.find((c) => c.id === `node-changed:${key}`);
+    if (change && change.kind === 'node-changed') {
+      EDGE_FIELDS.forEach((field) => { (next as any)[field] = change.after[field]; });
+      next.lastVerified = verifiedAt;
+    } else if (!disputed.has(`node-changed:${key}`) && (isRoot || freshNodes.has(key))) {
+      next.lastVerified = verifiedAt;
+    }
+
+    const children = (node.children || [])
+      .map((child) => rebuild(child, false))
+      .filter((child): child is OrgNode => child !== null);
+    if (children.length > 0) next.children = children;
+    else delete next.children;
+    return withAdditions(next);
+  };
+
+  return {
+    ...current,
+    timeline,
+    structure: rebuild(current.structure, true)!,
+    sources: Array.from(new Map([...current.sources, ...proposal.fresh.sources].map((s) => [s.uri, s])).values())
+  };
+};
+
+export const summarizeRefresh = (proposal: RefreshProposal, selected: Set<string>): string => {
+  const applied = proposal.changes.filter((c) => selected.has(c.id) && !c.curated).length;
+  return applied === 0 ? 'Verified, no changes applied' : `${applied} change${applied === 1 ? '' : 's'} applied`;
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenUsage } from './providers';
+import { recordUsage, clearUsage, listUsage, totalUsage, totalsByCompany, estimateCost, currentUsageSession, startUsageSession } from './usageTracker';
+
+const usage: TokenUsage = { promptTokens: 1001, candidateTokens: 200, toolTokens: 0, thoughtTokens: 0, totalTokens: 1201, searchQueries: 1 };
+
+beforeEach(() => {
+  clearUsage();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.resetModules();
+});
+
+describe('recordUsage', () => {
+  it('splits a call about several companies between them, counting it once', () => {
+    recordUsage(['Acme', 'Globex'], 'chat', usage, 'gemini-2.5-flash');
+
+    const [acme, globex] = totalsByCompany(listUsage()).sort((a, b) => a.key.localeCompare(b.key));
+    expect(acme).toMatchObject({ key: 'Acme', calls: 1, promptTokens: 501, totalTokens: 601 });
+    expect(globex).toMatchObject({ key: 'Globex', calls: 1, promptTokens: 500, totalTokens: 600 });
+    expect(acme.estimatedCost).toBeCloseTo(estimateCost('gemini-2.5-flash', usage) / 2);
+
+    const all = totalUsage(listUsage());
+    expect(all).toMatchObject({ calls: 1, totalTokens: 1201, searchQueries: 1 });
+    expect(all.estimatedCost).toBeCloseTo(estimateCost('gemini-2.5-flash', usage));
+  });
+
+  it('prices a call at the model that answered it', () => {
+    const [record] = recordUsage('Acme', 'analysis', usage, 'gemini-2.5-pro');
+    expect(record.model).toBe('gemini-2.5-pro');
+    expect(record.estimatedCost).toBe(estimateCost('gemini-2.5-pro', usage));
+  });
+});
+
+describe('usage sessions', () => {
+  it('continues the session of the tab after a reload', async () => {
+    const saved = new Map([['corporate-chronicles:usage-session', 'earlier session']]);
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => saved.get(key) ?? null,
+      setItem: (key: string, value: string) => saved.set(key, value)
+    });
+    vi.resetModules();
+    const reloaded = await import('./usageTracker');
+    expect(reloaded.currentUsageSession()).toBe('earlier session');
+
+    const started = reloaded.startUsageSession();
+    expect(started).not.toBe('earlier session');
+    expect(saved.get('corporate-chronicles:usage-session')).toBe(started);
+  });
+
+  it('records new calls under a session the user starts', () => {
+    recordUsage('Acme', 'analysis', usage);
+    const before = currentUsageSession();
+    const started = startUsageSession();
+    recordUsage('Acme', 'analysis', usage);
+    expect(listUsage().map((r) => r.sessionId)).toEqual([before, started]);
+  });
+});
@@ -0,0 +1,329 @@
+import { getProvider, TokenUsage } from "./providers";
+import { escapeCsvField } from "./exporters";
+import { normalizeEntityName } from "./comparison";
+import { logger } from "./logger";
+
+// Ledger of model calls for cost reporting. Every provider response that reports usage is
+// recorded against the company it was for and the session that made it: a browser tab until
+// the user starts a new one, or a CLI run.
+
+export type UsageKind = 'analysis' | 'update-check' | 'repair' | 'chat';
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: number;
+  sessionId: string;
+  companyName: string;
+  kind: UsageKind;
+  callId?: string; // Set on the records one call was split into, e.g. a comparison chat turn
+  provider: string;
+  model: string;
+  estimatedCost: number; // USD at list prices, see MODEL_PRICES
+}
+
+export interface UsageTotals extends TokenUsage {
+  key: string; // Company name or session id
+  calls: number;
+  estimatedCost: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+export interface UsageBudgets {
+  sessionCost?: number; // USD for the current session
+  companyTokens?: number; // Total tokens for any one company, across sessions
+}
+
+export interface BudgetWarning {
+  scope: 'session' | 'company';
+  key: string;
+  used: number;
+  limit: number;
+}
+
+// --- Pricing ---
+
+// USD per million tokens and per grounded request. Published list prices at the time of
+// writing; they change, so costs are shown as estimates.
+interface ModelPrice {
+  input: number; // Prompt and tool-use prompt tokens
+  output: number; // Candidate and thinking tokens
+  groundedRequest: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10, groundedRequest: 0.035 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, groundedRequest: 0.035 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, groundedRequest: 0.035 }
+};
+const DEFAULT_PRICE = MODEL_PRICES['gemini-2.5-flash'];
+
+// Simulated usage is free; unknown models are priced like Flash rather than not at all
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  if (usage.simulated) return 0;
+  const price = MODEL_PRICES[model] || DEFAULT_PRICE;
+  return (
+    ((usage.promptTokens + usage.toolTokens) * price.input +
+      (usage.candidateTokens + usage.thoughtTokens) * price.output) / 1_000_000 +
+    (usage.searchQueries > 0 ? price.groundedRequest : 0)
+  );
+};
+
+// --- Ledger ---
+
+const STORAGE_KEY = "corporate-chronicles:usage";
+const BUDGETS_KEY = "corporate-chronicles:usage-budgets";
+const SESSION_KEY = "corporate-chronicles:usage-session";
+const MAX_RECORDS = 5000;
+
+// localStorage when available so totals survive reloads; memory otherwise (and in Node)
+const storage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+// sessionStorage keeps the session id across reloads of the same tab
+const sessionStore = (): Storage | null => {
+  try {
+    return typeof sessionStorage === 'undefined' ? null : sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+let records: UsageRecord[] | null = null;
+const listeners = new Set<(records: UsageRecord[]) => void>();
+
+const load = (): UsageRecord[] => {
+  if (records) return records;
+  records = [];
+  try {
+    const parsed = JSON.parse(storage()?.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(parsed)) records = parsed.filter((r) => r && typeof r.totalTokens === 'number');
+  } catch (e) {
+    logger.warn("Ignoring unreadable usage ledger", e);
+  }
+  return records;
+};
+
+const persist = (next: UsageRecord[]) => {
+  records = next;
+  try {
+    storage()?.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    logger.warn("Could not save the usage ledger", e);
+  }
+  listeners.forEach((listener) => listener(next));
+};
+
+export const listUsage = (): UsageRecord[] => load();
+
+// --- Sessions ---
+
+let sessionId: string | null = null;
+
+const beginSession = (): string => {
+  sessionId = `${new Date().toISOString().slice(0, 19).replace('T', ' ')} ${Math.random().toString(36).slice(2, 6)}`;
+  try {
+    sessionStore()?.setItem(SESSION_KEY, sessionId);
+  } catch (e) {
+    logger.warn("Could not save the usage session", e);
+  }
+  return sessionId;
+};
+
+// Reloading the page continues the session, so its budget keeps counting
+export const currentUsageSession = (): string => {
+  if (sessionId) return sessionId;
+  try {
+    sessionId = sessionStore()?.getItem(SESSION_KEY) || null;
+  } catch {
+    sessionId = null;
+  }
+  return sessionId || beginSession();
+};
+
+// Started by the user, e.g. at the beginning of a piece of work they want costed on its own
+export const startUsageSession = (): string => {
+  const id = beginSession();
+  listeners.forEach((listener) => listener([...load()]));
+  return id;
+};
+
+// --- Recording ---
+
+const createRecordId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Whole tokens (and searches) per share; the remainder goes to the first companies
+const splitCount = (value: number, parts: number, index: number) => Math.floor(value / parts) + (index < value % parts ? 1 : 0);
+
+const splitUsage = (usage: TokenUsage, parts: number, index: number): TokenUsage => ({
+  ...usage,
+  promptTokens: splitCount(usage.promptTokens, parts, index),
+  candidateTokens: splitCount(usage.candidateTokens, parts, index),
+  toolTokens: splitCount(usage.toolTokens, parts, index),
+  thoughtTokens: splitCount(usage.thoughtTokens, parts, index),
+  totalTokens: splitCount(usage.totalTokens, parts, index),
+  searchQueries: splitCount(usage.searchQueries, parts, index)
+});
+
+// Responses without usage (cache hits, shared proxy requests) cost nothing and are skipped.
+// A call about several companies (a comparison chat) is split evenly between them, so each
+// company's totals and budget include its share. Priced at the model the response reports,
+// since behind the proxy the server picks it.
+export const recordUsage = (companies: string | string[], kind: UsageKind, usage: TokenUsage | undefined, model?: string): UsageRecord[] => {
+  if (!usage) return [];
+  const provider = getProvider();
+  const billedModel = model || provider.model;
+  const names = Array.isArray(companies) ? companies : [companies];
+  const cost = estimateCost(billedModel, usage);
+  const callId = names.length > 1 ? createRecordId() : undefined;
+  const added: UsageRecord[] = names.map((companyName, index) => ({
+    ...(names.length > 1 ? splitUsage(usage, names.length, index) : usage),
+    id: createRecordId(),
+    timestamp: Date.now(),
+    sessionId: currentUsageSession(),
+    companyName,
+    kind,
+    ...(callId && { callId }),
+    provider: provider.name,
+    model: billedModel,
+    estimatedCost: cost / names.length
+  }));
+  // Oldest records go first once the ledger is full
+  persist([...load(), ...added].slice(-MAX_RECORDS));
+  return added;
+};
+
+export const clearUsage = () => persist([]);
+
+export const subscribeUsage = (listener: (records: UsageRecord[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Totals ---
+
+const emptyTotals = (key: string, at: number): UsageTotals => ({
+  key,
+  calls: 0,
+  promptTokens: 0,
+  candidateTokens: 0,
+  toolTokens: 0,
+  thoughtTokens: 0,
+  totalTokens: 0,
+  searchQueries: 0,
+  estimatedCost: 0,
+  firstAt: at,
+  lastAt: at
+});
+
+// Calls are counted separately, since the shares of a split call are one call
+const addTo = (totals: UsageTotals, record: UsageRecord) => {
+  totals.promptTokens += record.promptTokens;
+  totals.candidateTokens += record.candidateTokens;
+  totals.toolTokens += record.toolTokens;
+  totals.thoughtTokens += record.thoughtTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.searchQueries += record.searchQueries;
+  totals.estimatedCost += record.estimatedCost;
+  totals.firstAt = Math.min(totals.firstAt, record.timestamp);
+  totals.lastAt = Math.max(totals.lastAt, record.timestamp);
+};
+
+// Each record is a call, except the shares of a split call, which count once together
+const sumUsage = (key: string, list: UsageRecord[]): UsageTotals => {
+  const totals = emptyTotals(key, list[0]?.timestamp || Date.now());
+  list.forEach((record) => addTo(totals, record));
+  totals.calls = new Set(list.map((record) => record.callId || record.id)).size;
+  return totals;
+};
+
+// The first name seen for a group is its label
+const groupUsage = (list: UsageRecord[], keyOf: (record: UsageRecord) => string, labelOf: (record: UsageRecord) => string): UsageTotals[] => {
+  const groups = new Map<string, { label: string; records: UsageRecord[] }>();
+  list.forEach((record) => {
+    const key = keyOf(record);
+    if (!groups.has(key)) groups.set(key, { label: labelOf(record), records: [] });
+    groups.get(key)!.records.push(record);
+  });
+  return Array.from(groups.values()).map((group) => sumUsage(group.label, group.records)).sort((a, b) => b.lastAt - a.lastAt);
+};
+
+// A search for "Nintendo" and chat about "Nintendo Co., Ltd." are billed to the same company
+export const totalsByCompany = (list: UsageRecord[]): UsageTotals[] =>
+  groupUsage(list, (r) => normalizeEntityName(r.companyName), (r) => r.companyName.trim());
+
+export const totalsBySession = (list: UsageRecord[]): UsageTotals[] =>
+  groupUsage(list, (r) => r.sessionId, (r) => r.sessionId);
+
+export const totalUsage = (list: UsageRecord[], key = 'all'): UsageTotals => sumUsage(key, list);
+
+// --- Budgets ---
+
+export const readBudgets = (): UsageBudgets => {
+  try {
+    const parsed = JSON.parse(storage()?.getItem(BUDGETS_KEY) || '{}');
+    const positive = (value: unknown) => (typeof value === 'number' && value > 0 ? value : undefined);
+    return { sessionCost: positive(parsed.sessionCost), companyTokens: positive(parsed.companyTokens) };
+  } catch {
+    return {};
+  }
+};
+
+export const saveBudgets = (budgets: UsageBudgets) => {
+  try {
+    storage()?.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+  } catch (e) {
+    logger.warn("Could not save usage budgets", e);
+  }
+};
+
+// Budgets only warn; nothing is blocked when one is exceeded
+export const checkBudgets = (list: UsageRecord[], budgets: UsageBudgets): BudgetWarning[] => {
+  const warnings: BudgetWarning[] = [];
+  if (budgets.sessionCost) {
+    const sessionId = currentUsageSession();
+    const session = totalUsage(list.filter((r) => r.sessionId === sessionId), sessionId);
+    if (session.estimatedCost > budgets.sessionCost) {
+      warnings.push({ scope: 'session', key: sessionId, used: session.estimatedCost, limit: budgets.sessionCost });
+    }
+  }
+  if (budgets.companyTokens) {
+    totalsByCompany(list).forEach((company) => {
+      if (company.totalTokens > budgets.companyTokens!) {
+        warnings.push({ scope: 'company', key: company.key, used: company.totalTokens, limit: budgets.companyTokens! });
+      }
+    });
+  }
+  return warnings;
+};
+
+// --- Export ---
+
+export const USAGE_CSV_COLUMNS = [
+  'timestamp', 'sessionId', 'companyName', 'kind', 'callId', 'provider', 'model',
+  'promptTokens', 'candidateTokens', 'toolTokens', 'thoughtTokens', 'totalTokens', 'searchQueries', 'estimatedCost'
+] as const;
+
+// One row per model call, or per company's share of a split one, for chargeback spreadsheets
+export const toUsageCsv = (list: UsageRecord[]): string => {
+  const lines = list.map((record) => USAGE_CSV_COLUMNS.map((column) => {
+    if (column === 'timestamp') return new Date(record.timestamp).toISOString();
+    if (column === 'estimatedCost') return record.estimatedCost.toFixed(6);
+    return record[column];
+  }));
+  return [USAGE_CSV_COLUMNS.join(','), ...lines.map((line) => line.map(escapeCsvField).join(','))].join('\r\n') + '\r\n';
+};
+
+export const toUsageJson = (list: UsageRecord[]): string => JSON.stringify({
+  exportedAt: new Date().toISOString(),
+  byCompany: totalsByCompany(list),
+  bySession: totalsBySession(list),
+  records: list
+}, null, 2);
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { OrgNode } from '../types';
+import { diffStructure } from './versionHistory';
+import { ACME } from './__fixtures__/companyData';
+
+const root = ACME.structure;
+const [anvils, jv] = root.children!;
+
+describe('diffStructure', () => {
+  it('reports a renamed node as modified, not as removed and added', () => {
+    const after: OrgNode = { ...root, children: [{ ...anvils, name: 'Acme Heavy Industries' }, jv] };
+    const diff = diffStructure(root, after);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.modified).toEqual([{ before: anvils, after: after.children![0] }]);
+  });
+
+  it('does not count the children of a renamed node as moved', () => {
+    const after: OrgNode = { ...root, children: [{ ...anvils, name: 'Acme Heavy Industries' }, jv] };
+    expect(diffStructure(root, after).moved).toEqual([]);
+  });
+
+  it('reports a node under a different parent as moved', () => {
+    const forge = anvils.children![0];
+    const after: OrgNode = { ...root, children: [{ ...anvils, children: undefined }, { ...jv, children: [forge] }] };
+    expect(diffStructure(root, after).moved).toEqual([{ name: 'Acme Forge', fromParent: 'Acme Anvils', toParent: 'Desert Rockets JV' }]);
+  });
+
+  it('tells apart nodes that share a name', () => {
+    const before: OrgNode = { id: 'r', name: 'Root', role: 'root', children: [{ id: 'a', name: 'Sales', role: 'department' }] };
+    const after: OrgNode = { ...before, children: [...before.children!, { id: 'b', name: 'Sales', role: 'department' }] };
+    expect(diffStructure(before, after).added).toEqual([{ name: 'Sales', parent: 'Root' }]);
+  });
+
+  it('falls back to names for data without ids', () => {
+    const strip = (node: OrgNode): OrgNode => ({ ...node, id: '', children: node.children?.map(strip) });
+    const diff = diffStructure(strip(root), root);
+    expect(diff).toEqual({ added: [], removed: [], moved: [], modified: [] });
+  });
+});
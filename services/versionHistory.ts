@@ -0,0 +1,171 @@
+import { CompanyData, TimelineEvent, OrgNode, DataVersion, VersionHistory, VersionSource, TimelineDiff, StructureDiff, CompanyDataDiff } from "../types";
+import { ensureEntityIds } from "./entityIds";
+
+export const createVersionId = (): string =>
+  `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// --- History ---
+
+export const createHistory = (data: CompanyData, label = "Initial analysis"): VersionHistory => ({
+  versions: [{ id: createVersionId(), data: ensureEntityIds(data), createdAt: Date.now(), source: 'analysis', label }],
+  index: 0
+});
+
+export const currentVersion = (history: VersionHistory): DataVersion => history.versions[history.index];
+
+// Appends a snapshot after the current one, discarding anything that could have been redone.
+// Every snapshot passes through here, so this is where merges and imports get unique ids.
+export const pushVersion = (
+  history: VersionHistory,
+  data: CompanyData,
+  meta: { id?: string; source: VersionSource; label: string }
+): VersionHistory => {
+  const version: DataVersion = { id: meta.id || createVersionId(), data: ensureEntityIds(data), createdAt: Date.now(), source: meta.source, label: meta.label };
+  return {
+    versions: [...history.versions.slice(0, history.index + 1), version],
+    index: history.index + 1
+  };
+};
+
+export const canUndo = (history: VersionHistory) => history.index > 0;
+export const canRedo = (history: VersionHistory) => history.index < history.versions.length - 1;
+
+export const undo = (history: VersionHistory): VersionHistory =>
+  canUndo(history) ? { ...history, index: history.index - 1 } : history;
+
+export const redo = (history: VersionHistory): VersionHistory =>
+  canRedo(history) ? { ...history, index: history.index + 1 } : history;
+
+export const findVersion = (history: VersionHistory, id: string): { version: DataVersion; previous?: DataVersion } | null => {
+  const idx = history.versions.findIndex((v) => v.id === id);
+  if (idx === -1) return null;
+  return { version: history.versions[idx], previous: history.versions[idx - 1] };
+};
+
+// --- Diffing ---
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameEvent = (a: TimelineEvent, b: TimelineEvent) =>
+  a.year === b.year &&
+  a.dateStr === b.dateStr &&
+  a.title === b.title &&
+  a.description === b.description &&
+  a.category === b.category;
+
+// Events are matched by id, then by title, then leftovers by year + category (a retitled event)
+export const diffTimeline = (before: TimelineEvent[], after: TimelineEvent[]): TimelineDiff => {
+  const diff: TimelineDiff = { added: [], removed: [], modified: [] };
+  const unmatchedBefore = [...before];
+  const unmatchedAfter: TimelineEvent[] = [];
+
+  for (const event of after) {
+    let idx = unmatchedBefore.findIndex((b) => b.id === event.id);
+    if (idx === -1) idx = unmatchedBefore.findIndex((b) => normalizeKey(b.title) === normalizeKey(event.title));
+    if (idx === -1) {
+      unmatchedAfter.push(event);
+      continue;
+    }
+    const [previous] = unmatchedBefore.splice(idx, 1);
+    if (!sameEvent(previous, event)) diff.modified.push({ before: previous, after: event });
+  }
+
+  for (const event of unmatchedAfter) {
+    const idx = unmatchedBefore.findIndex((b) => b.year === event.year && b.category === event.category);
+    if (idx === -1) {
+      diff.added.push(event);
+    } else {
+      const [previous] = unmatchedBefore.splice(idx, 1);
+      diff.modified.push({ before: previous, after: event });
+    }
+  }
+
+  diff.removed = unmatchedBefore;
+  return diff;
+};
+
+interface FlatNode {
+  node: OrgNode;
+  parent: OrgNode | null;
+}
+
+const flattenTree = (root: OrgNode): FlatNode[] => {
+  const nodes: FlatNode[] = [];
+  const visit = (node: OrgNode, parent: OrgNode | null) => {
+    nodes.push({ node, parent });
+    node.children?.forEach((child) => visit(child, node));
+  };
+  visit(root, null);
+  return nodes;
+};
+
+// By id; by name only when one side has no id (data saved before ids existed)
+const sameNode = (a: OrgNode | null, b: OrgNode | null) => {
+  if (!a || !b) return a === b;
+  return a.id && b.id ? a.id === b.id : normalizeKey(a.name) === normalizeKey(b.name);
+};
+
+// Ownership details of the edge into a node, including its cross-links
+const edgeSignature = (node: OrgNode) =>
+  JSON.stringify([node.relationship, node.ownershipPercent, node.acquiredDate, node.crossLinks || []]);
+
+// Nodes are matched by id, so a renamed node counts as modified; one under a different parent
+// counts as moved
+export const diffStructure = (before: OrgNode, after: OrgNode): StructureDiff => {
+  const diff: StructureDiff = { added: [], removed: [], moved: [], modified: [] };
+  const unmatchedBefore = flattenTree(before);
+  const parentName = (parent: OrgNode | null) => parent?.name ?? null;
+
+  for (const entry of flattenTree(after)) {
+    let idx = entry.node.id ? unmatchedBefore.findIndex((b) => b.node.id === entry.node.id) : -1;
+    if (idx === -1) idx = unmatchedBefore.findIndex((b) => sameNode(b.node, entry.node));
+    if (idx === -1) {
+      diff.added.push({ name: entry.node.name, parent: parentName(entry.parent) });
+      continue;
+    }
+    const [previous] = unmatchedBefore.splice(idx, 1);
+    if (!sameNode(previous.parent, entry.parent)) {
+      diff.moved.push({ name: entry.node.name, fromParent: parentName(previous.parent), toParent: parentName(entry.parent) });
+    }
+    if (
+      previous.node.name !== entry.node.name ||
+      previous.node.role !== entry.node.role ||
+      (previous.node.description || '') !== (entry.node.description || '') ||
+      edgeSignature(previous.node) !== edgeSignature(entry.node)
+    ) {
+      diff.modified.push({ before: previous.node, after: entry.node });
+    }
+  }
+
+  diff.removed = unmatchedBefore.map((entry) => ({ name: entry.node.name, parent: parentName(entry.parent) }));
+  return diff;
+};
+
+export const diffCompanyData = (before: CompanyData, after: CompanyData): CompanyDataDiff => ({
+  timeline: diffTimeline(before.timeline, after.timeline),
+  structure: diffStructure(before.structure, after.structure)
+});
+
+export const isEmptyDiff = (diff: CompanyDataDiff): boolean =>
+  diff.timeline.added.length === 0 &&
+  diff.timeline.removed.length === 0 &&
+  diff.timeline.modified.length === 0 &&
+  diff.structure.added.length === 0 &&
+  diff.structure.removed.length === 0 &&
+  diff.structure.moved.length === 0 &&
+  diff.structure.modified.length === 0;
+
+// Short human-readable label for a version, e.g. "+2 events, -1 node"
+export const summarizeDiff = (diff: CompanyDataDiff): string => {
+  const parts: string[] = [];
+  const count = (n: number, sign: string, noun: string) => {
+    if (n > 0) parts.push(`${sign}${n} ${noun}${n === 1 ? '' : 's'}`);
+  };
+  count(diff.timeline.added.length, '+', 'event');
+  count(diff.timeline.removed.length, '-', 'event');
+  count(diff.timeline.modified.length, '~', 'event');
+  count(diff.structure.added.length, '+', 'node');
+  count(diff.structure.removed.length, '-', 'node');
+  count(diff.structure.moved.length + diff.structure.modified.length, '~', 'node');
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
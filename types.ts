@@ -1,18 +1,53 @@
+export type Confidence = 'high' | 'medium' | 'low';
+
 export interface TimelineEvent {
+  id: string; // Stable across edits and versions; see services/entityIds
   year: number;
   dateStr?: string;
   title: string;
   description: string;
   category: 'founding' | 'product' | 'acquisition' | 'scandal' | 'general';
+  sourceUris?: string[]; // Entries of CompanyData.sources backing this event
+  confidence?: Confidence; // Absent when no grounding support covers the event
+  lastVerified?: number; // When an update check last confirmed the event
+}
+
+// Set on a node whose subtree was grafted in from a separate "drill into" analysis
+export interface NodeProvenance {
+  analysisId: string; // SavedAnalysis holding the drilled entity's own timeline and chat
+  companyName: string; // Name the entity was analyzed under
+  fetchedAt: number;
+}
+
+export type RelationshipType = 'wholly-owned' | 'majority' | 'minority' | 'joint-venture' | 'divested';
+
+// A holder of the node besides its tree parent, e.g. the other partner of a joint venture
+export interface OrgCrossLink {
+  target: string; // Name of the holding node elsewhere in the same structure
+  relationship?: RelationshipType;
+  ownershipPercent?: number; // Share the target holds
 }
 
 export interface OrgNode {
+  id: string; // Stable across renames and moves
   name: string;
   role: 'root' | 'parent' | 'subsidiary' | 'department' | 'child';
   children?: OrgNode[];
   description?: string;
+  // The edge from the parent to this node; all optional so plain trees stay valid
+  relationship?: RelationshipType;
+  ownershipPercent?: number; // 0-100, held by the parent
+  acquiredDate?: string; // Free-form like TimelineEvent.dateStr ("Mar 2012")
+  crossLinks?: OrgCrossLink[];
+  sourceUris?: string[];
+  confidence?: Confidence;
+  provenance?: NodeProvenance;
+  lastVerified?: number;
 }
 
+// How the org chart arranges the tree; also part of shareable links
+export type OrgLayout = 'horizontal' | 'vertical' | 'radial' | 'indented';
+
 export interface GroundingSource {
   title: string;
   uri: string;
@@ -26,15 +61,126 @@ export interface CompanyData {
   sources: GroundingSource[];
 }
 
+// What has arrived so far while an analysis is still streaming
+export interface PartialCompanyData {
+  companyName?: string;
+  summary?: string;
+  timeline: TimelineEvent[]; // Only events that are fully received
+  structure?: OrgNode; // Set once the whole tree is received
+  sources?: GroundingSource[];
+}
+
 export interface GeminiResponse {
   data: CompanyData | null;
   error?: string;
 }
 
+export type LLMErrorKind = 'auth' | 'rate-limit' | 'network' | 'timeout' | 'safety' | 'parse' | 'empty' | 'unknown';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
   isUpdate?: boolean; // If this message triggered a data update
+  versionId?: string; // Version produced (or proposed) by that update
+  sources?: GroundingSource[]; // Web sources cited by a model reply
+  error?: { kind: LLMErrorKind; retryable: boolean }; // Set on a failed reply; `text` holds the guidance
+  retryOf?: string; // For a failed reply: the user message to resend
+}
+
+export type VersionSource = 'analysis' | 'chat' | 'manual' | 'import' | 'drilldown' | 'refresh';
+
+export interface DataVersion {
+  id: string;
+  data: CompanyData;
+  createdAt: number;
+  source: VersionSource;
+  label: string;
+}
+
+export interface VersionHistory {
+  versions: DataVersion[];
+  index: number; // Position of the version currently shown; versions after it can be redone
+}
+
+// One validated chat tool call. `createdId` is the id it gave a new event or node, so a replay
+// creates the same id and later calls of the same turn still find it.
+export interface ChatToolOp {
+  name: string;
+  args: Record<string, any>;
+  createdId?: string;
+}
+
+// A chat-proposed update waiting for the user to accept or reject it. The calls are replayed on
+// the data as it is when accepted, so edits made in the meantime are kept.
+export interface PendingUpdate {
+  id: string; // Becomes the version id once accepted
+  ops: ChatToolOp[];
+  createdAt: number;
+}
+
+export type UpdateStatus = 'pending' | 'applied' | 'discarded';
+
+// One difference found by "Check for updates"; `curated` ones touch hand-edited facts and are never applied
+export type RefreshChange = { id: string; curated: boolean } & (
+  | { kind: 'event-added'; event: TimelineEvent }
+  | { kind: 'event-changed'; before: TimelineEvent; after: TimelineEvent }
+  | { kind: 'node-added'; node: OrgNode; parent: string }
+  | { kind: 'node-changed'; before: OrgNode; after: OrgNode }
+  | { kind: 'node-removed'; node: OrgNode; parent: string }
+);
+
+export interface RefreshProposal {
+  fresh: CompanyData;
+  checkedAt: number;
+  since?: string; // Set for a targeted "what changed since" check
+  changes: RefreshChange[];
+}
+
+export interface TimelineDiff {
+  added: TimelineEvent[];
+  removed: TimelineEvent[];
+  modified: { before: TimelineEvent; after: TimelineEvent }[];
+}
+
+export interface OrgNodeMove {
+  name: string;
+  fromParent: string | null;
+  toParent: string | null;
+}
+
+export interface StructureDiff {
+  added: { name: string; parent: string | null }[];
+  removed: { name: string; parent: string | null }[];
+  moved: OrgNodeMove[];
+  modified: { before: OrgNode; after: OrgNode }[]; // Same node, changed name, role, description or ownership
+}
+
+export interface CompanyDataDiff {
+  timeline: TimelineDiff;
+  structure: StructureDiff;
+}
+
+// A chat about one company. Conversations are listed by normalized company name, so every
+// saved analysis of that company offers the same ones.
+export interface Conversation {
+  id: string;
+  companyKey: string; // normalizeEntityName of the company
+  title: string; // Opening question, shortened
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SavedAnalysis {
+  id: string;
+  title: string; // User-editable label, defaults to the company name
+  companyName: string;
+  data: CompanyData;
+  transcript?: ChatMessage[]; // Chat of records saved before conversations were kept per company
+  history?: VersionHistory; // Absent on records saved before versioning existed
+  parent?: { id: string; nodeName: string }; // Analysis this one was drilled into from
+  createdAt: number;
+  updatedAt: number;
 }
@@ -4,15 +4,31 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model calls go through the local proxy (npm run server), which holds the API key.
+    // xfwd passes the browser's address on, so the proxy rate-limits per client.
+    const apiProxy = {
+      '/api': { target: `http://${env.PROXY_HOST || '127.0.0.1'}:${env.PROXY_PORT || '8787'}`, xfwd: true },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never inlined: the browser reaches Gemini through the proxy, so the key stays on the server
+        'process.env.API_KEY': 'undefined',
+        'process.env.GEMINI_API_KEY': 'undefined',
+        // "mock" runs the offline fixture-backed provider in the browser; anything else uses the proxy
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+        'process.env.LLM_PROXY_URL': JSON.stringify(env.LLM_PROXY_URL || '/api'),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL || 'gemini-2.5-flash'),
+        // Minutes a company analysis is reused before searching again; 0 disables the cache
+        'process.env.ANALYSIS_CACHE_TTL_MINUTES': JSON.stringify(env.ANALYSIS_CACHE_TTL_MINUTES || '60')
       },
       resolve: {
         alias: {